@@ -0,0 +1,214 @@
+import type { CodeLanguage, Difficulty } from "../schemas/ai.schema";
+import type { SandboxTest } from "../utils/codeSandbox";
+
+/**
+ * Coding problems for coding interviews. Inputs and outputs must survive JSON, since that is
+ * how they cross into the sandbox. Hidden tests are never sent to the client; a large-input
+ * test catches solutions with the wrong complexity by timing out.
+ */
+export interface CodingProblem {
+    slug: string;
+    title: string;
+    difficulty: Difficulty;
+    category: string;
+    statement: string;
+    functionName: string;
+    signatures: Record<CodeLanguage, string>;
+    tests: SandboxTest[];
+}
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+export const CODING_PROBLEMS: CodingProblem[] = [
+    {
+        slug: "two-sum",
+        title: "Two Sum",
+        difficulty: "easy",
+        category: "hashing",
+        statement:
+            "Given an array of integers `nums` and an integer `target`, return the indices of the two numbers that add up to `target`, smallest index first. Exactly one pair adds up to `target`, and the same element may not be used twice.",
+        functionName: "twoSum",
+        signatures: {
+            javascript: "function twoSum(nums, target)",
+            typescript: "function twoSum(nums: number[], target: number): number[]",
+        },
+        tests: [
+            { name: "example-1", args: [[2, 7, 11, 15], 9], expected: [0, 1], hidden: false },
+            { name: "example-2", args: [[3, 2, 4], 6], expected: [1, 2], hidden: false },
+            { name: "duplicates", args: [[3, 3], 6], expected: [0, 1], hidden: true },
+            { name: "negatives", args: [[-4, 8, 1, -9], -8], expected: [2, 3], hidden: true },
+            { name: "zeros", args: [[0, 5, 0], 0], expected: [0, 2], hidden: true },
+            {
+                name: "large-input",
+                args: [range(100000), 199997],
+                expected: [99998, 99999],
+                hidden: true,
+            },
+        ],
+    },
+    {
+        slug: "valid-parentheses",
+        title: "Valid Parentheses",
+        difficulty: "easy",
+        category: "stacks",
+        statement:
+            "Given a string `s` containing only the characters `()[]{}`, return whether every bracket is closed by the same type of bracket in the correct order.",
+        functionName: "isValid",
+        signatures: {
+            javascript: "function isValid(s)",
+            typescript: "function isValid(s: string): boolean",
+        },
+        tests: [
+            { name: "example-1", args: ["()[]{}"], expected: true, hidden: false },
+            { name: "example-2", args: ["(]"], expected: false, hidden: false },
+            { name: "nested", args: ["{[()]}"], expected: true, hidden: true },
+            { name: "wrong-order", args: ["([)]"], expected: false, hidden: true },
+            { name: "unclosed", args: ["(("], expected: false, hidden: true },
+            { name: "empty", args: [""], expected: true, hidden: true },
+            { name: "closing-first", args: ["]"], expected: false, hidden: true },
+            {
+                name: "large-input",
+                args: ["(".repeat(100000) + ")".repeat(100000)],
+                expected: true,
+                hidden: true,
+            },
+        ],
+    },
+    {
+        slug: "merge-intervals",
+        title: "Merge Intervals",
+        difficulty: "medium",
+        category: "sorting",
+        statement:
+            "Given an array of `[start, end]` intervals, merge every overlapping pair (intervals that touch, like `[1, 2]` and `[2, 3]`, overlap) and return the merged intervals sorted by start.",
+        functionName: "mergeIntervals",
+        signatures: {
+            javascript: "function mergeIntervals(intervals)",
+            typescript: "function mergeIntervals(intervals: number[][]): number[][]",
+        },
+        tests: [
+            {
+                name: "example-1",
+                args: [
+                    [
+                        [1, 3],
+                        [2, 6],
+                        [8, 10],
+                        [15, 18],
+                    ],
+                ],
+                expected: [
+                    [1, 6],
+                    [8, 10],
+                    [15, 18],
+                ],
+                hidden: false,
+            },
+            {
+                name: "example-2",
+                args: [
+                    [
+                        [1, 4],
+                        [4, 5],
+                    ],
+                ],
+                expected: [[1, 5]],
+                hidden: false,
+            },
+            {
+                name: "unsorted",
+                args: [
+                    [
+                        [8, 9],
+                        [1, 2],
+                        [2, 4],
+                    ],
+                ],
+                expected: [
+                    [1, 4],
+                    [8, 9],
+                ],
+                hidden: true,
+            },
+            {
+                name: "contained",
+                args: [
+                    [
+                        [1, 10],
+                        [2, 3],
+                        [4, 5],
+                    ],
+                ],
+                expected: [[1, 10]],
+                hidden: true,
+            },
+            { name: "single", args: [[[5, 7]]], expected: [[5, 7]], hidden: true },
+            { name: "empty", args: [[]], expected: [], hidden: true },
+            {
+                name: "large-input",
+                args: [range(50000).map((i) => [i * 2, i * 2 + 1])],
+                expected: range(50000).map((i) => [i * 2, i * 2 + 1]),
+                hidden: true,
+            },
+        ],
+    },
+    {
+        slug: "longest-unique-substring",
+        title: "Longest Substring Without Repeating Characters",
+        difficulty: "medium",
+        category: "sliding-window",
+        statement:
+            "Given a string `s`, return the length of the longest substring that contains no repeated character.",
+        functionName: "lengthOfLongestSubstring",
+        signatures: {
+            javascript: "function lengthOfLongestSubstring(s)",
+            typescript: "function lengthOfLongestSubstring(s: string): number",
+        },
+        tests: [
+            { name: "example-1", args: ["abcabcbb"], expected: 3, hidden: false },
+            { name: "example-2", args: ["bbbbb"], expected: 1, hidden: false },
+            { name: "middle", args: ["pwwkew"], expected: 3, hidden: true },
+            { name: "empty", args: [""], expected: 0, hidden: true },
+            { name: "all-unique", args: ["abcdef"], expected: 6, hidden: true },
+            { name: "repeat-far-back", args: ["abba"], expected: 2, hidden: true },
+            {
+                name: "long-input",
+                args: ["abcdefghijklmnopqrstuvwxyz".repeat(8000)],
+                expected: 26,
+                hidden: true,
+            },
+        ],
+    },
+    {
+        slug: "trapping-rain-water",
+        title: "Trapping Rain Water",
+        difficulty: "hard",
+        category: "two-pointers",
+        statement:
+            "Given an array `height` of non-negative integers describing an elevation map where each bar is 1 wide, return how many units of rain water it traps.",
+        functionName: "trap",
+        signatures: {
+            javascript: "function trap(height)",
+            typescript: "function trap(height: number[]): number",
+        },
+        tests: [
+            {
+                name: "example-1",
+                args: [[0, 1, 0, 2, 1, 0, 1, 3, 2, 1, 2, 1]],
+                expected: 6,
+                hidden: false,
+            },
+            { name: "example-2", args: [[4, 2, 0, 3, 2, 5]], expected: 9, hidden: false },
+            { name: "empty", args: [[]], expected: 0, hidden: true },
+            { name: "ascending", args: [[1, 2, 3, 4]], expected: 0, hidden: true },
+            { name: "valley", args: [[5, 0, 5]], expected: 5, hidden: true },
+            { name: "plateau", args: [[3, 3, 0, 0, 3, 3]], expected: 6, hidden: true },
+            {
+                name: "large-input",
+                args: [range(60000).map((i) => (i % 2 === 0 ? 1000 : 0))],
+                expected: 29999000,
+                hidden: true,
+            },
+        ],
+    },
+];
@@ -0,0 +1,385 @@
+import type { Locale } from "../utils/locale";
+
+/**
+ * Phrases the delivery analyzer counts in an answer, per locale. Entries are lowercase and
+ * matched as whole words; words that are only sometimes fillers (e.g. "like", "so") are left
+ * out so ordinary sentences aren't penalized.
+ */
+export interface DeliveryLexicon {
+    // Verbal padding that carries no content
+    fillers: string[];
+    // Phrases that soften or undercut a claim
+    hedges: string[];
+    // Phrases that announce the shape of the answer to the listener
+    signposts: string[];
+    // Cues for each part of a STAR (Situation, Task, Action, Result) answer
+    star: {
+        situation: string[];
+        task: string[];
+        action: string[];
+        result: string[];
+    };
+}
+
+export const DELIVERY_LEXICON: Record<Locale, DeliveryLexicon> = {
+    en: {
+        fillers: [
+            "um",
+            "umm",
+            "uh",
+            "uhm",
+            "erm",
+            "er",
+            "ah",
+            "you know",
+            "i mean",
+            "basically",
+            "literally",
+            "actually",
+            "so yeah",
+            "or whatever",
+        ],
+        hedges: [
+            "i think",
+            "i guess",
+            "i believe",
+            "i suppose",
+            "maybe",
+            "perhaps",
+            "probably",
+            "kind of",
+            "sort of",
+            "somewhat",
+            "more or less",
+            "not sure",
+            "hopefully",
+            "i feel like",
+        ],
+        signposts: [
+            "first",
+            "firstly",
+            "second",
+            "secondly",
+            "third",
+            "next",
+            "after that",
+            "finally",
+            "lastly",
+            "to start",
+            "for example",
+            "for instance",
+            "on the other hand",
+            "in summary",
+            "to summarize",
+            "in short",
+            "in conclusion",
+            "overall",
+        ],
+        star: {
+            situation: [
+                "situation",
+                "context",
+                "background",
+                "at the time",
+                "in my previous role",
+                "in my last role",
+                "at my previous",
+                "the problem was",
+                "the challenge was",
+                "we were facing",
+            ],
+            task: [
+                "my task",
+                "the task",
+                "my responsibility",
+                "i was responsible",
+                "my role was",
+                "my goal",
+                "the goal was",
+                "the objective",
+                "i needed to",
+                "i had to",
+                "i was asked to",
+            ],
+            action: [
+                "i decided",
+                "i led",
+                "i built",
+                "i implemented",
+                "i created",
+                "i designed",
+                "i organized",
+                "i proposed",
+                "i wrote",
+                "i rewrote",
+                "i added",
+                "i fixed",
+                "i migrated",
+                "i refactored",
+                "i introduced",
+                "i developed",
+                "i automated",
+                "i investigated",
+                "i analyzed",
+                "i profiled",
+                "i coordinated",
+                "i met with",
+                "i talked to",
+                "i set up",
+                "i reached out",
+                "i started by",
+                "my approach",
+            ],
+            result: [
+                "result",
+                "as a result",
+                "outcome",
+                "which led to",
+                "in the end",
+                "ultimately",
+                "reduced",
+                "increased",
+                "improved",
+                "saved",
+                "percent",
+                "i learned",
+            ],
+        },
+    },
+    es: {
+        fillers: [
+            "eh",
+            "em",
+            "mmm",
+            "o sea",
+            "digamos",
+            "en plan",
+            "pues nada",
+            "básicamente",
+            "literalmente",
+        ],
+        hedges: [
+            "creo que",
+            "supongo",
+            "quizás",
+            "quizá",
+            "tal vez",
+            "a lo mejor",
+            "probablemente",
+            "más o menos",
+            "no estoy seguro",
+            "no estoy segura",
+            "de alguna manera",
+        ],
+        signposts: [
+            "primero",
+            "en primer lugar",
+            "en segundo lugar",
+            "después",
+            "luego",
+            "finalmente",
+            "por último",
+            "por ejemplo",
+            "por otro lado",
+            "en resumen",
+            "en conclusión",
+        ],
+        star: {
+            situation: [
+                "situación",
+                "contexto",
+                "en aquel momento",
+                "en mi puesto anterior",
+                "en mi anterior trabajo",
+                "el problema era",
+                "el reto era",
+            ],
+            task: [
+                "tarea",
+                "mi responsabilidad",
+                "era responsable",
+                "mi objetivo",
+                "el objetivo era",
+                "tenía que",
+                "mi función",
+            ],
+            action: [
+                "decidí",
+                "lideré",
+                "implementé",
+                "creé",
+                "diseñé",
+                "organicé",
+                "propuse",
+                "desarrollé",
+                "empecé por",
+            ],
+            result: [
+                "resultado",
+                "como resultado",
+                "al final",
+                "logramos",
+                "conseguimos",
+                "redujimos",
+                "aumentamos",
+                "mejoramos",
+                "por ciento",
+                "aprendí",
+            ],
+        },
+    },
+    fr: {
+        fillers: [
+            "euh",
+            "heu",
+            "bah",
+            "ben",
+            "genre",
+            "du coup",
+            "en fait",
+            "tu vois",
+            "voilà",
+            "disons",
+        ],
+        hedges: [
+            "je pense",
+            "je crois",
+            "peut-être",
+            "probablement",
+            "plus ou moins",
+            "je ne suis pas sûr",
+            "je ne suis pas sûre",
+            "en quelque sorte",
+            "il me semble",
+            "j'imagine",
+        ],
+        signposts: [
+            "d'abord",
+            "tout d'abord",
+            "premièrement",
+            "deuxièmement",
+            "ensuite",
+            "enfin",
+            "finalement",
+            "par exemple",
+            "d'une part",
+            "d'autre part",
+            "en résumé",
+            "en conclusion",
+        ],
+        star: {
+            situation: [
+                "situation",
+                "contexte",
+                "à l'époque",
+                "dans mon poste précédent",
+                "le problème était",
+                "le défi était",
+            ],
+            task: [
+                "tâche",
+                "ma responsabilité",
+                "j'étais responsable",
+                "mon objectif",
+                "l'objectif était",
+                "je devais",
+                "mon rôle",
+            ],
+            action: [
+                "j'ai décidé",
+                "j'ai dirigé",
+                "j'ai mis en place",
+                "j'ai créé",
+                "j'ai conçu",
+                "j'ai organisé",
+                "j'ai proposé",
+                "j'ai développé",
+                "j'ai commencé par",
+            ],
+            result: [
+                "résultat",
+                "au final",
+                "nous avons réduit",
+                "nous avons augmenté",
+                "on a réduit",
+                "on a augmenté",
+                "amélioré",
+                "pour cent",
+                "j'ai appris",
+            ],
+        },
+    },
+    de: {
+        fillers: ["äh", "ähm", "öhm", "hm", "halt", "sozusagen", "quasi", "irgendwie", "weißt du"],
+        hedges: [
+            "ich glaube",
+            "ich denke",
+            "vielleicht",
+            "wahrscheinlich",
+            "eventuell",
+            "ein bisschen",
+            "mehr oder weniger",
+            "nicht sicher",
+            "gewissermaßen",
+            "ich vermute",
+        ],
+        signposts: [
+            "zuerst",
+            "erstens",
+            "zweitens",
+            "drittens",
+            "danach",
+            "anschließend",
+            "schließlich",
+            "zum schluss",
+            "zum beispiel",
+            "beispielsweise",
+            "einerseits",
+            "andererseits",
+            "zusammenfassend",
+        ],
+        star: {
+            situation: [
+                "situation",
+                "kontext",
+                "damals",
+                "in meiner vorherigen position",
+                "in meinem letzten job",
+                "das problem war",
+                "die herausforderung war",
+            ],
+            task: [
+                "aufgabe",
+                "meine verantwortung",
+                "ich war verantwortlich",
+                "mein ziel",
+                "das ziel war",
+                "ich musste",
+                "meine rolle",
+            ],
+            action: [
+                // Perfect participles, since German puts them at the end of the clause
+                "entschieden",
+                "beschlossen",
+                "geleitet",
+                "eingeführt",
+                "entwickelt",
+                "entworfen",
+                "organisiert",
+                "vorgeschlagen",
+                "umgesetzt",
+            ],
+            result: [
+                "ergebnis",
+                "resultat",
+                "am ende",
+                "reduziert",
+                "gesenkt",
+                "gesteigert",
+                "verbessert",
+                "prozent",
+                "gelernt",
+            ],
+        },
+    },
+};
@@ -0,0 +1,161 @@
+import type { Locale } from "../utils/locale";
+
+/**
+ * Fixed text shown to candidates when the AI can't produce it, per locale. `{name}`
+ * placeholders are filled by `localize`. Every locale must define every key.
+ */
+const EN = {
+    feedbackUnavailable: "Could not generate feedback due to an error.",
+    feedbackRetry: "Please try again later.",
+    textFeedbackFallback:
+        "Thank you for your response. Consider providing more specific examples and quantifiable results in your answer.",
+    followUpFallback: "Can you elaborate on that a bit more?",
+    designFollowUpFallback:
+        "What in this part of your design would have to change at ten times the load?",
+    injectionImprovement:
+        "Answer the interview question itself. Parts of this answer read as instructions to the grader, so its scores were capped.",
+    heuristicSummary:
+        "AI grading is unavailable, so these scores are a rule-based estimate from the answer's wording, detail and structure. The answer will be regraded automatically.",
+    heuristicSuggestion: "Check back later for full feedback once the answer has been regraded.",
+    heuristicOnTopic: "Stays close to what the question asks.",
+    heuristicSpecific: "Backs the answer with specifics such as numbers, tools or outcomes.",
+    heuristicStructured: "Guides the listener through the answer with a clear structure.",
+    heuristicOffTopic:
+        "Address the question more directly; the answer shares few key terms with it.",
+    heuristicVague:
+        "Add specifics: numbers, the technologies you used and the outcome you achieved.",
+    heuristicLongSentences: "Break long sentences up so each one makes a single point.",
+    heuristicFillers: 'Cut filler words and hedging such as "um", "basically" or "I think".',
+    heuristicStarSituation: "Set the scene: describe the specific situation you were in.",
+    heuristicStarTask: "Say what you were responsible for or what goal you had.",
+    heuristicStarAction: "Describe the concrete actions you personally took.",
+    heuristicStarResult: "Finish with the result, ideally measurable, and what you learned.",
+    jobSkillQuestion:
+        "Describe a project where you relied on {skill}. What was your role and what was the outcome?",
+    jobResponsibilityQuestion:
+        'This role involves: "{responsibility}". Tell me about a time you did something similar.',
+    defaultCompany: "the company",
+    defaultRole: "this role",
+};
+
+export type MessageKey = keyof typeof EN;
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+    en: EN,
+    es: {
+        feedbackUnavailable: "No se pudo generar la evaluación debido a un error.",
+        feedbackRetry: "Vuelve a intentarlo más tarde.",
+        textFeedbackFallback:
+            "Gracias por tu respuesta. Intenta aportar ejemplos más concretos y resultados cuantificables.",
+        followUpFallback: "¿Puedes profundizar un poco más en eso?",
+        designFollowUpFallback:
+            "¿Qué tendría que cambiar en esta parte de tu diseño con diez veces más carga?",
+        injectionImprovement:
+            "Responde a la pregunta de la entrevista. Partes de esta respuesta parecen instrucciones para el evaluador, por lo que sus puntuaciones se han limitado.",
+        heuristicSummary:
+            "La evaluación con IA no está disponible, así que estas puntuaciones son una estimación basada en reglas a partir de la redacción, el detalle y la estructura de la respuesta. La respuesta se volverá a evaluar automáticamente.",
+        heuristicSuggestion:
+            "Vuelve más tarde para ver la evaluación completa cuando la respuesta se haya vuelto a evaluar.",
+        heuristicOnTopic: "Se ciñe a lo que plantea la pregunta.",
+        heuristicSpecific:
+            "Respalda la respuesta con datos concretos como cifras, herramientas o resultados.",
+        heuristicStructured: "Guía al oyente por la respuesta con una estructura clara.",
+        heuristicOffTopic:
+            "Responde a la pregunta de forma más directa; la respuesta comparte pocos términos clave con ella.",
+        heuristicVague:
+            "Añade detalles concretos: cifras, las tecnologías que usaste y el resultado que lograste.",
+        heuristicLongSentences: "Divide las frases largas para que cada una exprese una sola idea.",
+        heuristicFillers:
+            'Elimina muletillas y expresiones de duda como "eh", "o sea" o "creo que".',
+        heuristicStarSituation:
+            "Sitúa al oyente: describe la situación concreta en la que te encontrabas.",
+        heuristicStarTask: "Explica de qué eras responsable o qué objetivo tenías.",
+        heuristicStarAction: "Describe las acciones concretas que llevaste a cabo tú.",
+        heuristicStarResult:
+            "Termina con el resultado, a ser posible medible, y lo que aprendiste.",
+        jobSkillQuestion:
+            "Describe un proyecto en el que te apoyaste en {skill}. ¿Cuál fue tu papel y cuál fue el resultado?",
+        jobResponsibilityQuestion:
+            'Este puesto incluye: "{responsibility}". Cuéntame alguna ocasión en la que hiciste algo parecido.',
+        defaultCompany: "la empresa",
+        defaultRole: "este puesto",
+    },
+    fr: {
+        feedbackUnavailable: "Impossible de générer l'évaluation à cause d'une erreur.",
+        feedbackRetry: "Veuillez réessayer plus tard.",
+        textFeedbackFallback:
+            "Merci pour votre réponse. Essayez d'apporter des exemples plus précis et des résultats chiffrés.",
+        followUpFallback: "Pouvez-vous développer un peu plus ce point ?",
+        designFollowUpFallback:
+            "Qu'est-ce qui devrait changer dans cette partie de votre conception avec une charge dix fois plus élevée ?",
+        injectionImprovement:
+            "Répondez à la question de l'entretien. Certaines parties de cette réponse ressemblent à des instructions adressées à l'évaluateur : ses notes ont donc été plafonnées.",
+        heuristicSummary:
+            "L'évaluation par IA n'est pas disponible : ces notes sont une estimation fondée sur des règles à partir de la formulation, du niveau de détail et de la structure de la réponse. La réponse sera réévaluée automatiquement.",
+        heuristicSuggestion:
+            "Revenez plus tard pour l'évaluation complète, une fois la réponse réévaluée.",
+        heuristicOnTopic: "Reste proche de ce que demande la question.",
+        heuristicSpecific:
+            "Appuie la réponse sur des éléments précis comme des chiffres, des outils ou des résultats.",
+        heuristicStructured: "Guide l'auditeur dans la réponse grâce à une structure claire.",
+        heuristicOffTopic:
+            "Répondez plus directement à la question ; la réponse partage peu de termes clés avec elle.",
+        heuristicVague:
+            "Ajoutez des précisions : des chiffres, les technologies utilisées et le résultat obtenu.",
+        heuristicLongSentences:
+            "Découpez les phrases longues pour que chacune n'exprime qu'une idée.",
+        heuristicFillers:
+            "Supprimez les mots de remplissage et les hésitations comme « euh », « du coup » ou « je pense ».",
+        heuristicStarSituation:
+            "Posez le contexte : décrivez la situation précise dans laquelle vous étiez.",
+        heuristicStarTask: "Dites de quoi vous étiez responsable ou quel était votre objectif.",
+        heuristicStarAction: "Décrivez les actions concrètes que vous avez menées vous-même.",
+        heuristicStarResult:
+            "Terminez par le résultat, idéalement chiffré, et ce que vous en avez appris.",
+        jobSkillQuestion:
+            "Décrivez un projet pour lequel vous vous êtes appuyé sur {skill}. Quel était votre rôle et quel en a été le résultat ?",
+        jobResponsibilityQuestion:
+            "Ce poste implique : « {responsibility} ». Parlez-moi d'une fois où vous avez fait quelque chose de similaire.",
+        defaultCompany: "l'entreprise",
+        defaultRole: "ce poste",
+    },
+    de: {
+        feedbackUnavailable: "Die Bewertung konnte wegen eines Fehlers nicht erstellt werden.",
+        feedbackRetry: "Bitte versuchen Sie es später erneut.",
+        textFeedbackFallback:
+            "Danke für Ihre Antwort. Versuchen Sie, konkretere Beispiele und messbare Ergebnisse zu nennen.",
+        followUpFallback: "Können Sie das etwas genauer ausführen?",
+        designFollowUpFallback:
+            "Was müsste sich an diesem Teil Ihres Entwurfs bei zehnfacher Last ändern?",
+        injectionImprovement:
+            "Beantworten Sie die Interviewfrage selbst. Teile dieser Antwort lesen sich wie Anweisungen an den Bewerter, daher wurden die Punktzahlen begrenzt.",
+        heuristicSummary:
+            "Die KI-Bewertung ist nicht verfügbar. Diese Punktzahlen sind daher eine regelbasierte Schätzung anhand von Formulierung, Detailgrad und Aufbau der Antwort. Die Antwort wird automatisch neu bewertet.",
+        heuristicSuggestion:
+            "Schauen Sie später für die vollständige Bewertung vorbei, sobald die Antwort neu bewertet wurde.",
+        heuristicOnTopic: "Bleibt nah an dem, was die Frage wissen will.",
+        heuristicSpecific:
+            "Untermauert die Antwort mit Konkretem wie Zahlen, Werkzeugen oder Ergebnissen.",
+        heuristicStructured: "Führt den Zuhörer mit einem klaren Aufbau durch die Antwort.",
+        heuristicOffTopic:
+            "Gehen Sie direkter auf die Frage ein; die Antwort teilt nur wenige Schlüsselbegriffe mit ihr.",
+        heuristicVague:
+            "Werden Sie konkreter: Zahlen, die eingesetzten Technologien und das erreichte Ergebnis.",
+        heuristicLongSentences: "Teilen Sie lange Sätze auf, sodass jeder nur eine Aussage macht.",
+        heuristicFillers:
+            "Verzichten Sie auf Füllwörter und Relativierungen wie „ähm“, „halt“ oder „ich glaube“.",
+        heuristicStarSituation: "Beschreiben Sie zuerst die konkrete Situation, in der Sie waren.",
+        heuristicStarTask:
+            "Sagen Sie, wofür Sie verantwortlich waren oder welches Ziel Sie hatten.",
+        heuristicStarAction:
+            "Beschreiben Sie die konkreten Schritte, die Sie selbst unternommen haben.",
+        heuristicStarResult:
+            "Schließen Sie mit dem Ergebnis, idealerweise messbar, und dem, was Sie gelernt haben.",
+        jobSkillQuestion:
+            "Beschreiben Sie ein Projekt, in dem Sie sich auf {skill} gestützt haben. Was war Ihre Rolle und was war das Ergebnis?",
+        jobResponsibilityQuestion:
+            'Diese Stelle umfasst: "{responsibility}". Erzählen Sie von einer Situation, in der Sie etwas Ähnliches getan haben.',
+        defaultCompany: "das Unternehmen",
+        defaultRole: "diese Stelle",
+    },
+};
@@ -0,0 +1,60 @@
+import type { GeneratedQuestionType } from "../schemas/ai.schema";
+
+/**
+ * What each seat on an interview panel is there to judge. The focus picks the kind of
+ * questions the panelist asks, what their written feedback concentrates on and how they weigh
+ * the four scores when they vote.
+ */
+export type PanelFocusKey = "hiring-manager" | "technical" | "culture";
+
+export type ScoreDimension = "relevance" | "clarity" | "depth" | "communication";
+
+export interface PanelFocus {
+    key: PanelFocusKey;
+    label: string;
+    questionType: GeneratedQuestionType;
+    // Built-in persona that fills the seat when the request doesn't name one
+    defaultPersona: string;
+    // Added to the persona's question style
+    questionFocus: string;
+    // Added to the persona's feedback tone
+    feedbackFocus: string;
+    // Share of each score in the panelist's focus score; sums to 1
+    weights: Record<ScoreDimension, number>;
+}
+
+export const PANEL_FOCUSES: PanelFocus[] = [
+    {
+        key: "hiring-manager",
+        label: "Hiring manager",
+        questionType: "situational",
+        defaultPersona: "bar-raiser",
+        questionFocus:
+            "You are the hiring manager for this role: ask about scope, ownership, prioritization and the situations the role meets day to day.",
+        feedbackFocus:
+            "Write as the hiring manager, judging whether the candidate would own and deliver the work of this role.",
+        weights: { relevance: 0.35, depth: 0.25, communication: 0.25, clarity: 0.15 },
+    },
+    {
+        key: "technical",
+        label: "Technical",
+        questionType: "technical",
+        defaultPersona: "skeptical-engineer",
+        questionFocus:
+            "You are the panel's technical interviewer: ask about the systems, tools and engineering decisions the role depends on.",
+        feedbackFocus:
+            "Write as the technical interviewer, judging the correctness and depth of the candidate's technical reasoning.",
+        weights: { depth: 0.45, relevance: 0.3, clarity: 0.15, communication: 0.1 },
+    },
+    {
+        key: "culture",
+        label: "Culture",
+        questionType: "behavioral",
+        defaultPersona: "friendly-recruiter",
+        questionFocus:
+            "You are the panel's culture interviewer: ask about collaboration, conflict, feedback and how the candidate works with others.",
+        feedbackFocus:
+            "Write as the culture interviewer, judging how the candidate collaborates, communicates and handles disagreement.",
+        weights: { communication: 0.4, relevance: 0.25, clarity: 0.2, depth: 0.15 },
+    },
+];
@@ -0,0 +1,73 @@
+/**
+ * Interviewer personas. A persona changes how questions are phrased, how hard follow-ups
+ * push and the tone of written feedback; it never changes how answers are scored. Users can
+ * add their own alongside these.
+ */
+export type FollowUpIntensity = "gentle" | "probing" | "relentless";
+
+export const FOLLOW_UP_INTENSITIES: FollowUpIntensity[] = ["gentle", "probing", "relentless"];
+
+export interface InterviewerPersona {
+    // Built-in slug, or "custom-<id>" for a user's own persona
+    key: string;
+    name: string;
+    description: string;
+    // How questions are phrased
+    questionStyle: string;
+    // What follow-up questions go after
+    followUpStyle: string;
+    followUpIntensity: FollowUpIntensity;
+    // Voice of the strengths, improvements and summary in feedback
+    feedbackTone: string;
+}
+
+export const BUILT_IN_PERSONAS: InterviewerPersona[] = [
+    {
+        key: "friendly-recruiter",
+        name: "Friendly recruiter",
+        description: "A warm first-round screen that puts the candidate at ease.",
+        questionStyle:
+            'Warm and conversational. Give a little context before each question, phrase it as an invitation ("I\'d love to hear about..."), avoid jargon and keep each question to one clear ask.',
+        followUpStyle:
+            "Encourage the candidate to expand on what went well or to add a detail they skipped.",
+        followUpIntensity: "gentle",
+        feedbackTone:
+            "Warm and encouraging. Lead with what worked, frame improvements as next steps and keep criticism constructive.",
+    },
+    {
+        key: "skeptical-engineer",
+        name: "Skeptical senior engineer",
+        description: "A technical interviewer who wants proof behind every claim.",
+        questionStyle:
+            "Direct and technical. Ask for specifics: the actual systems, numbers and decisions the candidate personally made. Assume every claim needs backing.",
+        followUpStyle:
+            "Challenge vague or unsupported claims: ask how they know, what they measured and what would break.",
+        followUpIntensity: "probing",
+        feedbackTone:
+            "Blunt and precise. Call out hand-waving and unsupported claims directly, without padding.",
+    },
+    {
+        key: "bar-raiser",
+        name: "Bar-raiser",
+        description: "An interviewer from outside the team who checks the hire raises the bar.",
+        questionStyle:
+            "Calm but demanding. Prefer open-ended questions that reveal the scope and ownership of the candidate's work, their judgment under ambiguity and how they raise the bar for others.",
+        followUpStyle:
+            "Stay on one story until the candidate's own contribution, the trade-offs and the measurable impact are clear; ask what they would do differently.",
+        followUpIntensity: "relentless",
+        feedbackTone:
+            "Measured and exacting. Compare the answer with what a strong candidate at the next level would say and be explicit about what falls short.",
+    },
+    {
+        key: "stress-interview",
+        name: "Stress interview",
+        description: "A deliberately high-pressure interview to practice staying composed.",
+        questionStyle:
+            "Curt and high-pressure. Ask short, pointed questions, some with tight constraints or deliberately ambiguous requirements, and offer no reassurance.",
+        followUpStyle:
+            "Push back on the answer at once with a counter-argument or a changed constraint and ask the candidate to defend or adapt their position.",
+        followUpIntensity: "relentless",
+        feedbackTone:
+            "Direct and unsentimental but fair. Comment on how well the candidate kept their composure and structure under pressure as well as on the content.",
+    },
+];
@@ -0,0 +1,805 @@
+import type { NewQuestionBankEntry } from "../db/schema";
+
+/**
+ * Built-in question bank. Seeded into the `question_bank` table by `npm run seed:questions`
+ * and used directly when the database is unavailable. `{{name}}` placeholders are filled
+ * from the generation request (jobRole, company). `translations` hold the same question in
+ * every other supported locale, with the same placeholders.
+ */
+export const QUESTION_BANK_SEED: NewQuestionBankEntry[] = [
+    {
+        slug: "easy-001",
+        question: "Tell me about yourself and your interest in {{jobRole}}.",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "introduction",
+        variables: ["jobRole"],
+        translations: {
+            es: "Háblame de ti y de tu interés en {{jobRole}}.",
+            fr: "Parlez-moi de vous et de votre intérêt pour {{jobRole}}.",
+            de: "Erzählen Sie etwas über sich und Ihr Interesse an {{jobRole}}.",
+        },
+    },
+    {
+        slug: "easy-002",
+        question: "What are your main strengths?",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "self-assessment",
+        variables: [],
+        translations: {
+            es: "¿Cuáles son tus principales fortalezas?",
+            fr: "Quels sont vos principaux points forts ?",
+            de: "Was sind Ihre größten Stärken?",
+        },
+    },
+    {
+        slug: "easy-003",
+        question: "Why do you want to work in this role?",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "motivation",
+        variables: [],
+        translations: {
+            es: "¿Por qué quieres trabajar en este puesto?",
+            fr: "Pourquoi voulez-vous occuper ce poste ?",
+            de: "Warum möchten Sie in dieser Position arbeiten?",
+        },
+    },
+    {
+        slug: "easy-004",
+        question: "Describe a typical day in your current or previous role.",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "experience",
+        variables: [],
+        translations: {
+            es: "Describe un día típico en tu puesto actual o anterior.",
+            fr: "Décrivez une journée type dans votre poste actuel ou précédent.",
+            de: "Beschreiben Sie einen typischen Tag in Ihrer aktuellen oder letzten Position.",
+        },
+    },
+    {
+        slug: "easy-005",
+        question: "What interests you about our company?",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "company-fit",
+        variables: [],
+        translations: {
+            es: "¿Qué te interesa de nuestra empresa?",
+            fr: "Qu'est-ce qui vous intéresse dans notre entreprise ?",
+            de: "Was interessiert Sie an unserem Unternehmen?",
+        },
+    },
+    {
+        slug: "easy-006",
+        question: "What programming languages or tools do you use for {{jobRole}}?",
+        type: "technical",
+        difficulty: "easy",
+        category: "technical-skills",
+        variables: ["jobRole"],
+        translations: {
+            es: "¿Qué lenguajes de programación o herramientas utilizas para {{jobRole}}?",
+            fr: "Quels langages de programmation ou outils utilisez-vous pour {{jobRole}} ?",
+            de: "Welche Programmiersprachen oder Tools verwenden Sie für {{jobRole}}?",
+        },
+    },
+    {
+        slug: "easy-007",
+        question: "How would you handle receiving negative feedback?",
+        type: "situational",
+        difficulty: "easy",
+        category: "professionalism",
+        variables: [],
+        translations: {
+            es: "¿Cómo reaccionarías ante una crítica negativa?",
+            fr: "Comment réagiriez-vous face à un retour négatif ?",
+            de: "Wie würden Sie mit negativem Feedback umgehen?",
+        },
+    },
+    {
+        slug: "easy-008",
+        question: "What is your greatest professional achievement?",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "achievements",
+        variables: [],
+        translations: {
+            es: "¿Cuál es tu mayor logro profesional?",
+            fr: "Quelle est votre plus grande réussite professionnelle ?",
+            de: "Was ist Ihr größter beruflicher Erfolg?",
+        },
+    },
+    {
+        slug: "easy-009",
+        question: "How do you stay updated with industry trends?",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "learning",
+        variables: [],
+        translations: {
+            es: "¿Cómo te mantienes al día con las tendencias del sector?",
+            fr: "Comment vous tenez-vous informé des tendances du secteur ?",
+            de: "Wie halten Sie sich über Branchentrends auf dem Laufenden?",
+        },
+    },
+    {
+        slug: "easy-010",
+        question: "Describe your ideal work environment.",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "work-culture",
+        variables: [],
+        translations: {
+            es: "Describe tu entorno de trabajo ideal.",
+            fr: "Décrivez votre environnement de travail idéal.",
+            de: "Beschreiben Sie Ihr ideales Arbeitsumfeld.",
+        },
+    },
+    {
+        slug: "easy-011",
+        question: "What basic concepts of {{jobRole}} are you most comfortable with?",
+        type: "technical",
+        difficulty: "easy",
+        category: "fundamentals",
+        variables: ["jobRole"],
+        translations: {
+            es: "¿Con qué conceptos básicos de {{jobRole}} te sientes más cómodo?",
+            fr: "Quels concepts de base de {{jobRole}} maîtrisez-vous le mieux ?",
+            de: "Mit welchen Grundkonzepten von {{jobRole}} sind Sie am besten vertraut?",
+        },
+    },
+    {
+        slug: "easy-012",
+        question: "How do you prioritize your tasks?",
+        type: "situational",
+        difficulty: "easy",
+        category: "time-management",
+        variables: [],
+        translations: {
+            es: "¿Cómo priorizas tus tareas?",
+            fr: "Comment priorisez-vous vos tâches ?",
+            de: "Wie priorisieren Sie Ihre Aufgaben?",
+        },
+    },
+    {
+        slug: "easy-013",
+        question: "Tell me about a time you worked in a team.",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "teamwork",
+        variables: [],
+        translations: {
+            es: "Cuéntame alguna ocasión en la que trabajaste en equipo.",
+            fr: "Parlez-moi d'une fois où vous avez travaillé en équipe.",
+            de: "Erzählen Sie von einer Situation, in der Sie im Team gearbeitet haben.",
+        },
+    },
+    {
+        slug: "easy-014",
+        question: "What are your career goals for the next year?",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "goals",
+        variables: [],
+        translations: {
+            es: "¿Cuáles son tus objetivos profesionales para el próximo año?",
+            fr: "Quels sont vos objectifs professionnels pour l'année à venir ?",
+            de: "Was sind Ihre beruflichen Ziele für das nächste Jahr?",
+        },
+    },
+    {
+        slug: "easy-015",
+        question: "How would you explain a complex technical concept to a non-technical person?",
+        type: "situational",
+        difficulty: "easy",
+        category: "communication",
+        variables: [],
+        translations: {
+            es: "¿Cómo explicarías un concepto técnico complejo a una persona sin conocimientos técnicos?",
+            fr: "Comment expliqueriez-vous un concept technique complexe à une personne non technique ?",
+            de: "Wie würden Sie einer nicht technisch versierten Person ein komplexes technisches Konzept erklären?",
+        },
+    },
+    {
+        slug: "easy-016",
+        question: "What tools or frameworks are you familiar with in {{jobRole}}?",
+        type: "technical",
+        difficulty: "easy",
+        category: "tools",
+        variables: ["jobRole"],
+        translations: {
+            es: "¿Qué herramientas o frameworks conoces en {{jobRole}}?",
+            fr: "Quels outils ou frameworks connaissez-vous dans le domaine {{jobRole}} ?",
+            de: "Welche Tools oder Frameworks kennen Sie im Bereich {{jobRole}}?",
+        },
+    },
+    {
+        slug: "easy-017",
+        question: "Describe a time when you had to learn something new quickly.",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "adaptability",
+        variables: [],
+        translations: {
+            es: "Describe una ocasión en la que tuviste que aprender algo nuevo rápidamente.",
+            fr: "Décrivez une situation où vous avez dû apprendre quelque chose de nouveau rapidement.",
+            de: "Beschreiben Sie eine Situation, in der Sie sich schnell etwas Neues aneignen mussten.",
+        },
+    },
+    {
+        slug: "easy-018",
+        question: "What motivates you in your work?",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "motivation",
+        variables: [],
+        translations: {
+            es: "¿Qué te motiva en tu trabajo?",
+            fr: "Qu'est-ce qui vous motive dans votre travail ?",
+            de: "Was motiviert Sie bei Ihrer Arbeit?",
+        },
+    },
+    {
+        slug: "easy-019",
+        question: "How do you handle constructive criticism?",
+        type: "situational",
+        difficulty: "easy",
+        category: "feedback",
+        variables: [],
+        translations: {
+            es: "¿Cómo gestionas la crítica constructiva?",
+            fr: "Comment accueillez-vous la critique constructive ?",
+            de: "Wie gehen Sie mit konstruktiver Kritik um?",
+        },
+    },
+    {
+        slug: "easy-020",
+        question: "What makes you a good fit for this role?",
+        type: "behavioral",
+        difficulty: "easy",
+        category: "fit",
+        variables: [],
+        translations: {
+            es: "¿Qué te hace adecuado para este puesto?",
+            fr: "Qu'est-ce qui fait de vous un bon candidat pour ce poste ?",
+            de: "Was macht Sie zu einer guten Besetzung für diese Position?",
+        },
+    },
+    {
+        slug: "medium-001",
+        question:
+            "Tell me about your experience with {{jobRole}} and what interests you about this role.",
+        type: "behavioral",
+        difficulty: "medium",
+        category: "background",
+        variables: ["jobRole"],
+        translations: {
+            es: "Háblame de tu experiencia con {{jobRole}} y de lo que te interesa de este puesto.",
+            fr: "Parlez-moi de votre expérience en {{jobRole}} et de ce qui vous intéresse dans ce poste.",
+            de: "Erzählen Sie von Ihrer Erfahrung mit {{jobRole}} und was Sie an dieser Position interessiert.",
+        },
+    },
+    {
+        slug: "medium-002",
+        question: "Describe a challenging project you worked on and how you overcame obstacles.",
+        type: "behavioral",
+        difficulty: "medium",
+        category: "problem-solving",
+        variables: [],
+        translations: {
+            es: "Describe un proyecto difícil en el que trabajaste y cómo superaste los obstáculos.",
+            fr: "Décrivez un projet difficile sur lequel vous avez travaillé et comment vous avez surmonté les obstacles.",
+            de: "Beschreiben Sie ein anspruchsvolles Projekt, an dem Sie gearbeitet haben, und wie Sie die Hindernisse überwunden haben.",
+        },
+    },
+    {
+        slug: "medium-003",
+        question: "How do you handle working under pressure and tight deadlines?",
+        type: "situational",
+        difficulty: "medium",
+        category: "stress-management",
+        variables: [],
+        translations: {
+            es: "¿Cómo trabajas bajo presión y con plazos ajustados?",
+            fr: "Comment gérez-vous la pression et les délais serrés ?",
+            de: "Wie gehen Sie mit Druck und knappen Fristen um?",
+        },
+    },
+    {
+        slug: "medium-004",
+        question: "Tell me about a time when you had to work with a difficult team member.",
+        type: "behavioral",
+        difficulty: "medium",
+        category: "teamwork",
+        variables: [],
+        translations: {
+            es: "Cuéntame alguna ocasión en la que tuviste que trabajar con un compañero de equipo difícil.",
+            fr: "Parlez-moi d'une fois où vous avez dû travailler avec un collègue difficile.",
+            de: "Erzählen Sie von einer Situation, in der Sie mit einem schwierigen Teammitglied zusammenarbeiten mussten.",
+        },
+    },
+    {
+        slug: "medium-005",
+        question:
+            "Where do you see yourself in 5 years and how does this role fit into your career goals?",
+        type: "behavioral",
+        difficulty: "medium",
+        category: "career-planning",
+        variables: [],
+        translations: {
+            es: "¿Dónde te ves dentro de 5 años y cómo encaja este puesto en tus objetivos profesionales?",
+            fr: "Où vous voyez-vous dans 5 ans et comment ce poste s'inscrit-il dans vos objectifs de carrière ?",
+            de: "Wo sehen Sie sich in 5 Jahren und wie passt diese Position zu Ihren beruflichen Zielen?",
+        },
+    },
+    {
+        slug: "medium-006",
+        question: "Explain the architecture of a system you've built for {{jobRole}}.",
+        type: "technical",
+        difficulty: "medium",
+        category: "architecture",
+        variables: ["jobRole"],
+        translations: {
+            es: "Explica la arquitectura de un sistema que hayas construido para {{jobRole}}.",
+            fr: "Expliquez l'architecture d'un système que vous avez construit pour {{jobRole}}.",
+            de: "Erklären Sie die Architektur eines Systems, das Sie für {{jobRole}} gebaut haben.",
+        },
+    },
+    {
+        slug: "medium-007",
+        question: "How would you handle a conflict between two team members?",
+        type: "situational",
+        difficulty: "medium",
+        category: "conflict-resolution",
+        variables: [],
+        translations: {
+            es: "¿Cómo gestionarías un conflicto entre dos miembros del equipo?",
+            fr: "Comment géreriez-vous un conflit entre deux membres de l'équipe ?",
+            de: "Wie würden Sie mit einem Konflikt zwischen zwei Teammitgliedern umgehen?",
+        },
+    },
+    {
+        slug: "medium-008",
+        question: "Describe a time when you had to persuade stakeholders to adopt your solution.",
+        type: "behavioral",
+        difficulty: "medium",
+        category: "influence",
+        variables: [],
+        translations: {
+            es: "Describe una ocasión en la que tuviste que convencer a las partes interesadas de adoptar tu solución.",
+            fr: "Décrivez une situation où vous avez dû convaincre les parties prenantes d'adopter votre solution.",
+            de: "Beschreiben Sie eine Situation, in der Sie Stakeholder von Ihrer Lösung überzeugen mussten.",
+        },
+    },
+    {
+        slug: "medium-009",
+        question: "What are the trade-offs between different approaches in {{jobRole}}?",
+        type: "technical",
+        difficulty: "medium",
+        category: "decision-making",
+        variables: ["jobRole"],
+        translations: {
+            es: "¿Qué compromisos existen entre los distintos enfoques en {{jobRole}}?",
+            fr: "Quels sont les compromis entre les différentes approches en {{jobRole}} ?",
+            de: "Welche Zielkonflikte gibt es zwischen den verschiedenen Ansätzen in {{jobRole}}?",
+        },
+    },
+    {
+        slug: "medium-010",
+        question: "Tell me about a time when you missed a deadline. What happened?",
+        type: "behavioral",
+        difficulty: "medium",
+        category: "failure",
+        variables: [],
+        translations: {
+            es: "Cuéntame alguna ocasión en la que no cumpliste un plazo. ¿Qué pasó?",
+            fr: "Parlez-moi d'une fois où vous n'avez pas tenu un délai. Que s'est-il passé ?",
+            de: "Erzählen Sie von einer Situation, in der Sie eine Frist verpasst haben. Was ist passiert?",
+        },
+    },
+    {
+        slug: "medium-011",
+        question: "How do you ensure code quality in your projects?",
+        type: "technical",
+        difficulty: "medium",
+        category: "quality",
+        variables: [],
+        translations: {
+            es: "¿Cómo garantizas la calidad del código en tus proyectos?",
+            fr: "Comment garantissez-vous la qualité du code dans vos projets ?",
+            de: "Wie stellen Sie die Codequalität in Ihren Projekten sicher?",
+        },
+    },
+    {
+        slug: "medium-012",
+        question: "How would you onboard a new team member?",
+        type: "situational",
+        difficulty: "medium",
+        category: "mentorship",
+        variables: [],
+        translations: {
+            es: "¿Cómo incorporarías a un nuevo miembro del equipo?",
+            fr: "Comment intégreriez-vous un nouveau membre dans l'équipe ?",
+            de: "Wie würden Sie ein neues Teammitglied einarbeiten?",
+        },
+    },
+    {
+        slug: "medium-013",
+        question: "Describe your approach to debugging complex issues.",
+        type: "technical",
+        difficulty: "medium",
+        category: "debugging",
+        variables: [],
+        translations: {
+            es: "Describe tu enfoque para depurar problemas complejos.",
+            fr: "Décrivez votre approche pour déboguer des problèmes complexes.",
+            de: "Beschreiben Sie Ihre Vorgehensweise beim Debuggen komplexer Probleme.",
+        },
+    },
+    {
+        slug: "medium-014",
+        question: "Tell me about a time you had to adapt to significant changes at work.",
+        type: "behavioral",
+        difficulty: "medium",
+        category: "change-management",
+        variables: [],
+        translations: {
+            es: "Cuéntame alguna ocasión en la que tuviste que adaptarte a cambios importantes en el trabajo.",
+            fr: "Parlez-moi d'une fois où vous avez dû vous adapter à des changements importants au travail.",
+            de: "Erzählen Sie von einer Situation, in der Sie sich an große Veränderungen bei der Arbeit anpassen mussten.",
+        },
+    },
+    {
+        slug: "medium-015",
+        question: "How do you balance technical debt with feature development?",
+        type: "situational",
+        difficulty: "medium",
+        category: "prioritization",
+        variables: [],
+        translations: {
+            es: "¿Cómo equilibras la deuda técnica con el desarrollo de nuevas funcionalidades?",
+            fr: "Comment équilibrez-vous la dette technique et le développement de nouvelles fonctionnalités ?",
+            de: "Wie bringen Sie technische Schulden und die Entwicklung neuer Features in Einklang?",
+        },
+    },
+    {
+        slug: "medium-016",
+        question: "What testing strategies do you use for {{jobRole}} projects?",
+        type: "technical",
+        difficulty: "medium",
+        category: "testing",
+        variables: ["jobRole"],
+        translations: {
+            es: "¿Qué estrategias de pruebas utilizas en proyectos de {{jobRole}}?",
+            fr: "Quelles stratégies de test utilisez-vous pour les projets {{jobRole}} ?",
+            de: "Welche Teststrategien verwenden Sie in {{jobRole}}-Projekten?",
+        },
+    },
+    {
+        slug: "medium-017",
+        question: "Describe a time when you improved a process or system.",
+        type: "behavioral",
+        difficulty: "medium",
+        category: "improvement",
+        variables: [],
+        translations: {
+            es: "Describe una ocasión en la que mejoraste un proceso o sistema.",
+            fr: "Décrivez une situation où vous avez amélioré un processus ou un système.",
+            de: "Beschreiben Sie eine Situation, in der Sie einen Prozess oder ein System verbessert haben.",
+        },
+    },
+    {
+        slug: "medium-018",
+        question: "How would you handle a situation where you disagree with your manager?",
+        type: "situational",
+        difficulty: "medium",
+        category: "disagreement",
+        variables: [],
+        translations: {
+            es: "¿Cómo actuarías si no estuvieras de acuerdo con tu responsable?",
+            fr: "Comment réagiriez-vous si vous n'étiez pas d'accord avec votre responsable ?",
+            de: "Wie würden Sie vorgehen, wenn Sie mit Ihrer Führungskraft nicht einer Meinung sind?",
+        },
+    },
+    {
+        slug: "medium-019",
+        question: "Explain performance optimization techniques for {{jobRole}}.",
+        type: "technical",
+        difficulty: "medium",
+        category: "optimization",
+        variables: ["jobRole"],
+        translations: {
+            es: "Explica técnicas de optimización del rendimiento para {{jobRole}}.",
+            fr: "Expliquez des techniques d'optimisation des performances pour {{jobRole}}.",
+            de: "Erklären Sie Techniken zur Performance-Optimierung für {{jobRole}}.",
+        },
+    },
+    {
+        slug: "medium-020",
+        question: "Tell me about a time you took initiative on a project.",
+        type: "behavioral",
+        difficulty: "medium",
+        category: "initiative",
+        variables: [],
+        translations: {
+            es: "Cuéntame alguna ocasión en la que tomaste la iniciativa en un proyecto.",
+            fr: "Parlez-moi d'une fois où vous avez pris l'initiative sur un projet.",
+            de: "Erzählen Sie von einer Situation, in der Sie bei einem Projekt die Initiative ergriffen haben.",
+        },
+    },
+    {
+        slug: "hard-001",
+        question:
+            "Describe the most complex technical problem you've solved in {{jobRole}} and walk me through your approach.",
+        type: "technical",
+        difficulty: "hard",
+        category: "problem-solving",
+        variables: ["jobRole"],
+        translations: {
+            es: "Describe el problema técnico más complejo que hayas resuelto en {{jobRole}} y explícame tu enfoque paso a paso.",
+            fr: "Décrivez le problème technique le plus complexe que vous ayez résolu en {{jobRole}} et expliquez-moi votre démarche étape par étape.",
+            de: "Beschreiben Sie das komplexeste technische Problem, das Sie in {{jobRole}} gelöst haben, und führen Sie mich Schritt für Schritt durch Ihren Ansatz.",
+        },
+    },
+    {
+        slug: "hard-002",
+        question:
+            "Tell me about a time when you had to make a critical decision with incomplete information. What was your thought process?",
+        type: "situational",
+        difficulty: "hard",
+        category: "decision-making",
+        variables: [],
+        translations: {
+            es: "Cuéntame alguna ocasión en la que tuviste que tomar una decisión crítica con información incompleta. ¿Cuál fue tu razonamiento?",
+            fr: "Parlez-moi d'une fois où vous avez dû prendre une décision critique avec des informations incomplètes. Quel a été votre raisonnement ?",
+            de: "Erzählen Sie von einer Situation, in der Sie mit unvollständigen Informationen eine kritische Entscheidung treffen mussten. Wie sind Sie vorgegangen?",
+        },
+    },
+    {
+        slug: "hard-003",
+        question:
+            "How would you design and implement a system for [complex scenario]? Consider scalability, reliability, and cost.",
+        type: "technical",
+        difficulty: "hard",
+        category: "system-design",
+        variables: [],
+        translations: {
+            es: "¿Cómo diseñarías e implementarías un sistema para [escenario complejo]? Ten en cuenta la escalabilidad, la fiabilidad y el coste.",
+            fr: "Comment concevriez-vous et mettriez-vous en œuvre un système pour [scénario complexe] ? Tenez compte de la scalabilité, de la fiabilité et du coût.",
+            de: "Wie würden Sie ein System für [komplexes Szenario] entwerfen und umsetzen? Berücksichtigen Sie Skalierbarkeit, Zuverlässigkeit und Kosten.",
+        },
+    },
+    {
+        slug: "hard-004",
+        question:
+            "Describe a situation where your initial approach failed. How did you identify the issue and what did you do differently?",
+        type: "behavioral",
+        difficulty: "hard",
+        category: "adaptability",
+        variables: [],
+        translations: {
+            es: "Describe una situación en la que tu enfoque inicial fracasó. ¿Cómo identificaste el problema y qué hiciste de forma diferente?",
+            fr: "Décrivez une situation où votre approche initiale a échoué. Comment avez-vous identifié le problème et qu'avez-vous fait différemment ?",
+            de: "Beschreiben Sie eine Situation, in der Ihr ursprünglicher Ansatz gescheitert ist. Wie haben Sie das Problem erkannt und was haben Sie anders gemacht?",
+        },
+    },
+    {
+        slug: "hard-005",
+        question:
+            "You're leading a project that's behind schedule and over budget. Walk me through your strategy to recover.",
+        type: "situational",
+        difficulty: "hard",
+        category: "leadership",
+        variables: [],
+        translations: {
+            es: "Diriges un proyecto que va con retraso y por encima del presupuesto. Explícame tu estrategia para reconducirlo.",
+            fr: "Vous dirigez un projet en retard et hors budget. Expliquez-moi votre stratégie pour le redresser.",
+            de: "Sie leiten ein Projekt, das hinter dem Zeitplan liegt und das Budget überschreitet. Erläutern Sie Ihre Strategie, um es wieder auf Kurs zu bringen.",
+        },
+    },
+    {
+        slug: "hard-006",
+        question: "Design a scalable architecture for a high-traffic {{jobRole}} application.",
+        type: "technical",
+        difficulty: "hard",
+        category: "scalability",
+        variables: ["jobRole"],
+        translations: {
+            es: "Diseña una arquitectura escalable para una aplicación de {{jobRole}} con mucho tráfico.",
+            fr: "Concevez une architecture scalable pour une application {{jobRole}} à fort trafic.",
+            de: "Entwerfen Sie eine skalierbare Architektur für eine {{jobRole}}-Anwendung mit hohem Datenverkehr.",
+        },
+    },
+    {
+        slug: "hard-007",
+        question:
+            "Describe a time when you had to make a decision that was unpopular but necessary.",
+        type: "behavioral",
+        difficulty: "hard",
+        category: "tough-decisions",
+        variables: [],
+        translations: {
+            es: "Describe una ocasión en la que tuviste que tomar una decisión impopular pero necesaria.",
+            fr: "Décrivez une situation où vous avez dû prendre une décision impopulaire mais nécessaire.",
+            de: "Beschreiben Sie eine Situation, in der Sie eine unpopuläre, aber notwendige Entscheidung treffen mussten.",
+        },
+    },
+    {
+        slug: "hard-008",
+        question: "How would you architect a system to handle millions of concurrent users?",
+        type: "technical",
+        difficulty: "hard",
+        category: "system-design",
+        variables: [],
+        translations: {
+            es: "¿Cómo diseñarías la arquitectura de un sistema capaz de soportar millones de usuarios simultáneos?",
+            fr: "Comment concevriez-vous l'architecture d'un système capable de gérer des millions d'utilisateurs simultanés ?",
+            de: "Wie würden Sie ein System entwerfen, das Millionen gleichzeitiger Nutzer bewältigt?",
+        },
+    },
+    {
+        slug: "hard-009",
+        question: "Tell me about a time you had to deliver bad news to stakeholders.",
+        type: "situational",
+        difficulty: "hard",
+        category: "communication",
+        variables: [],
+        translations: {
+            es: "Cuéntame alguna ocasión en la que tuviste que dar malas noticias a las partes interesadas.",
+            fr: "Parlez-moi d'une fois où vous avez dû annoncer une mauvaise nouvelle aux parties prenantes.",
+            de: "Erzählen Sie von einer Situation, in der Sie Stakeholdern schlechte Nachrichten überbringen mussten.",
+        },
+    },
+    {
+        slug: "hard-010",
+        question:
+            "Describe the most significant technical architecture decision you've made and its impact.",
+        type: "technical",
+        difficulty: "hard",
+        category: "architecture",
+        variables: [],
+        translations: {
+            es: "Describe la decisión de arquitectura técnica más importante que hayas tomado y su impacto.",
+            fr: "Décrivez la décision d'architecture technique la plus importante que vous ayez prise et son impact.",
+            de: "Beschreiben Sie die wichtigste technische Architekturentscheidung, die Sie getroffen haben, und ihre Auswirkungen.",
+        },
+    },
+    {
+        slug: "hard-011",
+        question: "How would you handle a critical production outage affecting thousands of users?",
+        type: "situational",
+        difficulty: "hard",
+        category: "crisis-management",
+        variables: [],
+        translations: {
+            es: "¿Cómo gestionarías una caída crítica en producción que afecta a miles de usuarios?",
+            fr: "Comment géreriez-vous une panne critique en production qui touche des milliers d'utilisateurs ?",
+            de: "Wie würden Sie mit einem kritischen Produktionsausfall umgehen, der Tausende von Nutzern betrifft?",
+        },
+    },
+    {
+        slug: "hard-012",
+        question:
+            "Explain how you would mentor a struggling team member while meeting project deadlines.",
+        type: "behavioral",
+        difficulty: "hard",
+        category: "mentorship",
+        variables: [],
+        translations: {
+            es: "Explica cómo guiarías a un miembro del equipo con dificultades sin dejar de cumplir los plazos del proyecto.",
+            fr: "Expliquez comment vous accompagneriez un membre de l'équipe en difficulté tout en respectant les délais du projet.",
+            de: "Erklären Sie, wie Sie ein Teammitglied mit Schwierigkeiten fördern würden und dabei die Projektfristen einhalten.",
+        },
+    },
+    {
+        slug: "hard-013",
+        question:
+            "What are the most critical security considerations for {{jobRole}} and how do you address them?",
+        type: "technical",
+        difficulty: "hard",
+        category: "security",
+        variables: ["jobRole"],
+        translations: {
+            es: "¿Cuáles son las consideraciones de seguridad más críticas en {{jobRole}} y cómo las abordas?",
+            fr: "Quels sont les enjeux de sécurité les plus critiques en {{jobRole}} et comment les traitez-vous ?",
+            de: "Was sind die wichtigsten Sicherheitsaspekte in {{jobRole}} und wie gehen Sie sie an?",
+        },
+    },
+    {
+        slug: "hard-014",
+        question:
+            "Describe a situation where you had to completely pivot your technical approach mid-project.",
+        type: "behavioral",
+        difficulty: "hard",
+        category: "adaptability",
+        variables: [],
+        translations: {
+            es: "Describe una situación en la que tuviste que cambiar por completo tu enfoque técnico a mitad de proyecto.",
+            fr: "Décrivez une situation où vous avez dû changer complètement d'approche technique en cours de projet.",
+            de: "Beschreiben Sie eine Situation, in der Sie Ihren technischen Ansatz mitten im Projekt komplett ändern mussten.",
+        },
+    },
+    {
+        slug: "hard-015",
+        question: "How would you lead a technical transformation initiative across multiple teams?",
+        type: "situational",
+        difficulty: "hard",
+        category: "transformation",
+        variables: [],
+        translations: {
+            es: "¿Cómo liderarías una iniciativa de transformación técnica que abarque varios equipos?",
+            fr: "Comment mèneriez-vous une initiative de transformation technique impliquant plusieurs équipes ?",
+            de: "Wie würden Sie eine technische Transformationsinitiative über mehrere Teams hinweg leiten?",
+        },
+    },
+    {
+        slug: "hard-016",
+        question:
+            "Design a distributed system with high availability requirements for {{jobRole}}.",
+        type: "technical",
+        difficulty: "hard",
+        category: "distributed-systems",
+        variables: ["jobRole"],
+        translations: {
+            es: "Diseña un sistema distribuido con requisitos de alta disponibilidad para {{jobRole}}.",
+            fr: "Concevez un système distribué avec des exigences de haute disponibilité pour {{jobRole}}.",
+            de: "Entwerfen Sie ein verteiltes System mit Hochverfügbarkeitsanforderungen für {{jobRole}}.",
+        },
+    },
+    {
+        slug: "hard-017",
+        question:
+            "Tell me about a time when you had to navigate significant organizational politics.",
+        type: "behavioral",
+        difficulty: "hard",
+        category: "politics",
+        variables: [],
+        translations: {
+            es: "Cuéntame alguna ocasión en la que tuviste que lidiar con una política organizativa complicada.",
+            fr: "Parlez-moi d'une fois où vous avez dû composer avec des jeux de pouvoir importants dans l'organisation.",
+            de: "Erzählen Sie von einer Situation, in der Sie mit schwieriger Unternehmenspolitik umgehen mussten.",
+        },
+    },
+    {
+        slug: "hard-018",
+        question:
+            "How would you migrate a legacy system to a modern architecture with zero downtime?",
+        type: "technical",
+        difficulty: "hard",
+        category: "migration",
+        variables: [],
+        translations: {
+            es: "¿Cómo migrarías un sistema heredado a una arquitectura moderna sin tiempo de inactividad?",
+            fr: "Comment migreriez-vous un système existant vers une architecture moderne sans aucune interruption de service ?",
+            de: "Wie würden Sie ein Altsystem ohne Ausfallzeit auf eine moderne Architektur migrieren?",
+        },
+    },
+    {
+        slug: "hard-019",
+        question: "Describe how you've built and maintained a high-performing engineering culture.",
+        type: "behavioral",
+        difficulty: "hard",
+        category: "culture",
+        variables: [],
+        translations: {
+            es: "Describe cómo has construido y mantenido una cultura de ingeniería de alto rendimiento.",
+            fr: "Décrivez comment vous avez bâti et entretenu une culture d'ingénierie performante.",
+            de: "Beschreiben Sie, wie Sie eine leistungsstarke Engineering-Kultur aufgebaut und erhalten haben.",
+        },
+    },
+    {
+        slug: "hard-020",
+        question: "How do you make technology decisions when there are multiple valid approaches?",
+        type: "situational",
+        difficulty: "hard",
+        category: "decision-framework",
+        variables: [],
+        translations: {
+            es: "¿Cómo tomas decisiones tecnológicas cuando hay varios enfoques válidos?",
+            fr: "Comment prenez-vous des décisions technologiques lorsque plusieurs approches sont valables ?",
+            de: "Wie treffen Sie Technologieentscheidungen, wenn es mehrere gültige Ansätze gibt?",
+        },
+    },
+];
@@ -0,0 +1,44 @@
+import type { Difficulty } from "../schemas/ai.schema";
+
+/**
+ * Problems for system-design interviews. Candidates can also bring their own prompt.
+ */
+export interface SystemDesignProblem {
+    slug: string;
+    title: string;
+    prompt: string;
+    difficulty: Difficulty;
+}
+
+export const SYSTEM_DESIGN_PROBLEMS: SystemDesignProblem[] = [
+    {
+        slug: "url-shortener",
+        title: "URL shortener",
+        prompt: "Design a URL shortening service like bit.ly that creates short links and redirects visitors, for 100 million new links a month.",
+        difficulty: "medium",
+    },
+    {
+        slug: "rate-limiter",
+        title: "Distributed rate limiter",
+        prompt: "Design a rate limiter that a public API's gateway fleet uses to cap each client's requests per minute, consistently across all gateway instances.",
+        difficulty: "medium",
+    },
+    {
+        slug: "notification-service",
+        title: "Notification service",
+        prompt: "Design a service that sends email, SMS and push notifications for other teams' products, with per-user preferences and retries.",
+        difficulty: "medium",
+    },
+    {
+        slug: "chat",
+        title: "Chat application",
+        prompt: "Design a chat application with one-to-one and group conversations, online presence and message history, for 50 million daily active users.",
+        difficulty: "hard",
+    },
+    {
+        slug: "news-feed",
+        title: "News feed",
+        prompt: "Design the home news feed of a social network where users follow each other, including accounts with millions of followers.",
+        difficulty: "hard",
+    },
+];
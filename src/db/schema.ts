@@ -7,6 +7,8 @@ import {
     jsonb,
     boolean,
     real,
+    index,
+    type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 
 export const users = pgTable("users", {
@@ -15,6 +17,9 @@ export const users = pgTable("users", {
     name: text("name"),
     image: text("image"),
     googleId: text("google_id").unique(),
+    gradingSamples: integer("grading_samples").default(1), // Ensemble size for answer grading; 1 = single grading
+    tier: text("tier").default("free"), // Usage tier for LLM quotas: free, pro
+    locale: text("locale").default("en"), // Language for questions and feedback: en, es, fr, de
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -28,7 +33,16 @@ export const interviews = pgTable("interviews", {
     company: text("company").notNull(),
     experience: text("experience").notNull(),
     difficulty: text("difficulty").default("medium"), // easy, medium, hard
+    mode: text("mode").default("standard"), // standard, adaptive, coding, system-design, panel
+    locale: text("locale").default("en"), // Language the interview is held in
+    persona: jsonb("persona"), // Interviewer persona the interview is held with, as it was when it started; null = neutral
     questions: jsonb("questions").notNull(),
+    adaptiveSettings: jsonb("adaptive_settings"), // Adaptive mode: { maxQuestions, questionType }
+    adaptationTrace: jsonb("adaptation_trace").default([]), // Adaptive mode: one decision per question asked
+    promptId: text("prompt_id"), // Prompt template that generated the questions
+    promptVersion: text("prompt_version"),
+    targetJobId: integer("target_job_id").references(() => targetJobs.id), // set for JD-driven interviews
+    resumeId: integer("resume_id").references(() => resumes.id, { onDelete: "set null" }), // set for resume-personalized interviews
     feedback: jsonb("feedback"),
     status: text("status").default("in_progress"), // in_progress, completed, abandoned
     duration: integer("duration"), // in seconds
@@ -36,6 +50,57 @@ export const interviews = pgTable("interviews", {
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Structured requirements extracted from a pasted job description
+export const targetJobs = pgTable("target_jobs", {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+        .references(() => users.id)
+        .notNull(),
+    title: text("title").notNull(),
+    company: text("company"),
+    seniority: text("seniority"), // entry-level, mid-level, senior, lead
+    senioritySignals: jsonb("seniority_signals").default([]), // Phrases that implied the seniority
+    skills: jsonb("skills").notNull(), // Array of { id, text }
+    responsibilities: jsonb("responsibilities").notNull(), // Array of { id, text }
+    rawText: text("raw_text").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Uploaded resume and the profile parsed from it (one per user)
+export const resumes = pgTable("resumes", {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+        .references(() => users.id)
+        .notNull()
+        .unique(),
+    fileName: text("file_name"),
+    format: text("format").notNull(), // text, markdown, pdf
+    rawText: text("raw_text").notNull(),
+    profile: jsonb("profile").notNull(), // Parsed roles, projects, skills and dates
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Interviewer personas users define on top of the built-in ones
+export const customPersonas = pgTable(
+    "custom_personas",
+    {
+        id: serial("id").primaryKey(),
+        userId: integer("user_id")
+            .references(() => users.id, { onDelete: "cascade" })
+            .notNull(),
+        name: text("name").notNull(),
+        description: text("description"),
+        questionStyle: text("question_style").notNull(), // How questions are phrased
+        followUpStyle: text("follow_up_style").notNull(), // What follow-ups go after
+        followUpIntensity: text("follow_up_intensity").notNull().default("probing"), // gentle, probing, relentless
+        feedbackTone: text("feedback_tone").notNull(), // Voice of written feedback; never affects scores
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [index("custom_personas_user_idx").on(table.userId)]
+);
+
 // New table for detailed answer tracking
 export const answers = pgTable("answers", {
     id: serial("id").primaryKey(),
@@ -48,6 +113,9 @@ export const answers = pgTable("answers", {
     questionId: text("question_id").notNull(),
     question: text("question").notNull(),
     answer: text("answer").notNull(),
+    followUpId: integer("follow_up_id").references((): AnyPgColumn => followUps.id, {
+        onDelete: "cascade",
+    }), // set when this answers a follow-up rather than an interview question
 
     // Detailed Scoring (1-10 scale for each criterion)
     relevanceScore: real("relevance_score"), // How relevant to the question
@@ -59,8 +127,29 @@ export const answers = pgTable("answers", {
     // AI-generated detailed feedback
     strengths: jsonb("strengths"), // Array of strength points
     improvements: jsonb("improvements"), // Array of improvement suggestions
-    starMethodScore: jsonb("star_method_score"), // Situation, Task, Action, Result scoring
+    starMethodScore: jsonb("star_method_score"), // Behavioral only: Situation, Task, Action, Result scores with evidence
+    rubric: text("rubric"), // Question type whose rubric graded the answer: behavioral, technical, situational, coding, system-design
+    rubricScores: jsonb("rubric_scores"), // Rubric criteria: { [criterion]: { score, evidence } }
+    gradingSamples: integer("grading_samples").default(1), // How many gradings were combined
+    confidence: real("confidence"), // Ensemble agreement, 0-1; null for single gradings
+    scoreSpread: jsonb("score_spread"), // Ensemble max-min per score
+    lowConfidence: boolean("low_confidence").default(false),
+    suspectedInjection: boolean("suspected_injection").default(false), // Answer looked like instructions to the grader; scores capped
     exampleAnswer: text("example_answer"), // AI-generated better answer example
+    gradingStatus: text("grading_status").default("graded"), // graded, pending_regrade (AI unavailable; scores are estimates or null until regraded)
+    scoredBy: text("scored_by").default("ai"), // ai, heuristic (rule-based estimate while the AI was unavailable); null when unscored
+    promptId: text("prompt_id"), // Prompt template that graded the answer
+    promptVersion: text("prompt_version"),
+    userRating: integer("user_rating"), // User's 1-5 rating of the feedback
+    codeLanguage: text("code_language"), // Coding questions: javascript, typescript
+    testResults: jsonb("test_results"), // Coding questions: sandbox run { status, passed, total, tests }
+    section: text("section"), // System-design answers: requirements, api, data-model, high-level-design, scaling, tradeoffs
+    locale: text("locale").default("en"), // Language the feedback was written in
+    audioRef: text("audio_ref"), // Spoken answers: stored recording, "<userId>/<uuid>.<ext>" under AUDIO_STORAGE_DIR
+    transcript: text("transcript"), // Spoken answers: transcript as recognized, before any edits
+    wordTimings: jsonb("word_timings"), // Spoken answers: [{ word, start, end }] in seconds
+    audioDuration: real("audio_duration"), // Spoken answers: recording length in seconds
+    delivery: jsonb("delivery"), // Filler, hedging, pace, sentence and structure analysis; null for code answers
 
     // Metadata
     timeSpent: integer("time_spent"), // seconds spent on this question
@@ -68,6 +157,67 @@ export const answers = pgTable("answers", {
     createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Interviewers on a panel interview, one row per seat
+export const panelists = pgTable(
+    "panelists",
+    {
+        id: serial("id").primaryKey(),
+        interviewId: integer("interview_id")
+            .references(() => interviews.id, { onDelete: "cascade" })
+            .notNull(),
+        seat: integer("seat").notNull(), // 0-based turn order
+        focus: text("focus").notNull(), // hiring-manager, technical, culture
+        persona: jsonb("persona").notNull(), // Persona the panelist interviews as, as it was when the panel started
+        questionIds: jsonb("question_ids").notNull().default([]), // Interview questions this panelist asks
+        vote: text("vote"), // Set by the debrief: strong_hire, hire, no_hire, strong_no_hire
+        voteReasons: jsonb("vote_reasons"), // Set by the debrief: reasons behind the vote
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [index("panelists_interview_idx").on(table.interviewId)]
+);
+
+// Each panelist's independent grading of a panel answer. The answer row itself holds the
+// grading of the panelist who asked the question.
+export const panelScores = pgTable(
+    "panel_scores",
+    {
+        id: serial("id").primaryKey(),
+        answerId: integer("answer_id")
+            .references(() => answers.id, { onDelete: "cascade" })
+            .notNull(),
+        panelistId: integer("panelist_id")
+            .references(() => panelists.id, { onDelete: "cascade" })
+            .notNull(),
+        relevanceScore: real("relevance_score"),
+        clarityScore: real("clarity_score"),
+        depthScore: real("depth_score"),
+        communicationScore: real("communication_score"),
+        overallScore: real("overall_score"),
+        focusScore: real("focus_score"), // Scores weighted by the panelist's focus
+        strengths: jsonb("strengths"),
+        improvements: jsonb("improvements"),
+        overallFeedback: text("overall_feedback"),
+        scoredBy: text("scored_by"), // ai, heuristic; null when unscored
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [index("panel_scores_answer_idx").on(table.answerId)]
+);
+
+// Follow-up questions asked after an answer; chains form a question -> answer -> follow-up tree
+export const followUps = pgTable("follow_ups", {
+    id: serial("id").primaryKey(),
+    interviewId: integer("interview_id")
+        .references(() => interviews.id)
+        .notNull(),
+    parentAnswerId: integer("parent_answer_id")
+        .references((): AnyPgColumn => answers.id, { onDelete: "cascade" })
+        .notNull(),
+    rootQuestionId: text("root_question_id").notNull(), // Interview question the chain started from
+    depth: integer("depth").notNull(), // 1 for a follow-up to an interview question, 2 for the next level, ...
+    question: text("question").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // New table for user progress and achievements
 export const userProgress = pgTable("user_progress", {
     id: serial("id").primaryKey(),
@@ -100,6 +250,23 @@ export const userProgress = pgTable("user_progress", {
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Curated questions used when AI generation is unavailable
+export const questionBank = pgTable("question_bank", {
+    id: serial("id").primaryKey(),
+    slug: text("slug").notNull().unique(), // Stable external ID, e.g. "medium-007"
+    question: text("question").notNull(), // May contain {{variable}} placeholders
+    type: text("type").notNull(), // behavioral, technical, situational
+    difficulty: text("difficulty").notNull(), // easy, medium, hard
+    category: text("category").notNull(),
+    roles: jsonb("roles").default([]), // Applicable job roles; empty means any role
+    companies: jsonb("companies").default([]), // Applicable companies; empty means any company
+    variables: jsonb("variables").default([]), // Placeholder names used in the question text
+    translations: jsonb("translations").default({}), // { [locale]: question text with the same placeholders }
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // New table for saved question sets (favorites)
 export const savedQuestionSets = pgTable("saved_question_sets", {
     id: serial("id").primaryKey(),
@@ -117,14 +284,78 @@ export const savedQuestionSets = pgTable("saved_question_sets", {
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Answers waiting to be (re)graded because the AI was unavailable when they were submitted
+export const regradeJobs = pgTable(
+    "regrade_jobs",
+    {
+        id: serial("id").primaryKey(),
+        answerId: integer("answer_id")
+            .references(() => answers.id, { onDelete: "cascade" })
+            .notNull()
+            .unique(),
+        userId: integer("user_id")
+            .references(() => users.id)
+            .notNull(),
+        status: text("status").notNull().default("pending"), // pending, running, done, failed
+        attempts: integer("attempts").notNull().default(0),
+        nextRunAt: timestamp("next_run_at").defaultNow().notNull(),
+        lastError: text("last_error"),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [index("regrade_jobs_status_next_run_idx").on(table.status, table.nextRunAt)]
+);
+
+// One LLM call, for per-user cost tracking and quotas
+export const llmUsage = pgTable(
+    "llm_usage",
+    {
+        id: serial("id").primaryKey(),
+        userId: integer("user_id").references(() => users.id), // null for anonymous requests
+        clientIp: text("client_ip"), // anonymous requests only; their quota is per IP address
+        endpoint: text("endpoint").notNull(), // API endpoint that made the call, e.g. "generate-feedback"
+        task: text("task").notNull(), // questions, feedback, followUp, ...
+        provider: text("provider").notNull(),
+        model: text("model").notNull(),
+        inputChars: integer("input_chars").notNull(),
+        outputChars: integer("output_chars").notNull(),
+        latencyMs: integer("latency_ms").notNull(),
+        outcome: text("outcome").notNull(), // success, error
+        error: text("error"),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("llm_usage_user_created_idx").on(table.userId, table.createdAt),
+        index("llm_usage_client_ip_created_idx").on(table.clientIp, table.createdAt),
+    ]
+);
+
 // Types
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type Interview = typeof interviews.$inferSelect;
 export type NewInterview = typeof interviews.$inferInsert;
+export type TargetJob = typeof targetJobs.$inferSelect;
+export type NewTargetJob = typeof targetJobs.$inferInsert;
+export type Resume = typeof resumes.$inferSelect;
+export type NewResume = typeof resumes.$inferInsert;
+export type CustomPersona = typeof customPersonas.$inferSelect;
+export type NewCustomPersona = typeof customPersonas.$inferInsert;
 export type Answer = typeof answers.$inferSelect;
 export type NewAnswer = typeof answers.$inferInsert;
+export type Panelist = typeof panelists.$inferSelect;
+export type NewPanelist = typeof panelists.$inferInsert;
+export type PanelScore = typeof panelScores.$inferSelect;
+export type NewPanelScore = typeof panelScores.$inferInsert;
+export type FollowUp = typeof followUps.$inferSelect;
+export type NewFollowUp = typeof followUps.$inferInsert;
 export type UserProgress = typeof userProgress.$inferSelect;
 export type NewUserProgress = typeof userProgress.$inferInsert;
+export type QuestionBankEntry = typeof questionBank.$inferSelect;
+export type NewQuestionBankEntry = typeof questionBank.$inferInsert;
 export type SavedQuestionSet = typeof savedQuestionSets.$inferSelect;
 export type NewSavedQuestionSet = typeof savedQuestionSets.$inferInsert;
+export type RegradeJob = typeof regradeJobs.$inferSelect;
+export type NewRegradeJob = typeof regradeJobs.$inferInsert;
+export type LLMUsage = typeof llmUsage.$inferSelect;
+export type NewLLMUsage = typeof llmUsage.$inferInsert;
@@ -11,6 +11,14 @@ import apiRoutes from "./routes/api.routes";
 import databaseRoutes from "./routes/database.routes";
 import historyRoutes from "./routes/history.routes";
 import bookmarkRoutes from "./routes/bookmark.routes";
+import resumeRoutes from "./routes/resume.routes";
+import questionBankRoutes from "./routes/questionBank.routes";
+import adaptiveRoutes from "./routes/adaptive.routes";
+import codingRoutes from "./routes/coding.routes";
+import systemDesignRoutes from "./routes/systemDesign.routes";
+import panelRoutes from "./routes/panel.routes";
+import userRoutes from "./routes/user.routes";
+import promptRoutes from "./routes/prompts.routes";
 import { apiLimiter } from "./middleware/rateLimiter";
 import logger, { logStream } from "./utils/logger";
 import { healthCheck, livenessProbe, readinessProbe } from "./middleware/healthCheck";
@@ -22,6 +30,8 @@ import {
 import { apiVersion } from "./middleware/versioning";
 import { GracefulShutdown } from "./utils/gracefulShutdown";
 import { DatabaseService } from "./services/database.service";
+import { getLLMProvider } from "./providers";
+import { RegradeService } from "./services/regrade.service";
 
 const app = express();
 const PORT = parseInt(process.env.PORT || "5000", 10);
@@ -74,6 +84,7 @@ app.use(
             "x-user-email",
             "x-user-name",
             "x-user-image",
+            "x-admin-key",
             "X-Request-ID",
         ],
         exposedHeaders: ["X-Request-ID", "X-API-Version"],
@@ -95,6 +106,13 @@ app.get("/", (req, res) => {
             health: "/api/health",
             generateQuestions: "/api/generate-questions",
             generateFeedback: "/api/generate-feedback",
+            streamQuestions: "/api/generate-questions/stream",
+            streamFeedback: "/api/generate-feedback/stream",
+            audioFeedback: "/api/generate-feedback/audio",
+            adaptiveInterviews: "/api/adaptive-interviews",
+            codingInterviews: "/api/coding-interviews",
+            systemDesignInterviews: "/api/system-design-interviews",
+            panelInterviews: "/api/panel-interviews",
             database: "/api/db/*",
         },
         features: {
@@ -115,6 +133,14 @@ app.use("/api", apiRoutes);
 app.use("/api/db", databaseRoutes);
 app.use("/api/history", historyRoutes);
 app.use("/api/bookmarks", bookmarkRoutes);
+app.use("/api/resume", resumeRoutes);
+app.use("/api/admin/question-bank", questionBankRoutes);
+app.use("/api/adaptive-interviews", adaptiveRoutes);
+app.use("/api/coding-interviews", codingRoutes);
+app.use("/api/system-design-interviews", systemDesignRoutes);
+app.use("/api/panel-interviews", panelRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/admin/prompts", promptRoutes);
 
 // Dashboard routes (public endpoints that don't require auth headers)
 const dbService = new DatabaseService();
@@ -194,15 +220,26 @@ const server = app.listen(PORT, HOST, () => {
     logger.info(`🔒 Security: Helmet + CORS + Rate Limiting`);
     logger.info(`⚡ Performance: Compression + Request Tracking`);
 
-    if (process.env.GEMINI_API_KEY && process.env.GEMINI_API_KEY !== "your_api_key_here") {
-        logger.info(`🤖 AI Integration: ✅ Enabled with Google Gemini`);
-        logger.info(`   🧠 Model: gemini-2.0-flash-exp`);
+    try {
+        const provider = getLLMProvider();
+        if (provider.name === "stub") {
+            logger.warn(`🤖 AI Integration: ⚠️  Using deterministic stub provider`);
+            logger.warn(`   💡 To enable AI: Set GEMINI_API_KEY or HUGGINGFACE_API_KEY in .env file`);
+        } else {
+            logger.info(`🤖 AI Integration: ✅ Enabled with ${provider.name}`);
+            logger.info(`   🧠 Model: ${provider.model}`);
+        }
         logger.info(`   📚 Question Generation: ✅ Active`);
         logger.info(`   💬 Feedback Generation: ✅ Active`);
-    } else {
-        logger.warn(`🤖 AI Integration: ⚠️  Disabled (using fallback questions)`);
-        logger.warn(`   💡 To enable AI: Set GEMINI_API_KEY in .env file`);
-        logger.warn(`   🔗 Get API key: https://makersuite.google.com/app/apikey`);
+    } catch (error) {
+        logger.error(`🤖 AI Integration: ❌ Provider misconfigured`, {
+            message: error instanceof Error ? error.message : error,
+        });
+    }
+
+    // Regrade answers that were saved while AI grading was unavailable
+    if (process.env.REGRADE_WORKER !== "off") {
+        RegradeService.startWorker();
     }
 });
 
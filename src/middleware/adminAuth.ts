@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from "express";
+
+// Require the shared admin key in the `x-admin-key` header. Admin routes are off when ADMIN_API_KEY is unset.
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+    const adminKey = process.env.ADMIN_API_KEY;
+    if (!adminKey) {
+        return res.status(503).json({ error: "Admin API is not configured" });
+    }
+
+    if (req.headers["x-admin-key"] !== adminKey) {
+        return res.status(403).json({ error: "Admin access required" });
+    }
+
+    next();
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import { db } from "../lib/db";
+import { getLLMProvider, type FallbackProvider } from "../providers";
 
 interface HealthMetrics {
     status: "healthy" | "degraded" | "unhealthy";
@@ -69,17 +70,21 @@ function getAIStatus(): {
     status: "enabled" | "disabled";
     provider?: string;
     model?: string;
+    chain?: ReturnType<FallbackProvider["status"]>;
 } {
-    const aiEnabled = !!(
-        process.env.GEMINI_API_KEY && process.env.GEMINI_API_KEY !== "your_api_key_here"
-    );
-
-    if (aiEnabled) {
-        return {
-            status: "enabled",
-            provider: "Google Gemini",
-            model: "gemini-2.0-flash-exp",
-        };
+    try {
+        const provider = getLLMProvider();
+        if (provider.name !== "stub") {
+            return {
+                status: "enabled",
+                provider: provider.name,
+                model: provider.model,
+                // Circuit state per provider in the fallback chain
+                chain: provider.status(),
+            };
+        }
+    } catch {
+        // Misconfigured provider counts as disabled
     }
 
     return {
@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from "express";
+import { UsageService } from "../services/usage.service";
+import { runWithUsage } from "../utils/usageContext";
+import logger from "../utils/logger";
+
+type UserResolver = (req: Request) => Promise<number | null> | number | null;
+
+// Most AI endpoints identify the user by a numeric `userId` in the body or path
+const userFromRequest: UserResolver = (req) => {
+    const userId = Number(req.params.userId ?? req.body?.userId);
+    return Number.isInteger(userId) && userId > 0 ? userId : null;
+};
+
+/**
+ * Meter and limit the LLM calls an endpoint makes. Users over their tier's daily or monthly
+ * quota get a 429 with the time the quota resets; every call the request makes is recorded in
+ * llm_usage under `endpoint`. Requests with no resolved user share the anonymous quota of
+ * their IP address, so leaving out `userId` doesn't lift the limit.
+ */
+export const llmQuota =
+    (endpoint: string, resolveUser: UserResolver = userFromRequest) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+        let userId: number | null = null;
+        const clientIp = req.ip || req.socket.remoteAddress || "unknown";
+        try {
+            userId = await resolveUser(req);
+            const exceeded = userId
+                ? await UsageService.checkQuota(userId)
+                : await UsageService.checkAnonymousQuota(clientIp);
+
+            if (exceeded) {
+                const retryAfter = Math.ceil((exceeded.resetAt.getTime() - Date.now()) / 1000);
+                res.setHeader("Retry-After", String(Math.max(1, retryAfter)));
+                return res.status(429).json({
+                    error: "LLM usage quota exceeded",
+                    code: "QUOTA_EXCEEDED",
+                    message: userId
+                        ? `You have used all ${exceeded.limit} ${exceeded.period} AI requests on the ${exceeded.tier} tier.`
+                        : `You have used all ${exceeded.limit} ${exceeded.period} AI requests available without an account.`,
+                    tier: exceeded.tier,
+                    period: exceeded.period,
+                    used: exceeded.used,
+                    limit: exceeded.limit,
+                    resetAt: exceeded.resetAt.toISOString(),
+                });
+            }
+        } catch (error) {
+            // Quotas can't be checked without the database; let the request through
+            logger.warn("Could not check LLM quota", {
+                endpoint,
+                userId,
+                error: error instanceof Error ? error.message : error,
+            });
+        }
+
+        runWithUsage(
+            {
+                userId,
+                endpoint,
+                record: (call) => {
+                    void UsageService.record({
+                        ...call,
+                        userId,
+                        clientIp: userId ? null : clientIp,
+                        endpoint,
+                    });
+                },
+            },
+            next
+        );
+    };
@@ -1,5 +1,21 @@
 import { body, param, query, validationResult } from "express-validator";
 import { Request, Response, NextFunction } from "express";
+import { SUPPORTED_LOCALES } from "../utils/locale";
+
+// Optional language of the questions or feedback; the user's locale applies when omitted
+export const localeValidator = () =>
+    body("locale")
+        .optional()
+        .isIn(SUPPORTED_LOCALES)
+        .withMessage(`Locale must be one of: ${SUPPORTED_LOCALES.join(", ")}`);
+
+// Optional interviewer persona: a built-in persona's key or "custom-<id>"; neutral when omitted
+export const personaValidator = (field = "persona") =>
+    body(field)
+        .optional()
+        .isString()
+        .matches(/^[a-z0-9-]{1,60}$/)
+        .withMessage("Persona must be a persona key, e.g. bar-raiser or custom-12");
 
 // Middleware to check validation results
 export const validate = (req: Request, res: Response, next: NextFunction) => {
@@ -55,6 +71,30 @@ export const validateQuestionGeneration = [
         .optional()
         .isIn(["behavioral", "technical", "situational", "all"])
         .withMessage("Invalid question type"),
+    localeValidator(),
+    personaValidator(),
+    validate,
+];
+
+// Job-description question generation validation
+export const validateJobDescriptionQuestions = [
+    body("jobDescription")
+        .trim()
+        .notEmpty()
+        .withMessage("Job description is required")
+        .isLength({ min: 50, max: 20000 })
+        .withMessage("Job description must be between 50 and 20000 characters"),
+    body("userId").notEmpty().withMessage("User ID is required"),
+    body("difficulty")
+        .optional()
+        .isIn(["easy", "medium", "hard"])
+        .withMessage("Difficulty must be easy, medium, or hard"),
+    body("numberOfQuestions")
+        .optional()
+        .isInt({ min: 1, max: 20 })
+        .withMessage("Number of questions must be between 1 and 20"),
+    localeValidator(),
+    personaValidator(),
     validate,
 ];
 
@@ -75,6 +115,57 @@ export const validateFeedbackGeneration = [
     body("userId").optional().trim().escape(),
     body("interviewId").optional().trim().escape(),
     body("questionId").optional().trim().escape(),
+    body("followUpId")
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage("Follow-up ID must be a positive integer"),
+    localeValidator(),
+    validate,
+];
+
+// Spoken answer validation. The answer text comes from transcribing the uploaded recording.
+export const validateAudioFeedback = [
+    body("question")
+        .trim()
+        .notEmpty()
+        .withMessage("Question is required")
+        .isLength({ min: 5, max: 1000 })
+        .withMessage("Question must be between 5 and 1000 characters"),
+    body("userId").isInt({ min: 1 }).withMessage("User ID must be a positive integer"),
+    body("interviewId").isInt({ min: 1 }).withMessage("Interview ID must be a positive integer"),
+    body("questionId").optional().trim().escape(),
+    body("followUpId")
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage("Follow-up ID must be a positive integer"),
+    body("timeSpent").optional().isInt({ min: 0 }).withMessage("Time spent must be seconds"),
+    localeValidator(),
+    validate,
+];
+
+// Follow-up generation validation. With parentAnswerId the question and answer come from the
+// saved answer, so only the chain position is required.
+export const validateFollowUpGeneration = [
+    body("originalQuestion")
+        .if(body("parentAnswerId").not().exists())
+        .trim()
+        .notEmpty()
+        .withMessage("Original question is required"),
+    body("answer")
+        .if(body("parentAnswerId").not().exists())
+        .trim()
+        .notEmpty()
+        .withMessage("Answer is required"),
+    body("parentAnswerId")
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage("Parent answer ID must be a positive integer"),
+    body("interviewId")
+        .if(body("parentAnswerId").exists())
+        .isInt({ min: 1 })
+        .withMessage("Interview ID is required when following up a saved answer"),
+    localeValidator(),
+    personaValidator(),
     validate,
 ];
 
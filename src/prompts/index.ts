@@ -0,0 +1,102 @@
+import { createHash } from "crypto";
+import { questionsV1, jobQuestionsV1 } from "./questions.prompt";
+import { feedbackV1, feedbackV2 } from "./feedback.prompt";
+import { designFollowUpV1, followUpV1 } from "./followUp.prompt";
+import type {
+    PromptExperiment,
+    PromptId,
+    PromptRef,
+    PromptTemplate,
+    PromptVariables,
+} from "./prompt.types";
+
+export type {
+    PromptExperiment,
+    PromptId,
+    PromptRef,
+    PromptTemplate,
+    PromptVariables,
+} from "./prompt.types";
+
+// Every registered version of every prompt
+const TEMPLATES: { [Id in PromptId]: PromptTemplate<Id>[] } = {
+    questions: [questionsV1],
+    "job-questions": [jobQuestionsV1],
+    feedback: [feedbackV1, feedbackV2],
+    "follow-up": [followUpV1],
+    "design-follow-up": [designFollowUpV1],
+};
+
+// Version served to users outside any experiment
+export const DEFAULT_PROMPT_VERSIONS: Record<PromptId, string> = {
+    questions: "v1",
+    "job-questions": "v1",
+    feedback: "v1",
+    "follow-up": "v1",
+    "design-follow-up": "v1",
+};
+
+// Active A/B experiments. Each user lands in the same arm every time.
+export const PROMPT_EXPERIMENTS: Partial<Record<PromptId, PromptExperiment>> = {
+    feedback: {
+        name: "feedback-evidence-first",
+        enabled: process.env.PROMPT_EXPERIMENTS !== "off",
+        arms: [
+            { version: "v1", weight: 90 },
+            { version: "v2", weight: 10 },
+        ],
+    },
+};
+
+export function listPrompts(): PromptRef[] {
+    return (Object.keys(TEMPLATES) as PromptId[]).flatMap((id) =>
+        TEMPLATES[id].map((template) => ({ id, version: template.version }))
+    );
+}
+
+export function getPrompt<Id extends PromptId>(id: Id, version: string): PromptTemplate<Id> {
+    const template = (TEMPLATES[id] as PromptTemplate<Id>[]).find((t) => t.version === version);
+    if (!template) {
+        throw new Error(`Unknown prompt ${id}@${version}`);
+    }
+    return template;
+}
+
+/**
+ * Experiment arm for a user: a stable hash of the experiment name and user ID picks a bucket,
+ * and buckets map to arms by weight
+ */
+export function assignArm(experiment: PromptExperiment, userId: number): string {
+    const total = experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+    const hash = createHash("sha256").update(`${experiment.name}:${userId}`).digest();
+    let bucket = hash.readUInt32BE(0) % total;
+
+    for (const arm of experiment.arms) {
+        if (bucket < arm.weight) return arm.version;
+        bucket -= arm.weight;
+    }
+    return experiment.arms[experiment.arms.length - 1].version;
+}
+
+/**
+ * Template a user should get for a prompt: their experiment arm when an experiment is running,
+ * otherwise the default version. Anonymous requests always get the default.
+ */
+export function resolvePrompt<Id extends PromptId>(id: Id, userId?: number): PromptTemplate<Id> {
+    const experiment = PROMPT_EXPERIMENTS[id];
+    const version =
+        experiment?.enabled && userId ? assignArm(experiment, userId) : DEFAULT_PROMPT_VERSIONS[id];
+    return getPrompt(id, version);
+}
+
+/**
+ * Render a prompt for a user and report which version was used
+ */
+export function renderPrompt<Id extends PromptId>(
+    id: Id,
+    vars: PromptVariables[Id],
+    userId?: number
+): { prompt: string; ref: PromptRef } {
+    const template = resolvePrompt(id, userId);
+    return { prompt: template.render(vars), ref: { id, version: template.version } };
+}
@@ -0,0 +1,25 @@
+import { DEFAULT_LOCALE, LOCALE_NAMES, type Locale } from "../utils/locale";
+
+/**
+ * Instruction to write candidate-facing text in the locale's language. Empty for English, so
+ * English prompts render exactly as before.
+ */
+export const languageInstruction = (locale: Locale = DEFAULT_LOCALE): string =>
+    locale === DEFAULT_LOCALE
+        ? ""
+        : `Write every question in ${LOCALE_NAMES[locale]}. Keep JSON keys and the values of 'type' and 'difficulty' in English.`;
+
+/**
+ * Grading instruction for a non-English answer. Scores use the same rubric and anchors as
+ * English answers so they stay comparable; only the coaching text is translated.
+ */
+export const feedbackLanguageInstruction = (locale: Locale = DEFAULT_LOCALE): string =>
+    locale === DEFAULT_LOCALE
+        ? ""
+        : `The interview is in ${LOCALE_NAMES[locale]}. Grade it with exactly the same rubric, anchors and scale you would use for an English answer: the language itself is not graded, and an answer must not score higher or lower for being in ${LOCALE_NAMES[locale]}. Write strengths, improvements, evidence, the example answer, the overall feedback and the suggestion in ${LOCALE_NAMES[locale]}. Keep all JSON keys, including the criteria keys, in English.`;
+
+/**
+ * Sentence appended to a follow-up prompt asking for the question in the locale's language
+ */
+export const followUpLanguageInstruction = (locale: Locale = DEFAULT_LOCALE): string =>
+    locale === DEFAULT_LOCALE ? "" : ` Ask the follow-up question in ${LOCALE_NAMES[locale]}.`;
@@ -0,0 +1,105 @@
+import type { Difficulty, QuestionType } from "../schemas/ai.schema";
+import type { Locale } from "../utils/locale";
+import type { InterviewerPersona } from "../data/personas";
+
+export interface QuestionsPromptVars {
+    jobRole: string;
+    company: string;
+    experience: string;
+    difficulty: Difficulty;
+    numberOfQuestions: number;
+    questionType?: QuestionType | "all";
+    // Formatted resume profile; set for personalized interviews
+    resumeSummary?: string;
+    // Questions the candidate already practiced
+    avoidQuestions?: string[];
+    // Language the questions are written in; English when unset
+    locale?: Locale;
+    // Interviewer whose style the questions are phrased in; neutral when unset
+    persona?: InterviewerPersona | null;
+}
+
+export interface JobQuestionsPromptVars {
+    title: string;
+    company?: string | null;
+    seniority?: string | null;
+    difficulty: Difficulty;
+    numberOfQuestions: number;
+    requirements: { id: string; text: string }[];
+    locale?: Locale;
+    persona?: InterviewerPersona | null;
+}
+
+export interface FeedbackPromptVars {
+    question: string;
+    answer: string;
+    questionType: QuestionType;
+    // Rubric instructions and the criteria keys the JSON must contain
+    rubricDescription: string;
+    criteriaKeys: string[];
+    // Extra grading instruction for one ensemble sample
+    variantInstruction?: string;
+    // Language of the interview; feedback text is written in it, scores are not affected
+    locale?: Locale;
+    // Interviewer whose voice the feedback text is written in; scores are not affected
+    persona?: InterviewerPersona | null;
+}
+
+export interface FollowUpPromptVars {
+    originalQuestion: string;
+    answer: string;
+    // Earlier question/answer turns of the chain, oldest first
+    earlierTurns: { question: string; answer: string }[];
+    resumeSummary?: string;
+    locale?: Locale;
+    persona?: InterviewerPersona | null;
+}
+
+export interface DesignFollowUpPromptVars {
+    problem: string;
+    // Section of the design the follow-up probes, and what that section should cover
+    section: string;
+    sectionGuidance: string;
+    answer: string;
+    // Weak points the grading found in the section, weakest first
+    gaps: string[];
+    locale?: Locale;
+    persona?: InterviewerPersona | null;
+}
+
+// Variables each prompt takes, keyed by prompt ID
+export interface PromptVariables {
+    questions: QuestionsPromptVars;
+    "job-questions": JobQuestionsPromptVars;
+    feedback: FeedbackPromptVars;
+    "follow-up": FollowUpPromptVars;
+    "design-follow-up": DesignFollowUpPromptVars;
+}
+
+export type PromptId = keyof PromptVariables;
+
+export interface PromptTemplate<Id extends PromptId = PromptId> {
+    id: Id;
+    version: string;
+    description: string;
+    render(vars: PromptVariables[Id]): string;
+}
+
+// Which prompt produced a stored row
+export interface PromptRef {
+    id: PromptId;
+    version: string;
+}
+
+export interface ExperimentArm {
+    version: string;
+    // Relative share of users; arms' weights need not sum to 100
+    weight: number;
+}
+
+export interface PromptExperiment {
+    // Part of the assignment hash, so renaming an experiment reshuffles users
+    name: string;
+    enabled: boolean;
+    arms: ExperimentArm[];
+}
@@ -0,0 +1,121 @@
+import type { PromptTemplate } from "./prompt.types";
+import { languageInstruction } from "./language";
+import { personaQuestionInstruction } from "./persona";
+
+const difficultyGuidelines = {
+    easy: "Focus on basic concepts, general questions, and foundational knowledge. Suitable for entry-level or warm-up questions.",
+    medium: "Include moderately challenging questions that require some depth of knowledge and practical experience.",
+    hard: "Generate advanced questions that require deep expertise, complex problem-solving, and senior-level thinking.",
+};
+
+const seniorityContext = {
+    "entry-level": "junior developer or entry-level candidate",
+    junior: "junior developer with 0-2 years of experience",
+    "mid-level": "mid-level professional with 3-5 years of experience",
+    senior: "senior professional with 6+ years of experience",
+    lead: "lead or staff level with 8+ years of experience",
+};
+
+export const questionsV1: PromptTemplate<"questions"> = {
+    id: "questions",
+    version: "v1",
+    description: "Role, company, seniority and difficulty driven question list",
+    render: ({
+        jobRole,
+        company,
+        experience,
+        difficulty,
+        numberOfQuestions,
+        questionType,
+        resumeSummary,
+        avoidQuestions,
+        locale,
+        persona,
+    }) => {
+        const typeFilter =
+            questionType && questionType !== "all"
+                ? `Focus ONLY on ${questionType} questions. All ${numberOfQuestions} questions must be ${questionType} type.`
+                : `Mix different types: behavioral, technical, and situational questions.`;
+
+        const seniorityLevel =
+            seniorityContext[experience as keyof typeof seniorityContext] || experience;
+
+        const resumeContext = resumeSummary
+            ? `
+      Candidate background (from their resume):
+      ${resumeSummary}
+
+      Personalize the interview: at least half of the questions should probe specific roles, projects or achievements from this background by name (e.g. "You led the migration at X; how did you...").
+      `
+            : "";
+
+        const avoidContext = avoidQuestions?.length
+            ? `
+      The candidate has already practiced the questions below. Do NOT repeat or paraphrase any of them:
+      ${avoidQuestions.map((q) => `- ${q}`).join("\n      ")}
+      `
+            : "";
+
+        return `Generate ${numberOfQuestions} ${difficulty} difficulty interview questions for a ${jobRole} position at ${company} for a ${seniorityLevel}.
+      ${resumeContext}${avoidContext}
+      Difficulty Level: ${difficulty.toUpperCase()}
+      ${difficultyGuidelines[difficulty]}
+
+      Question Type Requirement: ${typeFilter}
+
+      Return the response as a JSON array with each question having:
+      - id: unique identifier (string)
+      - question: the interview question (string)
+      - type: 'behavioral', 'technical', or 'situational' ${
+          questionType && questionType !== "all" ? `(MUST be '${questionType}')` : ""
+      }
+      - difficulty: '${difficulty}' (all questions should be ${difficulty})
+      - category: relevant category like 'problem-solving', 'leadership', etc.
+
+      Make questions relevant to the role, company, seniority level, and difficulty level.
+      ${
+          questionType && questionType !== "all"
+              ? `IMPORTANT: ALL questions must be ${questionType} type questions.`
+              : ""
+      }
+      ${personaQuestionInstruction(persona)}
+      ${languageInstruction(locale)}`;
+    },
+};
+
+export const jobQuestionsV1: PromptTemplate<"job-questions"> = {
+    id: "job-questions",
+    version: "v1",
+    description: "Questions that each target one requirement from a parsed job description",
+    render: ({
+        title,
+        company,
+        seniority,
+        difficulty,
+        numberOfQuestions,
+        requirements,
+        locale,
+        persona,
+    }) => {
+        const requirementList = requirements.map((r) => `- [${r.id}] ${r.text}`).join("\n");
+
+        return `Generate ${numberOfQuestions} ${difficulty} difficulty interview questions for a ${title} position${
+            company ? ` at ${company}` : ""
+        } (${seniority || "mid-level"} level).
+
+      The questions must be based on the requirements from the job posting below. Each requirement has an ID in brackets.
+      ${requirementList}
+
+      Cover as many different requirements as possible, prioritizing skills listed first.
+
+      Return the response as a JSON array with each question having:
+      - id: unique identifier (string)
+      - question: the interview question (string)
+      - type: 'behavioral', 'technical', or 'situational'
+      - difficulty: '${difficulty}'
+      - category: relevant category like 'problem-solving', 'leadership', etc.
+      - requirementId: the ID of the requirement the question covers, e.g. 'skill-1'
+      ${personaQuestionInstruction(persona)}
+      ${languageInstruction(locale)}`;
+    },
+};
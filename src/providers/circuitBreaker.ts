@@ -0,0 +1,54 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+    // Consecutive failures that open the circuit
+    failureThreshold: number;
+    // How long an open circuit rejects calls before letting a trial call through
+    cooldownMs: number;
+}
+
+/**
+ * Stops calling a failing provider for a while. After `failureThreshold` consecutive failures
+ * the circuit opens; once `cooldownMs` has passed it goes half-open and the next call decides
+ * whether it closes again or stays open for another cooldown.
+ */
+export class CircuitBreaker {
+    private state: CircuitState = "closed";
+    private failures = 0;
+    private openedAt = 0;
+
+    constructor(
+        readonly name: string,
+        private options: CircuitBreakerOptions
+    ) {}
+
+    canRequest(now: number = Date.now()): boolean {
+        if (this.state === "open" && now - this.openedAt >= this.options.cooldownMs) {
+            this.state = "half-open";
+        }
+        return this.state !== "open";
+    }
+
+    recordSuccess(): void {
+        this.state = "closed";
+        this.failures = 0;
+    }
+
+    recordFailure(now: number = Date.now()): void {
+        this.failures++;
+        if (this.state === "half-open" || this.failures >= this.options.failureThreshold) {
+            this.state = "open";
+            this.openedAt = now;
+        }
+    }
+
+    status() {
+        return {
+            name: this.name,
+            state: this.canRequest() ? this.state : ("open" as const),
+            consecutiveFailures: this.failures,
+            retryAt:
+                this.state === "open" ? new Date(this.openedAt + this.options.cooldownMs) : null,
+        };
+    }
+}
@@ -0,0 +1,188 @@
+import type { LLMProvider, LLMRequest } from "./llm.provider";
+import { CircuitBreaker } from "./circuitBreaker";
+import logger from "../utils/logger";
+
+export interface ResilienceOptions {
+    // Longest wait for a response, or for the next chunk of a stream
+    timeoutMs: number;
+    // Extra attempts per provider after the first one fails
+    retries: number;
+    // First retry waits about this long; each later retry doubles it
+    retryBaseMs: number;
+}
+
+export interface ProviderLink {
+    provider: LLMProvider;
+    breaker: CircuitBreaker;
+}
+
+// Thrown when every provider in the chain failed or has an open circuit
+export class LLMUnavailableError extends Error {
+    constructor(readonly lastError?: unknown) {
+        super(
+            lastError instanceof Error
+                ? `All LLM providers failed: ${lastError.message}`
+                : "All LLM providers are unavailable"
+        );
+        this.name = "LLMUnavailableError";
+    }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A timed-out call is aborted through `controller`, so it can't finish later and count as a
+// success nobody waited for
+const withTimeout = <T>(
+    promise: Promise<T>,
+    ms: number,
+    label: string,
+    controller: AbortController
+): Promise<T> => {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            const error = new Error(`${label} timed out after ${ms}ms`);
+            controller.abort(error);
+            reject(error);
+        }, ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Tries a chain of providers in order. Each provider gets a timeout, retries with jittered
+ * exponential backoff and its own circuit breaker; providers with an open circuit are skipped
+ * until their cooldown ends.
+ */
+export class FallbackProvider implements LLMProvider {
+    constructor(
+        private links: ProviderLink[],
+        private options: ResilienceOptions
+    ) {
+        if (links.length === 0) {
+            throw new Error("At least one LLM provider is required");
+        }
+    }
+
+    // The chain reports as its primary provider
+    get name() {
+        return this.links[0].provider.name;
+    }
+
+    get model() {
+        return this.links[0].provider.model;
+    }
+
+    async generate(request: LLMRequest): Promise<string> {
+        let lastError: unknown;
+
+        for (const link of this.links) {
+            for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+                if (!link.breaker.canRequest()) break;
+                if (attempt > 0) await sleep(this.backoff(attempt));
+
+                const controller = new AbortController();
+                try {
+                    const text = await withTimeout(
+                        link.provider.generate({ ...request, signal: controller.signal }),
+                        this.options.timeoutMs,
+                        link.breaker.name,
+                        controller
+                    );
+                    link.breaker.recordSuccess();
+                    return text;
+                } catch (error) {
+                    lastError = error;
+                    this.recordFailure(link, request, attempt, error);
+                }
+            }
+        }
+
+        throw new LLMUnavailableError(lastError);
+    }
+
+    /**
+     * Fails over only until the first chunk arrives; after that a failure ends the stream,
+     * since the consumer has already seen part of the response.
+     */
+    async *generateStream(request: LLMRequest): AsyncIterable<string> {
+        let lastError: unknown;
+
+        for (const link of this.links) {
+            for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+                if (!link.breaker.canRequest()) break;
+                if (attempt > 0) await sleep(this.backoff(attempt));
+
+                const controller = new AbortController();
+                const iterator = link.provider
+                    .generateStream({ ...request, signal: controller.signal })
+                    [Symbol.asyncIterator]();
+                let next: IteratorResult<string>;
+                try {
+                    next = await withTimeout(
+                        iterator.next(),
+                        this.options.timeoutMs,
+                        link.breaker.name,
+                        controller
+                    );
+                } catch (error) {
+                    lastError = error;
+                    this.recordFailure(link, request, attempt, error);
+                    void iterator.return?.();
+                    continue;
+                }
+
+                try {
+                    while (!next.done) {
+                        yield next.value;
+                        next = await withTimeout(
+                            iterator.next(),
+                            this.options.timeoutMs,
+                            link.breaker.name,
+                            controller
+                        );
+                    }
+                    link.breaker.recordSuccess();
+                    return;
+                } catch (error) {
+                    this.recordFailure(link, request, attempt, error);
+                    void iterator.return?.();
+                    throw error;
+                }
+            }
+        }
+
+        throw new LLMUnavailableError(lastError);
+    }
+
+    // Circuit state of every provider in the chain, for health checks
+    status() {
+        return this.links.map(({ provider, breaker }) => ({
+            provider: provider.name,
+            model: provider.model,
+            ...breaker.status(),
+        }));
+    }
+
+    // Equal jitter: half the exponential delay plus a random share of the other half
+    private backoff(attempt: number): number {
+        const delay = this.options.retryBaseMs * 2 ** (attempt - 1);
+        return delay / 2 + Math.random() * (delay / 2);
+    }
+
+    private recordFailure(
+        link: ProviderLink,
+        request: LLMRequest,
+        attempt: number,
+        error: unknown
+    ) {
+        link.breaker.recordFailure();
+        logger.warn("LLM call failed", {
+            provider: link.breaker.name,
+            task: request.task,
+            attempt: attempt + 1,
+            circuit: link.breaker.status().state,
+            error: error instanceof Error ? error.message : error,
+        });
+    }
+}
@@ -0,0 +1,32 @@
+import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+import type { LLMProvider, LLMRequest } from "./llm.provider";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.0-flash-exp";
+
+export class GeminiProvider implements LLMProvider {
+    readonly name = "gemini" as const;
+    readonly model: string;
+    private client: GenerativeModel;
+
+    constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL) {
+        this.model = model;
+        this.client = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+    }
+
+    async generate(request: LLMRequest): Promise<string> {
+        const result = await this.client.generateContent(request.prompt, {
+            signal: request.signal,
+        });
+        const response = await result.response;
+        return response.text();
+    }
+
+    async *generateStream(request: LLMRequest): AsyncIterable<string> {
+        const result = await this.client.generateContentStream(request.prompt, {
+            signal: request.signal,
+        });
+        for await (const chunk of result.stream) {
+            yield chunk.text();
+        }
+    }
+}
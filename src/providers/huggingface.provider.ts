@@ -0,0 +1,42 @@
+import { InferenceClient } from "@huggingface/inference";
+import type { LLMProvider, LLMRequest } from "./llm.provider";
+
+export const DEFAULT_HUGGINGFACE_MODEL = "mistralai/Mistral-7B-Instruct-v0.3";
+
+export class HuggingFaceProvider implements LLMProvider {
+    readonly name = "huggingface" as const;
+    readonly model: string;
+    private client: InferenceClient;
+
+    constructor(apiKey: string, model: string = DEFAULT_HUGGINGFACE_MODEL) {
+        this.model = model;
+        this.client = new InferenceClient(apiKey);
+    }
+
+    async generate(request: LLMRequest): Promise<string> {
+        const output = await this.client.chatCompletion(
+            {
+                model: this.model,
+                messages: [{ role: "user", content: request.prompt }],
+                max_tokens: 2048,
+            },
+            { signal: request.signal }
+        );
+        return output.choices[0]?.message?.content || "";
+    }
+
+    async *generateStream(request: LLMRequest): AsyncIterable<string> {
+        const stream = this.client.chatCompletionStream(
+            {
+                model: this.model,
+                messages: [{ role: "user", content: request.prompt }],
+                max_tokens: 2048,
+            },
+            { signal: request.signal }
+        );
+        for await (const chunk of stream) {
+            const content = chunk.choices[0]?.delta?.content;
+            if (content) yield content;
+        }
+    }
+}
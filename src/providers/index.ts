@@ -0,0 +1,172 @@
+import { GeminiProvider } from "./gemini.provider";
+import { HuggingFaceProvider } from "./huggingface.provider";
+import { StubProvider } from "./stub.provider";
+import { MeteredProvider } from "./metered.provider";
+import { CircuitBreaker } from "./circuitBreaker";
+import { FallbackProvider, type ProviderLink } from "./fallback.provider";
+import { StubTranscriptionProvider } from "./stubTranscription.provider";
+import { WhisperCliProvider } from "./whisperCli.provider";
+import type { LLMProvider, LLMProviderName } from "./llm.provider";
+import type { TranscriptionProvider } from "./transcription.provider";
+import logger from "../utils/logger";
+
+export type { LLMProvider, LLMProviderName, LLMRequest, LLMTask } from "./llm.provider";
+export { FallbackProvider, LLMUnavailableError } from "./fallback.provider";
+export type {
+    TranscriptionProvider,
+    TranscriptionProviderName,
+    TranscriptionResult,
+    WordTiming,
+} from "./transcription.provider";
+
+const isConfigured = (key: string | undefined) =>
+    !!key && key !== "your_api_key_here" && !key.startsWith("your_");
+
+/**
+ * Resolve which provider to use. LLM_PROVIDER wins when set; otherwise the first
+ * provider with an API key is used, falling back to the stub.
+ */
+export function resolveLLMProviderName(): LLMProviderName {
+    const configured = process.env.LLM_PROVIDER?.toLowerCase();
+    if (configured === "gemini" || configured === "huggingface" || configured === "stub") {
+        return configured;
+    }
+
+    if (isConfigured(process.env.GEMINI_API_KEY)) return "gemini";
+    if (isConfigured(process.env.HUGGINGFACE_API_KEY)) return "huggingface";
+    return "stub";
+}
+
+export function createLLMProvider(
+    name: LLMProviderName = resolveLLMProviderName(),
+    model: string | undefined = process.env.LLM_MODEL
+): LLMProvider {
+    switch (name) {
+        case "gemini": {
+            const apiKey = process.env.GEMINI_API_KEY;
+            if (!apiKey) {
+                throw new Error("GEMINI_API_KEY environment variable is required");
+            }
+            return new GeminiProvider(apiKey, model);
+        }
+        case "huggingface": {
+            const apiKey = process.env.HUGGINGFACE_API_KEY;
+            if (!apiKey) {
+                throw new Error("HUGGINGFACE_API_KEY environment variable is required");
+            }
+            return new HuggingFaceProvider(apiKey, model);
+        }
+        case "stub":
+            return new StubProvider();
+    }
+}
+
+const PROVIDER_NAMES: LLMProviderName[] = ["gemini", "huggingface", "stub"];
+
+const intFromEnv = (key: string, fallback: number) => {
+    const value = parseInt(process.env[key] || "", 10);
+    return Number.isNaN(value) ? fallback : value;
+};
+
+/**
+ * Providers to try in order. LLM_CHAIN lists `provider` or `provider:model` entries, e.g.
+ * "gemini:gemini-2.0-flash,gemini:gemini-1.5-flash,huggingface"; without it the chain is the
+ * single provider chosen by resolveLLMProviderName.
+ */
+export function resolveProviderChain(
+    chain: string | undefined = process.env.LLM_CHAIN
+): { name: LLMProviderName; model?: string }[] {
+    const entries = (chain || "")
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+            const [name, ...model] = entry.split(":");
+            if (!PROVIDER_NAMES.includes(name.toLowerCase() as LLMProviderName)) {
+                throw new Error(`Unknown LLM provider in LLM_CHAIN: ${name}`);
+            }
+            return {
+                name: name.toLowerCase() as LLMProviderName,
+                model: model.join(":") || undefined,
+            };
+        });
+
+    return entries.length > 0
+        ? entries
+        : [{ name: resolveLLMProviderName(), model: process.env.LLM_MODEL }];
+}
+
+/**
+ * The provider chain with a circuit breaker per link. Every attempt is metered, so retries and
+ * failovers show up in usage.
+ */
+export function createProviderChain(): FallbackProvider {
+    const breakerOptions = {
+        failureThreshold: intFromEnv("LLM_BREAKER_THRESHOLD", 5),
+        cooldownMs: intFromEnv("LLM_BREAKER_COOLDOWN_MS", 60000),
+    };
+
+    const links: ProviderLink[] = resolveProviderChain().map(({ name, model }) => {
+        const provider = createLLMProvider(name, model);
+        return {
+            provider: new MeteredProvider(provider),
+            breaker: new CircuitBreaker(`${provider.name}:${provider.model}`, breakerOptions),
+        };
+    });
+
+    return new FallbackProvider(links, {
+        timeoutMs: intFromEnv("LLM_TIMEOUT_MS", 30000),
+        retries: intFromEnv("LLM_MAX_RETRIES", 2),
+        retryBaseMs: intFromEnv("LLM_RETRY_BASE_MS", 500),
+    });
+}
+
+let provider: FallbackProvider | null = null;
+
+// Lazily create the shared provider chain so env vars are loaded first
+export const getLLMProvider = (): FallbackProvider => {
+    if (!provider) {
+        provider = createProviderChain();
+        logger.info("LLM provider initialized", {
+            provider: provider.name,
+            model: provider.model,
+            chain: provider.status().map((link) => link.name),
+        });
+    }
+    return provider;
+};
+
+/**
+ * Speech-to-text provider from TRANSCRIPTION_PROVIDER: "whisper-cli" runs a local whisper.cpp
+ * binary; anything else uses the stub
+ */
+export function createTranscriptionProvider(
+    name: string | undefined = process.env.TRANSCRIPTION_PROVIDER
+): TranscriptionProvider {
+    if (name?.toLowerCase() === "whisper-cli") {
+        const modelPath = process.env.WHISPER_MODEL_PATH;
+        if (!modelPath) {
+            throw new Error("WHISPER_MODEL_PATH environment variable is required");
+        }
+        return new WhisperCliProvider({
+            binary: process.env.WHISPER_CLI_PATH || "whisper-cli",
+            modelPath,
+            ffmpegBinary: process.env.FFMPEG_PATH || "ffmpeg",
+            timeoutMs: intFromEnv("TRANSCRIPTION_TIMEOUT_MS", 120000),
+        });
+    }
+    return new StubTranscriptionProvider();
+}
+
+let transcriptionProvider: TranscriptionProvider | null = null;
+
+export const getTranscriptionProvider = (): TranscriptionProvider => {
+    if (!transcriptionProvider) {
+        transcriptionProvider = createTranscriptionProvider();
+        logger.info("Transcription provider initialized", {
+            provider: transcriptionProvider.name,
+            model: transcriptionProvider.model,
+        });
+    }
+    return transcriptionProvider;
+};
@@ -0,0 +1,27 @@
+export type LLMProviderName = "gemini" | "huggingface" | "stub";
+
+// What a prompt is for. Real providers ignore it; the stub uses it to pick a canned response.
+export type LLMTask =
+    | "questions"
+    | "feedback"
+    | "feedbackText"
+    | "followUp"
+    | "jobExtraction"
+    | "resumeParsing";
+
+export interface LLMRequest {
+    task: LLMTask;
+    prompt: string;
+    // Structured parameters behind the prompt, for providers that don't read prose
+    hints?: Record<string, unknown>;
+    // Aborted once the caller stops waiting for this call, e.g. after the chain's timeout
+    signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+    readonly model: string;
+    generate(request: LLMRequest): Promise<string>;
+    // Yields text chunks as the model produces them
+    generateStream(request: LLMRequest): AsyncIterable<string>;
+}
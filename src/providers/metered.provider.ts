@@ -0,0 +1,64 @@
+import type { LLMProvider, LLMRequest } from "./llm.provider";
+import { reportLLMCall } from "../utils/usageContext";
+
+/**
+ * Wraps a provider and reports every call's size, latency and outcome to the current usage
+ * context. A call that completes after its request was aborted is reported as failed: nobody
+ * used the response, so it mustn't count against the user's quota.
+ */
+export class MeteredProvider implements LLMProvider {
+    constructor(private inner: LLMProvider) {}
+
+    get name() {
+        return this.inner.name;
+    }
+
+    get model() {
+        return this.inner.model;
+    }
+
+    async generate(request: LLMRequest): Promise<string> {
+        const started = Date.now();
+        try {
+            const text = await this.inner.generate(request);
+            this.report(request, started, text.length, request.signal?.reason);
+            return text;
+        } catch (error) {
+            this.report(request, started, 0, error);
+            throw error;
+        }
+    }
+
+    async *generateStream(request: LLMRequest): AsyncIterable<string> {
+        const started = Date.now();
+        let outputChars = 0;
+        try {
+            for await (const chunk of this.inner.generateStream(request)) {
+                outputChars += chunk.length;
+                yield chunk;
+            }
+            this.report(request, started, outputChars, request.signal?.reason);
+        } catch (error) {
+            this.report(request, started, outputChars, error);
+            throw error;
+        }
+    }
+
+    private report(request: LLMRequest, started: number, outputChars: number, error?: unknown) {
+        reportLLMCall({
+            task: request.task,
+            provider: this.inner.name,
+            model: this.inner.model,
+            inputChars: request.prompt.length,
+            outputChars,
+            latencyMs: Date.now() - started,
+            outcome: error === undefined ? "success" : "error",
+            error:
+                error === undefined
+                    ? undefined
+                    : error instanceof Error
+                      ? error.message
+                      : String(error),
+        });
+    }
+}
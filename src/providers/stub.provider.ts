@@ -0,0 +1,190 @@
+import type { LLMProvider, LLMRequest } from "./llm.provider";
+
+type StubQuestionType = "behavioral" | "technical" | "situational";
+
+const STUB_QUESTIONS: Record<StubQuestionType, { question: string; category: string }[]> = {
+    behavioral: [
+        {
+            question: "Tell me about a project you are proud of as a {role}.",
+            category: "achievements",
+        },
+        { question: "Describe a time you disagreed with a teammate.", category: "teamwork" },
+        { question: "Tell me about a mistake you made and what you learned.", category: "growth" },
+    ],
+    technical: [
+        {
+            question: "Walk me through the architecture of a system you built as a {role}.",
+            category: "system-design",
+        },
+        {
+            question: "How do you approach debugging a production issue?",
+            category: "problem-solving",
+        },
+        { question: "How would you test a feature you own end to end?", category: "quality" },
+    ],
+    situational: [
+        {
+            question: "How would you handle a deadline you cannot meet at {company}?",
+            category: "prioritization",
+        },
+        {
+            question: "What would you do if requirements changed mid-sprint?",
+            category: "adaptability",
+        },
+        { question: "How would you onboard onto an unfamiliar codebase?", category: "learning" },
+    ],
+};
+
+// Rubric criteria per question type, matching RubricService
+const STUB_CRITERIA: Record<StubQuestionType | "coding" | "system-design", string[]> = {
+    behavioral: ["situation", "task", "action", "result"],
+    technical: ["correctness", "tradeoffs"],
+    situational: ["judgment", "prioritization"],
+    coding: ["correctness", "complexity", "style"],
+    "system-design": ["coverage", "justification", "specificity"],
+};
+
+// One canned follow-up per chain level so multi-turn chains don't repeat themselves
+const FOLLOW_UPS = [
+    "What would you do differently if you faced the same situation again?",
+    "How did you measure whether that approach worked?",
+    "What trade-offs did you consider before choosing it?",
+];
+
+/**
+ * Deterministic provider for local development and offline runs.
+ * Responses depend only on the request, so the same input always yields the same output.
+ */
+export class StubProvider implements LLMProvider {
+    readonly name = "stub" as const;
+    readonly model = "stub-v1";
+
+    async generate(request: LLMRequest): Promise<string> {
+        const hints = request.hints || {};
+
+        switch (request.task) {
+            case "questions":
+                return JSON.stringify(this.questions(hints));
+            case "feedback":
+                return JSON.stringify(
+                    this.feedback(String(hints.answer || ""), String(hints.questionType || ""))
+                );
+            case "feedbackText":
+                return "Clear structure overall. Add a concrete example and a measurable result to strengthen the answer.";
+            case "followUp":
+                // System-design follow-ups name the section they probe
+                if (hints.section) {
+                    return `How would your ${hints.section} hold up at ten times the expected load?`;
+                }
+                return FOLLOW_UPS[(Number(hints.depth || 1) - 1) % FOLLOW_UPS.length];
+            case "jobExtraction":
+                return JSON.stringify(this.jobExtraction(String(hints.jobDescription || "")));
+            case "resumeParsing":
+                return JSON.stringify(this.resumeParsing(String(hints.resumeText || "")));
+            default:
+                return "";
+        }
+    }
+
+    async *generateStream(request: LLMRequest): AsyncIterable<string> {
+        const text = await this.generate(request);
+        // Fixed-size chunks so consumers exercise their incremental parsing
+        for (let i = 0; i < text.length; i += 64) {
+            yield text.slice(i, i + 64);
+        }
+    }
+
+    private questions(hints: Record<string, unknown>) {
+        const count = Number(hints.count) || 5;
+        const difficulty = (hints.difficulty as string) || "medium";
+        const requestedType = hints.questionType as string | undefined;
+        const requirements = (hints.requirements as { id: string; text: string }[]) || [];
+        const types: StubQuestionType[] =
+            requestedType && requestedType !== "all"
+                ? [requestedType as StubQuestionType]
+                : ["behavioral", "technical", "situational"];
+
+        return Array.from({ length: count }, (_, i) => {
+            const type = types[i % types.length];
+            const pool = STUB_QUESTIONS[type];
+            const template = pool[Math.floor(i / types.length) % pool.length];
+            const requirement =
+                requirements.length > 0 ? requirements[i % requirements.length] : null;
+            return {
+                id: `stub-${i + 1}`,
+                question: requirement
+                    ? `Tell me about your experience with ${requirement.text}.`
+                    : template.question
+                          .replace("{role}", String(hints.jobRole || "engineer"))
+                          .replace("{company}", String(hints.company || "the company")),
+                type,
+                difficulty,
+                category: template.category,
+                ...(requirement && { requirementId: requirement.id }),
+            };
+        });
+    }
+
+    private jobExtraction(jobDescription: string) {
+        const lines = jobDescription
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean);
+        const bullets = lines
+            .filter((line) => /^[-*•]/.test(line))
+            .map((line) => line.replace(/^[-*•]\s*/, ""));
+
+        return {
+            title: lines[0] || "Software Engineer",
+            seniority: "mid-level",
+            senioritySignals: [],
+            skills: bullets.length > 0 ? bullets.slice(0, 5) : ["communication"],
+            responsibilities: bullets.slice(5, 10),
+        };
+    }
+
+    private resumeParsing(resumeText: string) {
+        const lines = resumeText
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean);
+        const skillsLine = lines.find((line) => /^skills\s*:/i.test(line));
+
+        return {
+            name: lines[0],
+            roles: [],
+            projects: [],
+            skills: skillsLine
+                ? skillsLine
+                      .replace(/^skills\s*:/i, "")
+                      .split(",")
+                      .map((skill) => skill.trim())
+                      .filter(Boolean)
+                : [],
+        };
+    }
+
+    private feedback(answer: string, questionType: string) {
+        // Longer answers score a little higher, capped so the stub never looks perfect
+        const words = answer.split(/\s+/).filter(Boolean).length;
+        const base = Math.min(8, 4 + Math.floor(words / 40));
+        const evidence = answer.split(/(?<=[.!?])\s+/)[0]?.slice(0, 120) || "";
+        return {
+            relevanceScore: base,
+            clarityScore: base,
+            depthScore: Math.max(1, base - 1),
+            communicationScore: base,
+            criteria: Object.fromEntries(
+                (
+                    STUB_CRITERIA[questionType as keyof typeof STUB_CRITERIA] ||
+                    STUB_CRITERIA.technical
+                ).map((key) => [key, { score: Math.max(1, base - 1), evidence }])
+            ),
+            strengths: ["Addresses the question directly."],
+            improvements: ["Add a concrete example with a measurable result."],
+            exampleAnswer: `${answer.trim()} As a result, we measured a clear improvement.`,
+            overallFeedback: "Stub feedback: the answer addresses the question.",
+            suggestion: "Add a concrete example with a measurable result.",
+        };
+    }
+}
@@ -0,0 +1,40 @@
+import type {
+    TranscriptionProvider,
+    TranscriptionRequest,
+    TranscriptionResult,
+} from "./transcription.provider";
+import { wavDurationSeconds } from "../utils/audio";
+
+const STUB_TRANSCRIPT =
+    "In my last role I led the migration of our billing service to a new database. I planned the cutover with the team, wrote the migration scripts and ran both systems side by side for two weeks. We switched over with no downtime and cut query latency by about forty percent.";
+
+// Speaking rate assumed when the recording's length can't be read
+const STUB_WORDS_PER_MINUTE = 150;
+
+/**
+ * Transcription for local development and offline runs: every recording yields the same
+ * transcript, with word timings spread evenly over the recording's length
+ */
+export class StubTranscriptionProvider implements TranscriptionProvider {
+    readonly name = "stub" as const;
+    readonly model = "stub-v1";
+
+    async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+        const text = process.env.STUB_TRANSCRIPT || STUB_TRANSCRIPT;
+        const tokens = text.split(/\s+/).filter(Boolean);
+        const durationSeconds =
+            wavDurationSeconds(request.audio) ?? (tokens.length / STUB_WORDS_PER_MINUTE) * 60;
+        const step = tokens.length > 0 ? durationSeconds / tokens.length : 0;
+        const round = (seconds: number) => Math.round(seconds * 100) / 100;
+
+        return {
+            text,
+            words: tokens.map((word, i) => ({
+                word,
+                start: round(i * step),
+                end: round((i + 1) * step),
+            })),
+            durationSeconds: round(durationSeconds),
+        };
+    }
+}
@@ -0,0 +1,29 @@
+export type TranscriptionProviderName = "stub" | "whisper-cli";
+
+// One spoken word with its position in the recording, in seconds
+export interface WordTiming {
+    word: string;
+    start: number;
+    end: number;
+}
+
+export interface TranscriptionRequest {
+    audio: Buffer;
+    fileName: string;
+    mimeType?: string;
+    // ISO 639-1 language of the speech, e.g. "en"; providers may auto-detect without it
+    language?: string;
+}
+
+export interface TranscriptionResult {
+    text: string;
+    words: WordTiming[];
+    // Length of the recording in seconds
+    durationSeconds: number;
+}
+
+export interface TranscriptionProvider {
+    readonly name: TranscriptionProviderName;
+    readonly model: string;
+    transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
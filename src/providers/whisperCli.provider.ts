@@ -0,0 +1,121 @@
+import { execFile } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { extname, join } from "path";
+import { promisify } from "util";
+import type {
+    TranscriptionProvider,
+    TranscriptionRequest,
+    TranscriptionResult,
+    WordTiming,
+} from "./transcription.provider";
+import { wavDurationSeconds } from "../utils/audio";
+
+const run = promisify(execFile);
+
+export interface WhisperCliOptions {
+    // whisper.cpp executable, e.g. "whisper-cli" on PATH or a full path
+    binary: string;
+    // ggml model file, e.g. models/ggml-base.en.bin
+    modelPath: string;
+    // Converts non-WAV uploads to the 16 kHz mono WAV whisper.cpp reads
+    ffmpegBinary: string;
+    timeoutMs: number;
+}
+
+// Segment shape of whisper.cpp's --output-json file
+interface WhisperSegment {
+    offsets: { from: number; to: number };
+    text: string;
+}
+
+// Non-speech markers whisper.cpp emits as segments, e.g. [BLANK_AUDIO] or (music)
+const NON_SPEECH = /^(\[[^\]]*\]|\([^)]*\))$/;
+
+/**
+ * Local transcription with the whisper.cpp command-line tool. Runs fully offline once the
+ * model file is downloaded. One-word segments (`-ml 1 -sow`) give the word timings.
+ */
+export class WhisperCliProvider implements TranscriptionProvider {
+    readonly name = "whisper-cli" as const;
+    readonly model: string;
+
+    constructor(private readonly options: WhisperCliOptions) {
+        this.model = options.modelPath.split(/[\\/]/).pop() || options.modelPath;
+    }
+
+    async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+        const dir = await mkdtemp(join(tmpdir(), "prepforge-whisper-"));
+        try {
+            const input = join(dir, `input${extname(request.fileName).toLowerCase() || ".audio"}`);
+            await writeFile(input, request.audio);
+
+            const wav = /\.wav$/.test(input) ? input : join(dir, "input.wav");
+            if (wav !== input) {
+                await run(
+                    this.options.ffmpegBinary,
+                    [
+                        "-nostdin",
+                        "-y",
+                        "-i",
+                        input,
+                        "-ar",
+                        "16000",
+                        "-ac",
+                        "1",
+                        "-c:a",
+                        "pcm_s16le",
+                        wav,
+                    ],
+                    { timeout: this.options.timeoutMs }
+                );
+            }
+
+            const outputBase = join(dir, "transcript");
+            await run(
+                this.options.binary,
+                [
+                    "-m",
+                    this.options.modelPath,
+                    "-f",
+                    wav,
+                    "-l",
+                    request.language || "auto",
+                    "-ml",
+                    "1",
+                    "-sow",
+                    "-oj",
+                    "-of",
+                    outputBase,
+                    "-np",
+                ],
+                { timeout: this.options.timeoutMs, maxBuffer: 10 * 1024 * 1024 }
+            );
+
+            const output = JSON.parse(await readFile(`${outputBase}.json`, "utf8")) as {
+                transcription?: WhisperSegment[];
+            };
+            return this.toResult(output.transcription || [], await readFile(wav));
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    }
+
+    private toResult(segments: WhisperSegment[], wav: Buffer): TranscriptionResult {
+        const words: WordTiming[] = segments
+            .map((segment) => ({
+                word: segment.text.trim(),
+                start: segment.offsets.from / 1000,
+                end: segment.offsets.to / 1000,
+            }))
+            .filter((word) => word.word && !NON_SPEECH.test(word.word));
+
+        return {
+            text: words.map((word) => word.word).join(" "),
+            words,
+            durationSeconds:
+                wavDurationSeconds(wav) ??
+                (segments.length ? segments[segments.length - 1].offsets.to / 1000 : 0),
+        };
+    }
+}
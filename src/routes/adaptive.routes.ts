@@ -0,0 +1,295 @@
+import express, { Request, Response } from "express";
+import { body, param } from "express-validator";
+import { localeValidator, personaValidator, validate } from "../middleware/validators";
+import { aiLimiter } from "../middleware/rateLimiter";
+import { llmQuota } from "../middleware/llmQuota";
+import { AIService } from "../services/ai.service";
+import { DatabaseService } from "../services/database.service";
+import {
+    AdaptiveService,
+    DEFAULT_ADAPTIVE_QUESTIONS,
+    type AdaptationDecision,
+    type AdaptiveSettings,
+} from "../services/adaptive.service";
+import { PersonaError, PersonaService } from "../services/persona.service";
+import type { Answer, Interview } from "../db/schema";
+import type { Question } from "../schemas/ai.schema";
+import { normalizeLocale } from "../utils/locale";
+import logger from "../utils/logger";
+
+const router = express.Router();
+
+// Lazy initialization of services to ensure env vars are loaded
+let aiService: AIService | null = null;
+const getAIService = () => {
+    if (!aiService) {
+        aiService = new AIService();
+    }
+    return aiService;
+};
+
+let dbService: DatabaseService | null = null;
+const getDBService = () => {
+    if (!dbService) {
+        dbService = new DatabaseService();
+    }
+    return dbService;
+};
+
+const settingsFor = (interview: Interview): AdaptiveSettings => ({
+    maxQuestions: DEFAULT_ADAPTIVE_QUESTIONS,
+    questionType: "all",
+    ...((interview.adaptiveSettings as Partial<AdaptiveSettings>) || {}),
+});
+
+// Decide the next step for an adaptive interview and, when a new question is due, generate and
+// store it along with the decision
+const advance = async (interview: Interview, interviewAnswers: Answer[], res: Response) => {
+    const step = AdaptiveService.decideNext(interview, interviewAnswers, settingsFor(interview));
+
+    if (step.status === "pending") {
+        return res.status(409).json({
+            error: "Answer the current question before requesting the next one",
+            question: step.question,
+        });
+    }
+
+    if (step.status === "complete") {
+        return res.json({
+            success: true,
+            complete: true,
+            interviewId: interview.id,
+            ceiling: step.ceiling,
+            trace: interview.adaptationTrace,
+        });
+    }
+
+    const asked = ((interview.questions as Question[]) || []).map((q) => q.question);
+    const { questions, source, prompt } = await getAIService().generateQuestions(
+        interview.jobRole,
+        interview.company,
+        interview.experience,
+        step.difficulty,
+        1,
+        step.type,
+        {
+            userId: interview.userId,
+            avoidQuestions: asked,
+            locale: normalizeLocale(interview.locale),
+            persona: PersonaService.forInterview(interview),
+        }
+    );
+
+    if (questions.length === 0) {
+        throw new Error("No question could be generated");
+    }
+
+    // The engine owns the question's position and level, whatever the generator labelled it
+    const question: Question = {
+        ...questions[0],
+        id: step.decision.questionId,
+        difficulty: step.difficulty,
+        type: step.type,
+    };
+    const recorded = await AdaptiveService.recordQuestion(
+        interview,
+        question,
+        step.decision,
+        prompt
+    );
+    if (!recorded) {
+        // A concurrent request added a question first; answer from the interview as it is now
+        const details = await getDBService().getInterviewDetails(interview.id);
+        if (!details) {
+            return res.status(404).json({ error: "Interview not found" });
+        }
+        return advance(details.interview, details.answers, res);
+    }
+
+    logger.info("Adaptive question selected", {
+        interviewId: interview.id,
+        step: step.decision.step,
+        action: step.decision.action,
+        difficulty: step.difficulty,
+        type: step.type,
+    });
+
+    res.json({
+        success: true,
+        complete: false,
+        interviewId: interview.id,
+        question,
+        source,
+        decision: step.decision,
+    });
+};
+
+const loadAdaptiveInterview = async (req: Request, res: Response) => {
+    const details = await getDBService().getInterviewDetails(parseInt(req.params.interviewId, 10));
+    if (!details) {
+        res.status(404).json({ error: "Interview not found" });
+        return null;
+    }
+    if (details.interview.mode !== "adaptive") {
+        res.status(400).json({ error: "Interview is not in adaptive mode" });
+        return null;
+    }
+    return details;
+};
+
+/**
+ * POST /api/adaptive-interviews
+ * Start an adaptive interview and return its first question
+ */
+router.post(
+    "/",
+    aiLimiter,
+    [
+        body("userId").isInt({ min: 1 }).withMessage("User ID must be a positive integer"),
+        body("jobRole")
+            .trim()
+            .isLength({ min: 2, max: 100 })
+            .withMessage("Job role must be between 2 and 100 characters"),
+        body("company")
+            .trim()
+            .isLength({ min: 2, max: 100 })
+            .withMessage("Company must be between 2 and 100 characters"),
+        body("experience")
+            .optional()
+            .isIn(["entry-level", "mid-level", "senior", "lead"])
+            .withMessage("Invalid experience level"),
+        body("startDifficulty")
+            .optional()
+            .isIn(["easy", "medium", "hard"])
+            .withMessage("Start difficulty must be easy, medium, or hard"),
+        body("questionType")
+            .optional()
+            .isIn(["behavioral", "technical", "situational", "all"])
+            .withMessage("Invalid question type"),
+        body("maxQuestions")
+            .optional()
+            .isInt({ min: 3, max: 20 })
+            .withMessage("Max questions must be between 3 and 20"),
+        localeValidator(),
+        personaValidator(),
+        validate,
+    ],
+    llmQuota("adaptive-interviews"),
+    async (req: Request, res: Response) => {
+        try {
+            const { jobRole, company, experience, startDifficulty, questionType, maxQuestions } =
+                req.body;
+
+            const userId = parseInt(req.body.userId, 10);
+            const persona = await PersonaService.resolve(req.body.persona, userId);
+            const interview = await getDBService().createInterview(
+                userId,
+                jobRole,
+                company,
+                experience || "mid-level",
+                [],
+                {
+                    difficulty: startDifficulty || "medium",
+                    mode: "adaptive",
+                    adaptiveSettings: {
+                        maxQuestions: maxQuestions
+                            ? parseInt(maxQuestions, 10)
+                            : DEFAULT_ADAPTIVE_QUESTIONS,
+                        questionType: questionType || "all",
+                    },
+                    locale: await getDBService().resolveLocale(req.body.locale, userId),
+                    persona,
+                }
+            );
+
+            await advance(interview, [], res);
+        } catch (error) {
+            if (error instanceof PersonaError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error starting adaptive interview:", error);
+            res.status(500).json({
+                error: "Failed to start adaptive interview",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/adaptive-interviews/:interviewId/next
+ * Pick the next question from the scores so far. Answers are submitted through the usual
+ * feedback endpoints with the question's ID.
+ */
+router.post(
+    "/:interviewId/next",
+    aiLimiter,
+    [
+        param("interviewId")
+            .isInt({ min: 1 })
+            .withMessage("Interview ID must be a positive integer"),
+        validate,
+    ],
+    llmQuota("adaptive-interviews/next", async (req) => {
+        const interview = await getDBService().getInterview(Number(req.params.interviewId));
+        return interview?.userId ?? null;
+    }),
+    async (req: Request, res: Response) => {
+        try {
+            const details = await loadAdaptiveInterview(req, res);
+            if (!details) return;
+
+            await advance(details.interview, details.answers, res);
+        } catch (error) {
+            logger.error("Error selecting next adaptive question:", error);
+            res.status(500).json({
+                error: "Failed to select next question",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * GET /api/adaptive-interviews/:interviewId/trace
+ * Adaptation decisions for review, with the current ceiling estimate
+ */
+router.get(
+    "/:interviewId/trace",
+    [
+        param("interviewId")
+            .isInt({ min: 1 })
+            .withMessage("Interview ID must be a positive integer"),
+        validate,
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            const details = await loadAdaptiveInterview(req, res);
+            if (!details) return;
+
+            const { interview } = details;
+            const questions = (interview.questions as Question[]) || [];
+            const trace = (interview.adaptationTrace as AdaptationDecision[]) || [];
+            const { scores } = AdaptiveService.scoreAnswers(details.answers);
+
+            res.json({
+                success: true,
+                interviewId: interview.id,
+                settings: settingsFor(interview),
+                questions: questions.map((q) => ({ ...q, score: scores.get(q.id) ?? null })),
+                trace,
+                // Includes the latest answer, which no decision has used yet
+                ceiling: AdaptiveService.estimateCeiling(questions, scores),
+                converged: trace[trace.length - 1]?.converged ?? false,
+            });
+        } catch (error) {
+            logger.error("Error fetching adaptation trace:", error);
+            res.status(500).json({
+                error: "Failed to fetch adaptation trace",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+export default router;
@@ -1,14 +1,42 @@
-import express, { Request, Response } from "express";
+import express, { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { body, param, query } from "express-validator";
 import { AIService } from "../services/ai.service";
-import { feedbackService } from "../services/feedback.service";
+import {
+    feedbackService,
+    toAnswerScores,
+    type FeedbackResult,
+    type GradingOptions,
+} from "../services/feedback.service";
+import { RubricService, RUBRICS } from "../services/rubric.service";
+import type { QuestionType } from "../schemas/ai.schema";
+import type { FollowUp, NewAnswer } from "../db/schema";
+import type { InterviewerPersona } from "../data/personas";
 import { DatabaseService } from "../services/database.service";
+import { JobDescriptionService } from "../services/jobDescription.service";
+import { ResumeService } from "../services/resume.service";
+import { FollowUpService, FollowUpError, MAX_FOLLOW_UP_DEPTH } from "../services/followUp.service";
+import { PersonaError, PersonaService } from "../services/persona.service";
+import {
+    AUDIO_FORMATS,
+    MAX_AUDIO_MB,
+    SpeechService,
+    TranscriptionError,
+} from "../services/speech.service";
 import { aiLimiter } from "../middleware/rateLimiter";
+import { llmQuota } from "../middleware/llmQuota";
 import {
     validateQuestionGeneration,
     validateFeedbackGeneration,
+    validateAudioFeedback,
+    validateJobDescriptionQuestions,
+    validateFollowUpGeneration,
     validateUserId,
+    validate,
 } from "../middleware/validators";
+import { DEFAULT_LOCALE, isSupportedLocale, normalizeLocale, type Locale } from "../utils/locale";
 import logger from "../utils/logger";
+import { initSSE, sendEvent, endSSE } from "../utils/sse";
 
 const router = express.Router();
 
@@ -29,11 +57,155 @@ const getDBService = () => {
     return dbService;
 };
 
+// Load the user's resume when personalization is requested. A missing resume or an
+// unavailable database just means the questions aren't personalized.
+const loadResume = async (userId: unknown, useResume: unknown) => {
+    if (!useResume || !userId) {
+        return null;
+    }
+    try {
+        return await ResumeService.getResume(Number(userId));
+    } catch (dbError) {
+        console.error("Database error (non-fatal):", dbError);
+        return null;
+    }
+};
+
+const audioUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_AUDIO_MB * 1024 * 1024 },
+    fileFilter: (req, file, cb) => {
+        cb(null, SpeechService.isSupportedFile(file.originalname));
+    },
+});
+
+// Turn multer errors (e.g. file too large) into 400s instead of the generic 500 handler
+const handleAudioUpload = (req: Request, res: Response, next: NextFunction) => {
+    audioUpload.single("audio")(req, res, (err: unknown) => {
+        if (err) {
+            return res.status(400).json({
+                error: "Invalid upload",
+                message: err instanceof Error ? err.message : "Unknown error",
+            });
+        }
+        next();
+    });
+};
+
+// Score an answer's feedback and persist it
+const saveFeedback = async (
+    body: {
+        question: string;
+        answer: string;
+        userId: number;
+        interviewId: number;
+        questionId?: string;
+        timeSpent?: number;
+    },
+    feedback: FeedbackResult,
+    followUp: FollowUp | null = null,
+    extra: Partial<NewAnswer> = {}
+) => {
+    return getDBService().saveAnswer({
+        userId: body.userId,
+        interviewId: body.interviewId,
+        // Follow-up answers get a derived question ID so they never count as the root answer
+        questionId: followUp ? `followup-${followUp.id}` : body.questionId!,
+        question: followUp ? followUp.question : body.question,
+        answer: body.answer,
+        followUpId: followUp?.id,
+        ...toAnswerScores(feedback),
+        timeSpent: body.timeSpent,
+        ...extra,
+    });
+};
+
+// Answers to a follow-up carry its ID; make sure it belongs to the interview being answered
+const resolveFollowUp = async (body: { followUpId?: unknown; interviewId: unknown }) =>
+    body.followUpId
+        ? FollowUpService.getFollowUp(Number(body.followUpId), Number(body.interviewId))
+        : null;
+
+// Language for a request: the requested locale, else the user's. A missing user or database
+// means English.
+const resolveLocale = async (requested: unknown, userId: unknown): Promise<Locale> => {
+    try {
+        return await getDBService().resolveLocale(requested, Number(userId));
+    } catch (error) {
+        logger.warn("Could not load user locale, using default", {
+            error: error instanceof Error ? error.message : error,
+        });
+        return isSupportedLocale(requested) ? requested : DEFAULT_LOCALE;
+    }
+};
+
+// Ensemble size from the user's grading setting, the feedback language (the requested locale,
+// else the interview's, else the user's) and the interview's persona. A missing user or
+// database means one neutral grading.
+const loadGradingOptions = async (body: {
+    userId: unknown;
+    interviewId?: unknown;
+    locale?: unknown;
+}): Promise<GradingOptions> => {
+    const requested = isSupportedLocale(body.locale) ? body.locale : undefined;
+    try {
+        const [user, interview] = await Promise.all([
+            getDBService().getUserById(Number(body.userId)),
+            Number.isInteger(Number(body.interviewId))
+                ? getDBService().getInterview(Number(body.interviewId))
+                : null,
+        ]);
+        return {
+            samples: user?.gradingSamples || 1,
+            userId: user?.id,
+            locale: requested || normalizeLocale(interview?.locale || user?.locale),
+            persona: PersonaService.forInterview(interview),
+        };
+    } catch (error) {
+        logger.warn("Could not load grading settings, grading once", {
+            error: error instanceof Error ? error.message : error,
+        });
+        return {
+            samples: 1,
+            userId: Number(body.userId) || undefined,
+            locale: requested || DEFAULT_LOCALE,
+        };
+    }
+};
+
+// Pick the grading rubric: an explicit questionType, else the type stored with the interview
+// question (the root question for follow-ups), else a guess from the wording
+const resolveQuestionType = async (
+    body: { question: string; questionId?: string; interviewId: unknown; questionType?: string },
+    followUp: FollowUp | null
+): Promise<QuestionType> => {
+    if (body.questionType && body.questionType in RUBRICS) {
+        return body.questionType as QuestionType;
+    }
+
+    let interviewQuestions: unknown;
+    try {
+        interviewQuestions = (await getDBService().getInterview(Number(body.interviewId)))
+            ?.questions;
+    } catch (error) {
+        logger.warn("Could not load interview questions for rubric selection", {
+            error: error instanceof Error ? error.message : error,
+        });
+    }
+
+    return RubricService.resolveQuestionType(
+        body.question,
+        followUp ? followUp.rootQuestionId : body.questionId,
+        interviewQuestions
+    );
+};
+
 // Generate interview questions
 router.post(
     "/generate-questions",
     aiLimiter,
     validateQuestionGeneration,
+    llmQuota("generate-questions"),
     async (req: Request, res: Response) => {
         try {
             const {
@@ -44,6 +216,7 @@ router.post(
                 difficulty,
                 numberOfQuestions,
                 questionType,
+                useResume,
             } = req.body;
 
             logger.info("Generating questions", { jobRole, company, userId, difficulty });
@@ -70,14 +243,20 @@ router.post(
                     ? questionType
                     : "all";
 
-            const questions = await getAIService().generateQuestions(
-                jobRole,
-                company,
-                experience || "mid-level",
-                validDifficulty,
-                validNumberOfQuestions,
-                validQuestionType
-            );
+            const persona = await PersonaService.resolve(req.body.persona, Number(userId));
+            const resume = await loadResume(userId, useResume);
+            const locale = await resolveLocale(req.body.locale, userId);
+
+            const { questions, source, filteredRepeats, prompt } =
+                await getAIService().generateQuestions(
+                    jobRole,
+                    company,
+                    experience || "mid-level",
+                    validDifficulty,
+                    validNumberOfQuestions,
+                    validQuestionType,
+                    { resume, userId: Number(userId) || undefined, locale, persona }
+                );
 
             // Try to create a new interview session in the database
             let interviewId: string | number = `temp-${Date.now()}`;
@@ -87,7 +266,8 @@ router.post(
                     jobRole,
                     company,
                     experience || "mid-level",
-                    questions
+                    questions,
+                    { resumeId: resume?.id, prompt, locale, persona }
                 );
                 interviewId = interview.id;
             } catch (dbError) {
@@ -98,11 +278,19 @@ router.post(
             res.json({
                 success: true,
                 questions,
+                source,
+                personalized: !!resume,
+                filteredRepeats,
                 interviewId,
                 jobRole,
                 company,
+                locale,
+                persona,
             });
         } catch (error) {
+            if (error instanceof PersonaError) {
+                return res.status(error.status).json({ error: error.message });
+            }
             logger.error("Error in generate-questions:", error);
             res.status(500).json({
                 error: "Failed to generate questions",
@@ -112,54 +300,242 @@ router.post(
     }
 );
 
+// Stream interview questions as Server-Sent Events
+router.post(
+    "/generate-questions/stream",
+    aiLimiter,
+    validateQuestionGeneration,
+    llmQuota("generate-questions/stream"),
+    async (req: Request, res: Response) => {
+        const {
+            jobRole,
+            company,
+            experience,
+            userId,
+            difficulty,
+            numberOfQuestions,
+            questionType,
+            useResume,
+        } = req.body;
+
+        if (!jobRole || !company || !userId) {
+            return res.status(400).json({
+                error: "Job role, company, and user ID are required",
+            });
+        }
+
+        const validDifficulty =
+            difficulty === "easy" || difficulty === "medium" || difficulty === "hard"
+                ? difficulty
+                : "medium";
+
+        const validNumberOfQuestions =
+            numberOfQuestions && [5, 10, 15, 20].includes(numberOfQuestions)
+                ? numberOfQuestions
+                : 5;
+
+        const validQuestionType =
+            questionType && ["behavioral", "technical", "situational", "all"].includes(questionType)
+                ? questionType
+                : "all";
+
+        // Resolved before the stream opens so an unknown persona is still a plain 4xx
+        let persona: InterviewerPersona | null;
+        try {
+            persona = await PersonaService.resolve(req.body.persona, Number(userId));
+        } catch (error) {
+            if (error instanceof PersonaError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error in generate-questions/stream:", error);
+            return res.status(500).json({
+                error: "Failed to generate questions",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+
+        initSSE(res);
+
+        try {
+            logger.info("Streaming questions", { jobRole, company, userId, difficulty });
+
+            const resume = await loadResume(userId, useResume);
+            const locale = await resolveLocale(req.body.locale, userId);
+
+            const { questions, source, filteredRepeats, prompt } =
+                await getAIService().streamQuestions(
+                    jobRole,
+                    company,
+                    experience || "mid-level",
+                    validDifficulty,
+                    validNumberOfQuestions,
+                    validQuestionType,
+                    (question, index) => sendEvent(res, "question", { index, question }),
+                    { resume, userId: Number(userId) || undefined, locale, persona }
+                );
+
+            let interviewId: string | number = `temp-${Date.now()}`;
+            try {
+                const interview = await getDBService().createInterview(
+                    userId,
+                    jobRole,
+                    company,
+                    experience || "mid-level",
+                    questions,
+                    { resumeId: resume?.id, prompt, locale, persona }
+                );
+                interviewId = interview.id;
+            } catch (dbError) {
+                console.error("Database error (non-fatal):", dbError);
+            }
+
+            sendEvent(res, "done", {
+                success: true,
+                interviewId,
+                source,
+                personalized: !!resume,
+                filteredRepeats,
+                count: questions.length,
+                jobRole,
+                company,
+                locale,
+                persona,
+            });
+        } catch (error) {
+            logger.error("Error in generate-questions/stream:", error);
+            sendEvent(res, "error", {
+                error: "Failed to generate questions",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            endSSE(res);
+        }
+    }
+);
+
+// Generate questions mapped to the requirements of a pasted job description
+router.post(
+    "/generate-questions/from-job-description",
+    aiLimiter,
+    validateJobDescriptionQuestions,
+    llmQuota("generate-questions/from-job-description"),
+    async (req: Request, res: Response) => {
+        try {
+            const { jobDescription, userId, difficulty, numberOfQuestions } = req.body;
+
+            const validDifficulty =
+                difficulty === "easy" || difficulty === "medium" || difficulty === "hard"
+                    ? difficulty
+                    : "medium";
+
+            const validNumberOfQuestions =
+                numberOfQuestions && [5, 10, 15, 20].includes(numberOfQuestions)
+                    ? numberOfQuestions
+                    : 5;
+
+            logger.info("Generating questions from job description", { userId });
+
+            const persona = await PersonaService.resolve(req.body.persona, Number(userId));
+            const { targetJob } = await JobDescriptionService.createTargetJob(
+                userId,
+                jobDescription
+            );
+
+            const locale = await resolveLocale(req.body.locale, userId);
+            const { questions, source, prompt } = await getAIService().generateQuestionsForJob(
+                targetJob,
+                validDifficulty,
+                validNumberOfQuestions,
+                locale,
+                persona
+            );
+
+            const interview = await getDBService().createInterview(
+                userId,
+                targetJob.title,
+                targetJob.company || "Unknown",
+                targetJob.seniority || "mid-level",
+                questions,
+                {
+                    difficulty: validDifficulty,
+                    targetJobId: targetJob.id,
+                    prompt,
+                    locale,
+                    persona,
+                }
+            );
+
+            res.json({
+                success: true,
+                questions,
+                source,
+                interviewId: interview.id,
+                locale,
+                persona,
+                targetJob: {
+                    id: targetJob.id,
+                    title: targetJob.title,
+                    company: targetJob.company,
+                    seniority: targetJob.seniority,
+                    senioritySignals: targetJob.senioritySignals,
+                    skills: targetJob.skills,
+                    responsibilities: targetJob.responsibilities,
+                },
+            });
+        } catch (error) {
+            if (error instanceof PersonaError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error in generate-questions/from-job-description:", error);
+            res.status(500).json({
+                error: "Failed to generate questions from job description",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
 // Generate feedback for an answer and save it
 router.post(
     "/generate-feedback",
     aiLimiter,
     validateFeedbackGeneration,
+    llmQuota("generate-feedback"),
     async (req: Request, res: Response) => {
         try {
-            const { question, answer, userId, interviewId, questionId, timeSpent } = req.body;
+            const { question, answer, userId, interviewId, questionId, followUpId } = req.body;
 
-            if (!question || !answer || !userId || !interviewId || !questionId) {
+            if (!question || !answer || !userId || !interviewId || !(questionId || followUpId)) {
                 return res.status(400).json({
-                    error: "Question, answer, userId, interviewId, and questionId are required",
+                    error: "Question, answer, userId, interviewId, and questionId (or followUpId) are required",
                 });
             }
 
-            // 1. Get feedback from AI
-            const feedback = await feedbackService.generateFeedback(question, answer);
+            const followUp = await resolveFollowUp(req.body);
+            const questionType = await resolveQuestionType(req.body, followUp);
+            const grading = await loadGradingOptions(req.body);
 
-            // 2. Calculate overall score
-            const overallScore =
-                (feedback.relevanceScore +
-                    feedback.clarityScore +
-                    feedback.depthScore +
-                    feedback.starMethodScore) /
-                4;
-
-            // 3. Save the answer and feedback to the database
-            const savedAnswer = await getDBService().saveAnswer({
-                userId,
-                interviewId,
-                questionId,
+            // 1. Get feedback from AI, graded with the rubric for the question type
+            const feedback = await feedbackService.generateFeedback(
                 question,
                 answer,
-                relevanceScore: feedback.relevanceScore,
-                clarityScore: feedback.clarityScore,
-                depthScore: feedback.depthScore,
-                overallScore: overallScore,
-                strengths: feedback.overallFeedback ? [feedback.overallFeedback] : [],
-                improvements: feedback.suggestion ? [feedback.suggestion] : [],
-                starMethodScore: { overall: feedback.starMethodScore },
-                timeSpent,
-            });
+                questionType,
+                grading
+            );
+
+            // 2. Save the answer and feedback to the database
+            const savedAnswer = await saveFeedback(req.body, feedback, followUp);
 
             res.json({
                 success: true,
                 feedback: savedAnswer,
+                source: feedback.source,
+                grading: feedback.grading ?? null,
             });
         } catch (error) {
+            if (error instanceof FollowUpError) {
+                return res.status(error.status).json({ error: error.message });
+            }
             console.error("Error in generate-feedback:", error);
             res.status(500).json({
                 error: "Failed to generate and save feedback",
@@ -169,6 +545,191 @@ router.post(
     }
 );
 
+// Stream feedback sections as Server-Sent Events, then save the answer
+router.post(
+    "/generate-feedback/stream",
+    aiLimiter,
+    validateFeedbackGeneration,
+    llmQuota("generate-feedback/stream"),
+    async (req: Request, res: Response) => {
+        const { question, answer, userId, interviewId, questionId, followUpId } = req.body;
+
+        if (!question || !answer || !userId || !interviewId || !(questionId || followUpId)) {
+            return res.status(400).json({
+                error: "Question, answer, userId, interviewId, and questionId (or followUpId) are required",
+            });
+        }
+
+        let followUp: FollowUp | null;
+        let questionType: QuestionType;
+        let grading: GradingOptions;
+        try {
+            followUp = await resolveFollowUp(req.body);
+            questionType = await resolveQuestionType(req.body, followUp);
+            grading = await loadGradingOptions(req.body);
+        } catch (error) {
+            if (error instanceof FollowUpError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error in generate-feedback/stream:", error);
+            return res.status(500).json({
+                error: "Failed to generate and save feedback",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+
+        initSSE(res);
+
+        try {
+            const feedback = await feedbackService.streamFeedback(
+                question,
+                answer,
+                (key, value) => sendEvent(res, "section", { key, value }),
+                questionType,
+                grading
+            );
+
+            const savedAnswer = await saveFeedback(req.body, feedback, followUp);
+
+            sendEvent(res, "done", {
+                success: true,
+                feedback: savedAnswer,
+                source: feedback.source,
+                grading: feedback.grading ?? null,
+            });
+        } catch (error) {
+            console.error("Error in generate-feedback/stream:", error);
+            sendEvent(res, "error", {
+                error: "Failed to generate and save feedback",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            endSSE(res);
+        }
+    }
+);
+
+// Transcribe a spoken answer, grade the transcript like a typed answer and save it with the
+// recording and word timings
+router.post(
+    "/generate-feedback/audio",
+    aiLimiter,
+    handleAudioUpload,
+    validateAudioFeedback,
+    llmQuota("generate-feedback/audio"),
+    async (req: Request, res: Response) => {
+        let audioRef: string | null = null;
+        try {
+            if (!req.file) {
+                return res.status(400).json({
+                    error: `An audio file (${Object.keys(AUDIO_FORMATS).join(", ")}) is required`,
+                });
+            }
+            if (!req.body.questionId && !req.body.followUpId) {
+                return res.status(400).json({ error: "questionId or followUpId is required" });
+            }
+
+            const userId = Number(req.body.userId);
+            const followUp = await resolveFollowUp(req.body);
+            const questionType = await resolveQuestionType(req.body, followUp);
+            const grading = await loadGradingOptions(req.body);
+
+            audioRef = await SpeechService.saveRecording(
+                userId,
+                req.file.buffer,
+                req.file.originalname
+            );
+            const transcription = await SpeechService.transcribe(
+                req.file.buffer,
+                req.file.originalname,
+                req.file.mimetype,
+                grading.locale
+            );
+
+            const feedback = await feedbackService.generateFeedback(
+                req.body.question,
+                transcription.text,
+                questionType,
+                grading
+            );
+
+            const savedAnswer = await saveFeedback(
+                {
+                    ...req.body,
+                    userId,
+                    interviewId: Number(req.body.interviewId),
+                    answer: transcription.text,
+                    // Without a reported time, the recording's length is the time spent
+                    timeSpent: req.body.timeSpent
+                        ? Number(req.body.timeSpent)
+                        : Math.round(transcription.durationSeconds),
+                },
+                feedback,
+                followUp,
+                {
+                    audioRef,
+                    transcript: transcription.text,
+                    wordTimings: transcription.words,
+                    audioDuration: transcription.durationSeconds,
+                }
+            );
+
+            res.json({
+                success: true,
+                feedback: savedAnswer,
+                source: feedback.source,
+                grading: feedback.grading ?? null,
+                transcription: {
+                    text: transcription.text,
+                    words: transcription.words,
+                    durationSeconds: transcription.durationSeconds,
+                    provider: transcription.provider,
+                },
+            });
+        } catch (error) {
+            // Nothing references a recording whose answer wasn't saved
+            if (audioRef) {
+                await SpeechService.deleteRecording(audioRef).catch(() => undefined);
+            }
+            if (error instanceof FollowUpError || error instanceof TranscriptionError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error in generate-feedback/audio:", error);
+            res.status(500).json({
+                error: "Failed to transcribe and grade answer",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+// Play back the recording of a spoken answer
+router.get(
+    "/answers/:answerId/audio",
+    [
+        param("answerId").isInt({ min: 1 }).withMessage("Invalid answer ID").toInt(),
+        query("userId").isInt({ min: 1 }).withMessage("Valid user ID is required").toInt(),
+        validate,
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            const answer = await getDBService().getAnswer(Number(req.params.answerId));
+            if (!answer || answer.userId !== Number(req.query.userId) || !answer.audioRef) {
+                return res.status(404).json({ error: "Recording not found" });
+            }
+
+            const audio = await SpeechService.readRecording(answer.audioRef);
+            res.type(SpeechService.contentType(answer.audioRef)).send(audio);
+        } catch (error) {
+            logger.error("Error fetching recording:", error);
+            res.status(500).json({
+                error: "Failed to fetch recording",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
 // Get user statistics
 router.get("/user-stats/:userId", async (req, res) => {
     try {
@@ -231,35 +792,153 @@ router.get("/interview-details/:interviewId", async (req, res) => {
     }
 });
 
-// Generate a follow-up question
-router.post("/generate-follow-up", async (req, res) => {
+// Get job-description coverage for an interview
+router.get("/interview-details/:interviewId/coverage", async (req, res) => {
     try {
-        const { originalQuestion, answer } = req.body;
+        const interviewId = parseInt(req.params.interviewId, 10);
+        if (isNaN(interviewId)) {
+            return res.status(400).json({ error: "Invalid interview ID" });
+        }
 
-        if (!originalQuestion || !answer) {
-            return res.status(400).json({
-                error: "Original question and answer are required",
+        const coverage = await getDBService().getJobCoverage(interviewId);
+
+        if (!coverage) {
+            return res.status(404).json({
+                error: "No job description linked to this interview",
             });
         }
 
-        const followUpQuestion = await getAIService().generateFollowUpQuestion(
-            originalQuestion,
-            answer
-        );
-
-        res.json({
-            success: true,
-            followUpQuestion,
-        });
+        res.json({ success: true, coverage });
     } catch (error) {
-        console.error("Error generating follow-up question:", error);
+        console.error("Error fetching job coverage:", error);
         res.status(500).json({
-            error: "Failed to generate follow-up question",
+            error: "Failed to fetch job coverage",
             message: error instanceof Error ? error.message : "Unknown error",
         });
     }
 });
 
+// Generate a follow-up question
+router.post(
+    "/generate-follow-up",
+    aiLimiter,
+    validateFollowUpGeneration,
+    llmQuota("generate-follow-up"),
+    async (req: Request, res: Response) => {
+        try {
+            const { userId, useResume, interviewId, parentAnswerId } = req.body;
+            const resume = await loadResume(userId, useResume);
+
+            // Without a parent answer this is a one-off follow-up that isn't saved
+            if (!parentAnswerId) {
+                const followUpQuestion = await getAIService().generateFollowUpQuestion(
+                    req.body.originalQuestion,
+                    req.body.answer,
+                    {
+                        resume,
+                        userId: Number(userId) || undefined,
+                        locale: await resolveLocale(req.body.locale, userId),
+                        persona: await PersonaService.resolve(req.body.persona, Number(userId)),
+                    }
+                );
+
+                return res.json({
+                    success: true,
+                    followUpQuestion,
+                });
+            }
+
+            const { parent, depth, rootQuestionId, history } =
+                await FollowUpService.prepareFollowUp(Number(interviewId), Number(parentAnswerId));
+
+            // The chain continues in the language the parent answer was graded in, with the
+            // interview's interviewer
+            const interview = await getDBService().getInterview(parent.interviewId);
+            const followUpQuestion = await getAIService().generateFollowUpQuestion(
+                parent.question,
+                parent.answer,
+                {
+                    resume,
+                    history,
+                    depth,
+                    userId: parent.userId,
+                    locale: isSupportedLocale(req.body.locale)
+                        ? req.body.locale
+                        : normalizeLocale(parent.locale),
+                    persona: PersonaService.forInterview(interview),
+                }
+            );
+
+            const followUp = await FollowUpService.createFollowUp({
+                interviewId: parent.interviewId,
+                parentAnswerId: parent.id,
+                rootQuestionId,
+                depth,
+                question: followUpQuestion,
+            });
+
+            res.json({
+                success: true,
+                followUpQuestion,
+                followUp,
+                depth,
+                maxDepth: MAX_FOLLOW_UP_DEPTH,
+                canFollowUpAgain: depth < MAX_FOLLOW_UP_DEPTH,
+            });
+        } catch (error) {
+            if (error instanceof FollowUpError || error instanceof PersonaError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            console.error("Error generating follow-up question:", error);
+            res.status(500).json({
+                error: "Failed to generate follow-up question",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+// Rate the feedback given for an answer, 1-5. Ratings are compared across prompt versions.
+router.post(
+    "/answers/:answerId/rating",
+    [
+        param("answerId").isInt({ min: 1 }).withMessage("Invalid answer ID").toInt(),
+        body("userId").isInt({ min: 1 }).withMessage("Valid user ID is required").toInt(),
+        body("rating")
+            .isInt({ min: 1, max: 5 })
+            .withMessage("Rating must be between 1 and 5")
+            .toInt(),
+        validate,
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            const answer = await getDBService().rateAnswer(
+                Number(req.params.answerId),
+                req.body.userId,
+                req.body.rating
+            );
+            if (!answer) {
+                return res.status(404).json({ error: "Answer not found" });
+            }
+
+            res.json({
+                success: true,
+                answerId: answer.id,
+                rating: answer.userRating,
+                prompt: answer.promptId
+                    ? { id: answer.promptId, version: answer.promptVersion }
+                    : null,
+            });
+        } catch (error) {
+            logger.error("Error rating answer:", error);
+            res.status(500).json({
+                error: "Failed to rate answer",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
 // Get detailed analytics for a user
 router.get("/analytics/:userId", async (req, res) => {
     try {
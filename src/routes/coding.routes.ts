@@ -0,0 +1,226 @@
+import express, { Request, Response } from "express";
+import { body, param, query } from "express-validator";
+import { localeValidator, personaValidator, validate } from "../middleware/validators";
+import { aiLimiter } from "../middleware/rateLimiter";
+import { llmQuota } from "../middleware/llmQuota";
+import { DatabaseService } from "../services/database.service";
+import { CodingError, CodingService } from "../services/coding.service";
+import { feedbackService, toAnswerScores } from "../services/feedback.service";
+import { PersonaError, PersonaService } from "../services/persona.service";
+import type { CodeLanguage, Difficulty, Question } from "../schemas/ai.schema";
+import { normalizeLocale } from "../utils/locale";
+import logger from "../utils/logger";
+
+const router = express.Router();
+
+// Lazy initialization of services to ensure env vars are loaded
+let dbService: DatabaseService | null = null;
+const getDBService = () => {
+    if (!dbService) {
+        dbService = new DatabaseService();
+    }
+    return dbService;
+};
+
+// Longest submission accepted, in characters
+const MAX_CODE_LENGTH = 20000;
+
+/**
+ * GET /api/coding-interviews/problems
+ * Problem catalog with statements, signatures and visible examples
+ */
+router.get(
+    "/problems",
+    [
+        query("difficulty")
+            .optional()
+            .isIn(["easy", "medium", "hard"])
+            .withMessage("Difficulty must be easy, medium, or hard"),
+        validate,
+    ],
+    (req: Request, res: Response) => {
+        const problems = CodingService.listProblems(req.query.difficulty as Difficulty | undefined);
+        res.json({ success: true, count: problems.length, problems });
+    }
+);
+
+/**
+ * POST /api/coding-interviews
+ * Start a coding interview with the named problems, or random ones at a difficulty
+ */
+router.post(
+    "/",
+    [
+        body("userId").isInt({ min: 1 }).withMessage("User ID must be a positive integer"),
+        body("jobRole")
+            .optional()
+            .trim()
+            .isLength({ min: 2, max: 100 })
+            .withMessage("Job role must be between 2 and 100 characters"),
+        body("company")
+            .optional()
+            .trim()
+            .isLength({ min: 2, max: 100 })
+            .withMessage("Company must be between 2 and 100 characters"),
+        body("experience")
+            .optional()
+            .isIn(["entry-level", "mid-level", "senior", "lead"])
+            .withMessage("Invalid experience level"),
+        body("difficulty")
+            .optional()
+            .isIn(["easy", "medium", "hard"])
+            .withMessage("Difficulty must be easy, medium, or hard"),
+        body("problems")
+            .optional()
+            .isArray({ min: 1, max: 5 })
+            .withMessage("Problems must be a list of 1 to 5 problem slugs"),
+        body("problems.*").isString().withMessage("Problem slugs must be strings"),
+        body("count")
+            .optional()
+            .isInt({ min: 1, max: 5 })
+            .withMessage("Count must be between 1 and 5"),
+        localeValidator(),
+        personaValidator(),
+        validate,
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            const { jobRole, company, experience, difficulty, problems, count } = req.body;
+            const questions = CodingService.pickProblems({
+                slugs: problems,
+                difficulty,
+                count: count ? parseInt(count, 10) : 1,
+            }).map((problem) => CodingService.toQuestion(problem));
+
+            const userId = parseInt(req.body.userId, 10);
+            const persona = await PersonaService.resolve(req.body.persona, userId);
+            const interview = await getDBService().createInterview(
+                userId,
+                jobRole || "Software Engineer",
+                company || "Practice",
+                experience || "mid-level",
+                questions,
+                {
+                    difficulty: difficulty || questions[0].difficulty,
+                    mode: "coding",
+                    locale: await getDBService().resolveLocale(req.body.locale, userId),
+                    persona,
+                }
+            );
+
+            res.status(201).json({ success: true, interviewId: interview.id, questions, persona });
+        } catch (error) {
+            if (error instanceof CodingError || error instanceof PersonaError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error starting coding interview:", error);
+            res.status(500).json({
+                error: "Failed to start coding interview",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/coding-interviews/:interviewId/submissions
+ * Run a solution against the problem's tests in the sandbox, have the AI review its complexity
+ * and style, and store the combined result as the answer
+ */
+router.post(
+    "/:interviewId/submissions",
+    aiLimiter,
+    [
+        param("interviewId")
+            .isInt({ min: 1 })
+            .withMessage("Interview ID must be a positive integer"),
+        body("questionId").isString().notEmpty().withMessage("Question ID is required"),
+        body("code")
+            .isString()
+            .isLength({ min: 1, max: MAX_CODE_LENGTH })
+            .withMessage(`Code must be between 1 and ${MAX_CODE_LENGTH} characters`),
+        body("language")
+            .optional()
+            .isIn(["javascript", "typescript"])
+            .withMessage("Language must be javascript or typescript"),
+        body("timeSpent").optional().isInt({ min: 0 }).withMessage("Time spent must be seconds"),
+        validate,
+    ],
+    llmQuota("coding-interviews/submissions", async (req) => {
+        const interview = await getDBService().getInterview(Number(req.params.interviewId));
+        return interview?.userId ?? null;
+    }),
+    async (req: Request, res: Response) => {
+        try {
+            const interview = await getDBService().getInterview(
+                parseInt(req.params.interviewId, 10)
+            );
+            if (!interview) {
+                return res.status(404).json({ error: "Interview not found" });
+            }
+            if (interview.mode !== "coding") {
+                return res.status(400).json({ error: "Interview is not a coding interview" });
+            }
+
+            const { questionId, code } = req.body;
+            const language: CodeLanguage = req.body.language || "javascript";
+            const question = ((interview.questions as Question[]) || []).find(
+                (q) => q.id === questionId
+            );
+            const problem = question?.coding && CodingService.getProblem(question.coding.problem);
+            if (!problem) {
+                return res.status(404).json({ error: "Coding question not found in interview" });
+            }
+
+            const run = await CodingService.runSubmission(problem, code, language);
+            const reviewQuestion = CodingService.reviewQuestion(problem, language, run);
+
+            const user = await getDBService().getUserById(interview.userId);
+            const feedback = CodingService.applyTestResults(
+                await feedbackService.generateFeedback(reviewQuestion, code, "coding", {
+                    samples: user?.gradingSamples || 1,
+                    userId: interview.userId,
+                    locale: normalizeLocale(interview.locale),
+                    persona: PersonaService.forInterview(interview),
+                }),
+                run
+            );
+
+            const savedAnswer = await getDBService().saveAnswer({
+                userId: interview.userId,
+                interviewId: interview.id,
+                questionId,
+                question: reviewQuestion,
+                answer: code,
+                codeLanguage: language,
+                testResults: run,
+                timeSpent: req.body.timeSpent,
+                ...toAnswerScores(feedback),
+            });
+
+            logger.info("Coding submission graded", {
+                interviewId: interview.id,
+                problem: problem.slug,
+                status: run.status,
+                passed: run.passed,
+                total: run.total,
+            });
+
+            res.json({
+                success: true,
+                answer: savedAnswer,
+                tests: run,
+                source: feedback.source,
+                grading: feedback.grading ?? null,
+            });
+        } catch (error) {
+            logger.error("Error grading coding submission:", error);
+            res.status(500).json({
+                error: "Failed to grade submission",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+export default router;
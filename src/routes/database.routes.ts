@@ -1,8 +1,13 @@
 import express from "express";
 import { AIService } from "../services/ai.service";
 import { DatabaseService } from "../services/database.service";
-import { feedbackService } from "../services/feedback.service";
+import { feedbackService, toAnswerScores } from "../services/feedback.service";
+import { RubricService } from "../services/rubric.service";
+import { PersonaError, PersonaService } from "../services/persona.service";
+import { llmQuota } from "../middleware/llmQuota";
 import { extractUserFromRequest } from "../utils/auth.utils";
+import type { User } from "../db/schema";
+import { isSupportedLocale, normalizeLocale } from "../utils/locale";
 
 const router = express.Router();
 
@@ -34,8 +39,19 @@ const requireAuth = (req: any, res: any, next: any) => {
     next();
 };
 
+// These routes identify users by email, from the auth header or the body's `userId`
+const userFromEmail = async (req: any) => {
+    const email = req.user?.email || req.body?.userId;
+    if (!email) return null;
+    const user = await getDBService().getUserByEmail(email);
+    return user?.id ?? null;
+};
+
+const questionsQuota = llmQuota("db/generate-questions", userFromEmail);
+const responseQuota = llmQuota("db/interviews/response", userFromEmail);
+
 // Generate and save interview questions
-router.post("/generate-questions", async (req, res) => {
+router.post("/generate-questions", questionsQuota, async (req, res) => {
     try {
         const { jobRole, company, userId, difficulty, numberOfQuestions, questionType } = req.body;
 
@@ -60,67 +76,98 @@ router.post("/generate-questions", async (req, res) => {
                 ? questionType
                 : "all";
 
-        const questions = await getAIService().generateQuestions(
-            jobRole,
-            company,
-            experience,
-            validDifficulty,
-            validNumberOfQuestions,
-            validQuestionType
-        );
+        // Look up the user first so generation can skip questions they already practiced
+        let user: User | null = null;
+        let dbError: unknown;
+        if (userId) {
+            try {
+                user = await getDBService().getUserByEmail(userId); // userId is actually email
+            } catch (error) {
+                dbError = error;
+            }
+        }
+
+        const locale = isSupportedLocale(req.body.locale)
+            ? req.body.locale
+            : normalizeLocale(user?.locale);
+        // Custom personas belong to a user, so without one only the built-ins resolve
+        const persona = await PersonaService.resolve(req.body.persona, user?.id ?? 0);
+
+        const { questions, source, filteredRepeats, prompt } =
+            await getAIService().generateQuestions(
+                jobRole,
+                company,
+                experience,
+                validDifficulty,
+                validNumberOfQuestions,
+                validQuestionType,
+                { userId: user?.id, locale, persona }
+            );
+
+        const offline = () =>
+            res.json({
+                success: true,
+                questions,
+                source,
+                filteredRepeats,
+                jobRole,
+                company,
+                saved: false,
+                message:
+                    "Questions generated successfully (database unavailable - working in offline mode)",
+            });
 
         // If user is authenticated, try to save to database
         if (userId) {
-            try {
-                // First, get the user by email to get their numeric ID
-                const user = await getDBService().getUserByEmail(userId); // userId is actually email
+            if (dbError) {
+                console.error("Database connection failed, continuing without saving:", dbError);
+                // Still return questions even if database fails
+                return offline();
+            }
 
-                if (user) {
+            if (user) {
+                try {
                     // Create an interview with the generated questions
                     const interview = await getDBService().createInterview(
                         user.id,
                         jobRole,
                         company,
                         experience,
-                        questions
+                        questions,
+                        { prompt, locale, persona }
                     );
 
                     res.json({
                         success: true,
                         questions,
+                        source,
+                        filteredRepeats,
                         jobRole,
                         company,
                         interviewId: interview.id,
                         saved: true,
                         message: "Questions generated and saved successfully",
                     });
-                } else {
-                    res.json({
-                        success: true,
-                        questions,
-                        jobRole,
-                        company,
-                        saved: false,
-                        message: "Questions generated successfully (user not found in database)",
-                    });
+                } catch (error) {
+                    console.error("Database connection failed, continuing without saving:", error);
+                    offline();
                 }
-            } catch (dbError) {
-                console.error("Database connection failed, continuing without saving:", dbError);
-                // Still return questions even if database fails
+            } else {
                 res.json({
                     success: true,
                     questions,
+                    source,
                     jobRole,
                     company,
                     saved: false,
-                    message:
-                        "Questions generated successfully (database unavailable - working in offline mode)",
+                    message: "Questions generated successfully (user not found in database)",
                 });
             }
         } else {
             res.json({
                 success: true,
                 questions,
+                source,
                 jobRole,
                 company,
                 saved: false,
@@ -128,6 +175,9 @@ router.post("/generate-questions", async (req, res) => {
             });
         }
     } catch (error) {
+        if (error instanceof PersonaError) {
+            return res.status(error.status).json({ error: error.message });
+        }
         console.error("Error in generate-questions:", error);
         res.status(500).json({
             error: "Failed to generate questions",
@@ -251,7 +301,7 @@ router.post("/interviews/start", requireAuth, async (req: any, res) => {
 });
 
 // Submit interview response
-router.post("/interviews/:id/response", requireAuth, async (req: any, res) => {
+router.post("/interviews/:id/response", requireAuth, responseQuota, async (req: any, res) => {
     try {
         const { id: interviewId } = req.params;
         const { questionId, answer, question, userId } = req.body;
@@ -262,16 +312,19 @@ router.post("/interviews/:id/response", requireAuth, async (req: any, res) => {
             return res.status(404).json({ error: "User not found" });
         }
 
-        // Generate AI feedback
-        const feedback = await feedbackService.generateFeedback(question, answer);
-
-        // Calculate overall score
-        const overallScore =
-            (feedback.relevanceScore +
-                feedback.clarityScore +
-                feedback.depthScore +
-                feedback.starMethodScore) /
-            4;
+        // Generate AI feedback, graded with the rubric for the question's type
+        const interview = await getDBService().getInterview(parseInt(interviewId));
+        const questionType = RubricService.resolveQuestionType(
+            question,
+            questionId,
+            interview?.questions
+        );
+        const feedback = await feedbackService.generateFeedback(question, answer, questionType, {
+            samples: user.gradingSamples || 1,
+            userId: user.id,
+            locale: normalizeLocale(interview?.locale || user.locale),
+            persona: PersonaService.forInterview(interview),
+        });
 
         // Save response
         const savedAnswer = await getDBService().saveAnswer({
@@ -280,18 +333,14 @@ router.post("/interviews/:id/response", requireAuth, async (req: any, res) => {
             questionId,
             question,
             answer,
-            relevanceScore: feedback.relevanceScore,
-            clarityScore: feedback.clarityScore,
-            depthScore: feedback.depthScore,
-            overallScore: overallScore,
-            strengths: feedback.overallFeedback ? [feedback.overallFeedback] : [],
-            improvements: feedback.suggestion ? [feedback.suggestion] : [],
-            starMethodScore: { overall: feedback.starMethodScore },
+            ...toAnswerScores(feedback),
         });
 
         res.json({
             success: true,
             feedback: savedAnswer,
+            source: feedback.source,
+            grading: feedback.grading ?? null,
         });
     } catch (error) {
         console.error("Error saving interview response:", error);
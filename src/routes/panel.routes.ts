@@ -0,0 +1,397 @@
+import express, { Request, Response } from "express";
+import { body, param } from "express-validator";
+import { localeValidator, personaValidator, validate } from "../middleware/validators";
+import { aiLimiter } from "../middleware/rateLimiter";
+import { llmQuota } from "../middleware/llmQuota";
+import { AIService } from "../services/ai.service";
+import { DatabaseService } from "../services/database.service";
+import { feedbackService, toAnswerScores } from "../services/feedback.service";
+import { PersonaError, PersonaService } from "../services/persona.service";
+import {
+    MAX_PANELISTS,
+    MIN_PANELISTS,
+    PanelError,
+    PanelService,
+    type PanelSeat,
+} from "../services/panel.service";
+import { PANEL_FOCUSES } from "../data/panelFocuses";
+import type { Difficulty, Question, QuestionType } from "../schemas/ai.schema";
+import type { PromptRef } from "../prompts";
+import { normalizeLocale } from "../utils/locale";
+import logger from "../utils/logger";
+
+const router = express.Router();
+
+// Lazy initialization of services to ensure env vars are loaded
+let aiService: AIService | null = null;
+const getAIService = () => {
+    if (!aiService) {
+        aiService = new AIService();
+    }
+    return aiService;
+};
+
+let dbService: DatabaseService | null = null;
+const getDBService = () => {
+    if (!dbService) {
+        dbService = new DatabaseService();
+    }
+    return dbService;
+};
+
+const DEFAULT_QUESTIONS_PER_PANELIST = 2;
+
+const loadPanelInterview = async (req: Request, res: Response) => {
+    const interview = await getDBService().getInterview(parseInt(req.params.interviewId, 10));
+    if (!interview) {
+        res.status(404).json({ error: "Interview not found" });
+        return null;
+    }
+    if (interview.mode !== "panel") {
+        res.status(400).json({ error: "Interview is not a panel interview" });
+        return null;
+    }
+    return interview;
+};
+
+/**
+ * GET /api/panel-interviews/focuses
+ * Seats a panel can have, with the persona that fills each by default
+ */
+router.get("/focuses", (req: Request, res: Response) => {
+    res.json({
+        success: true,
+        focuses: PANEL_FOCUSES.map(({ key, label, questionType, defaultPersona, weights }) => ({
+            key,
+            label,
+            questionType,
+            defaultPersona,
+            weights,
+        })),
+        minPanelists: MIN_PANELISTS,
+        maxPanelists: MAX_PANELISTS,
+    });
+});
+
+/**
+ * POST /api/panel-interviews
+ * Start a panel session. `panel` lists the seats in turn order, each with a focus and an
+ * optional persona key; every panelist writes their own questions and they take turns asking.
+ */
+router.post(
+    "/",
+    aiLimiter,
+    [
+        body("userId").isInt({ min: 1 }).withMessage("User ID must be a positive integer"),
+        body("jobRole")
+            .trim()
+            .isLength({ min: 2, max: 100 })
+            .withMessage("Job role must be between 2 and 100 characters"),
+        body("company")
+            .trim()
+            .isLength({ min: 2, max: 100 })
+            .withMessage("Company must be between 2 and 100 characters"),
+        body("experience")
+            .optional()
+            .isIn(["entry-level", "mid-level", "senior", "lead"])
+            .withMessage("Invalid experience level"),
+        body("difficulty")
+            .optional()
+            .isIn(["easy", "medium", "hard"])
+            .withMessage("Difficulty must be easy, medium, or hard"),
+        body("panel")
+            .isArray({ min: MIN_PANELISTS, max: MAX_PANELISTS })
+            .withMessage(`Panel must have between ${MIN_PANELISTS} and ${MAX_PANELISTS} panelists`),
+        body("panel.*.focus")
+            .isIn(PANEL_FOCUSES.map((focus) => focus.key))
+            .withMessage(
+                `Focus must be one of: ${PANEL_FOCUSES.map((focus) => focus.key).join(", ")}`
+            ),
+        personaValidator("panel.*.persona"),
+        body("questionsPerPanelist")
+            .optional()
+            .isInt({ min: 1, max: 3 })
+            .withMessage("Questions per panelist must be between 1 and 3"),
+        localeValidator(),
+        validate,
+    ],
+    llmQuota("panel-interviews"),
+    async (req: Request, res: Response) => {
+        try {
+            const { jobRole, company, experience, difficulty } = req.body;
+            const userId = parseInt(req.body.userId, 10);
+            const perPanelist = req.body.questionsPerPanelist
+                ? parseInt(req.body.questionsPerPanelist, 10)
+                : DEFAULT_QUESTIONS_PER_PANELIST;
+
+            const seats: PanelSeat[] = [];
+            for (const seat of req.body.panel as { focus: string; persona?: string }[]) {
+                const focus = PanelService.getFocus(seat.focus)!;
+                seats.push({
+                    focus,
+                    persona:
+                        (await PersonaService.resolve(seat.persona, userId)) ||
+                        PanelService.defaultPersona(focus),
+                });
+            }
+            const locale = await getDBService().resolveLocale(req.body.locale, userId);
+
+            // One panelist at a time, so later panelists don't repeat earlier ones' questions
+            const perSeat: Question[][] = [];
+            const asked: string[] = [];
+            let prompt: PromptRef | undefined;
+            for (const seat of seats) {
+                const generated = await getAIService().generateQuestions(
+                    jobRole,
+                    company,
+                    experience || "mid-level",
+                    (difficulty as Difficulty) || "medium",
+                    perPanelist,
+                    seat.focus.questionType,
+                    {
+                        userId,
+                        avoidQuestions: asked,
+                        locale,
+                        persona: PanelService.panelistPersona({
+                            focus: seat.focus.key,
+                            persona: seat.persona,
+                        }),
+                    }
+                );
+                const questions = generated.questions.slice(0, perPanelist);
+                if (questions.length === 0) {
+                    throw new Error(
+                        `No questions could be generated for the ${seat.focus.label} seat`
+                    );
+                }
+                perSeat.push(questions);
+                asked.push(...questions.map((q) => q.question));
+                prompt = prompt ?? generated.prompt;
+            }
+
+            const { questions, questionIds } = PanelService.interleave(perSeat);
+            const interview = await getDBService().createInterview(
+                userId,
+                jobRole,
+                company,
+                experience || "mid-level",
+                questions,
+                { difficulty: difficulty || "medium", mode: "panel", prompt, locale }
+            );
+            const panel = await PanelService.createPanel(interview.id, seats, questionIds);
+
+            logger.info("Panel interview started", {
+                interviewId: interview.id,
+                focuses: seats.map((seat) => seat.focus.key),
+                questions: questions.length,
+            });
+
+            res.status(201).json({
+                success: true,
+                interviewId: interview.id,
+                panel: PanelService.describe(panel),
+                turns: PanelService.turns(interview, panel),
+                next: PanelService.nextTurn(interview, panel, []),
+            });
+        } catch (error) {
+            if (error instanceof PersonaError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error starting panel interview:", error);
+            res.status(500).json({
+                error: "Failed to start panel interview",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * GET /api/panel-interviews/:interviewId
+ * The panel, its turns, the next question and, once recorded, the debrief
+ */
+router.get(
+    "/:interviewId",
+    [
+        param("interviewId")
+            .isInt({ min: 1 })
+            .withMessage("Interview ID must be a positive integer"),
+        validate,
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            const interview = await loadPanelInterview(req, res);
+            if (!interview) return;
+
+            const [panel, answers] = await Promise.all([
+                PanelService.getPanel(interview.id),
+                getDBService().getAnswersForInterview(interview.id),
+            ]);
+
+            res.json({
+                success: true,
+                interviewId: interview.id,
+                status: interview.status,
+                panel: PanelService.describe(panel),
+                turns: PanelService.turns(interview, panel),
+                next: PanelService.nextTurn(interview, panel, answers),
+                debrief: interview.status === "completed" ? interview.feedback : null,
+            });
+        } catch (error) {
+            logger.error("Error fetching panel interview:", error);
+            res.status(500).json({
+                error: "Failed to fetch panel interview",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/panel-interviews/:interviewId/answers
+ * Answer a panel question. Every panelist grades the answer independently; the answer is
+ * stored with the grading of the panelist who asked it. Resubmitting a question replaces its
+ * answer in the debrief.
+ */
+router.post(
+    "/:interviewId/answers",
+    aiLimiter,
+    [
+        param("interviewId")
+            .isInt({ min: 1 })
+            .withMessage("Interview ID must be a positive integer"),
+        body("questionId").isString().notEmpty().withMessage("Question ID is required"),
+        body("answer")
+            .trim()
+            .notEmpty()
+            .withMessage("Answer is required")
+            .isLength({ min: 10, max: 5000 })
+            .withMessage("Answer must be between 10 and 5000 characters"),
+        body("timeSpent").optional().isInt({ min: 0 }).withMessage("Time spent must be seconds"),
+        validate,
+    ],
+    llmQuota("panel-interviews/answers", async (req) => {
+        const interview = await getDBService().getInterview(Number(req.params.interviewId));
+        return interview?.userId ?? null;
+    }),
+    async (req: Request, res: Response) => {
+        try {
+            const interview = await loadPanelInterview(req, res);
+            if (!interview) return;
+
+            const { questionId, answer } = req.body;
+            const question = ((interview.questions as Question[]) || []).find(
+                (q) => q.id === questionId
+            );
+            const panel = await PanelService.getPanel(interview.id);
+            const asker = question && PanelService.askedBy(panel, question.id);
+            if (!question || !asker) {
+                return res.status(404).json({ error: "Question not found in interview" });
+            }
+
+            const user = await getDBService().getUserById(interview.userId);
+            const locale = normalizeLocale(interview.locale);
+            // The panel is its own ensemble: only the asking panelist uses the user's
+            // grading samples setting
+            const gradings = await Promise.all(
+                panel.map(async (panelist) => ({
+                    panelist,
+                    feedback: await feedbackService.generateFeedback(
+                        question.question,
+                        answer,
+                        question.type as QuestionType,
+                        {
+                            samples: panelist.id === asker.id ? user?.gradingSamples || 1 : 1,
+                            userId: interview.userId,
+                            locale,
+                            persona: PanelService.panelistPersona(panelist),
+                        }
+                    ),
+                }))
+            );
+            const askerFeedback = gradings.find((g) => g.panelist.id === asker.id)!.feedback;
+            // If any panelist couldn't grade with the AI, the answer waits for a regrade,
+            // which regrades every panelist's score
+            const anyFallback = gradings.some((g) => g.feedback.source === "fallback");
+
+            const savedAnswer = await getDBService().saveAnswer({
+                userId: interview.userId,
+                interviewId: interview.id,
+                questionId,
+                question: question.question,
+                answer,
+                timeSpent: req.body.timeSpent,
+                ...toAnswerScores(askerFeedback),
+                ...(anyFallback && { gradingStatus: "pending_regrade" }),
+            });
+            const scores = await PanelService.recordScores(savedAnswer.id, gradings);
+
+            const answers = await getDBService().getAnswersForInterview(interview.id);
+
+            res.json({
+                success: true,
+                answer: savedAnswer,
+                source: askerFeedback.source,
+                panelScores: scores.map((score) => ({
+                    panelistId: score.panelistId,
+                    overallScore: score.overallScore,
+                    focusScore: score.focusScore,
+                    strengths: score.strengths,
+                    improvements: score.improvements,
+                    overallFeedback: score.overallFeedback,
+                    scoredBy: score.scoredBy,
+                })),
+                next: PanelService.nextTurn(interview, panel, answers),
+            });
+        } catch (error) {
+            logger.error("Error grading panel answer:", error);
+            res.status(500).json({
+                error: "Failed to grade answer",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/panel-interviews/:interviewId/debrief
+ * End the session: each panelist votes on the answers given and the votes are combined into a
+ * hire/no-hire recommendation with reasons. Asking again recomputes it.
+ */
+router.post(
+    "/:interviewId/debrief",
+    [
+        param("interviewId")
+            .isInt({ min: 1 })
+            .withMessage("Interview ID must be a positive integer"),
+        validate,
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            const interview = await loadPanelInterview(req, res);
+            if (!interview) return;
+
+            const [panel, answers] = await Promise.all([
+                PanelService.getPanel(interview.id),
+                getDBService().getAnswersForInterview(interview.id),
+            ]);
+            const scores = await PanelService.getScores(answers.map((answer) => answer.id));
+
+            const debrief = PanelService.buildDebrief(interview, panel, answers, scores);
+            await PanelService.saveDebrief(interview, debrief);
+
+            res.json({ success: true, debrief });
+        } catch (error) {
+            if (error instanceof PanelError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error building panel debrief:", error);
+            res.status(500).json({
+                error: "Failed to build debrief",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+export default router;
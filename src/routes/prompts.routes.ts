@@ -0,0 +1,38 @@
+import express, { Request, Response } from "express";
+import { requireAdmin } from "../middleware/adminAuth";
+import { PromptStatsService } from "../services/promptStats.service";
+import { PROMPT_EXPERIMENTS, getPrompt, listPrompts } from "../prompts";
+import logger from "../utils/logger";
+
+const router = express.Router();
+
+router.use(requireAdmin);
+
+// List registered prompt versions and the experiments between them
+router.get("/", (req: Request, res: Response) => {
+    res.json({
+        success: true,
+        prompts: listPrompts().map(({ id, version }) => ({
+            id,
+            version,
+            description: getPrompt(id, version).description,
+        })),
+        experiments: PROMPT_EXPERIMENTS,
+    });
+});
+
+// Compare prompt versions: volume, average scores and user ratings
+router.get("/stats", async (req: Request, res: Response) => {
+    try {
+        const stats = await PromptStatsService.getStats();
+        res.json({ success: true, stats, experiments: PROMPT_EXPERIMENTS });
+    } catch (error) {
+        logger.error("Error fetching prompt stats:", error);
+        res.status(500).json({
+            error: "Failed to fetch prompt stats",
+            message: error instanceof Error ? error.message : "Unknown error",
+        });
+    }
+});
+
+export default router;
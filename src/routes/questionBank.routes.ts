@@ -0,0 +1,210 @@
+import express, { Request, Response } from "express";
+import { body, param, query } from "express-validator";
+import { validate } from "../middleware/validators";
+import { requireAdmin } from "../middleware/adminAuth";
+import { QuestionBankError, QuestionBankService } from "../services/questionBank.service";
+import type { NewQuestionBankEntry } from "../db/schema";
+import { DEFAULT_LOCALE, isSupportedLocale } from "../utils/locale";
+import logger from "../utils/logger";
+
+const router = express.Router();
+
+router.use(requireAdmin);
+
+const entryValidators = (optional: boolean) => {
+    const field = (name: string) => (optional ? body(name).optional() : body(name));
+    return [
+        field("slug")
+            .trim()
+            .matches(/^[a-z0-9-]{3,64}$/)
+            .withMessage("Slug must be 3-64 lowercase letters, digits or dashes"),
+        field("question")
+            .trim()
+            .isLength({ min: 5, max: 1000 })
+            .withMessage("Question must be between 5 and 1000 characters"),
+        field("type")
+            .isIn(["behavioral", "technical", "situational"])
+            .withMessage("Invalid question type"),
+        field("difficulty")
+            .isIn(["easy", "medium", "hard"])
+            .withMessage("Difficulty must be easy, medium, or hard"),
+        field("category").trim().notEmpty().withMessage("Category is required"),
+        body("roles").optional().isArray().withMessage("Roles must be an array"),
+        body("roles.*").isString().withMessage("Roles must be strings"),
+        body("companies").optional().isArray().withMessage("Companies must be an array"),
+        body("companies.*").isString().withMessage("Companies must be strings"),
+        body("isActive").optional().isBoolean().withMessage("isActive must be a boolean"),
+        body("translations")
+            .optional()
+            .isObject()
+            .custom((translations: Record<string, unknown>) =>
+                Object.entries(translations).every(
+                    ([locale, text]) =>
+                        isSupportedLocale(locale) &&
+                        locale !== DEFAULT_LOCALE &&
+                        typeof text === "string" &&
+                        text.trim().length >= 5
+                )
+            )
+            .withMessage("Translations must map supported non-English locales to question text"),
+    ];
+};
+
+const ENTRY_FIELDS = [
+    "slug",
+    "question",
+    "type",
+    "difficulty",
+    "category",
+    "roles",
+    "companies",
+    "translations",
+    "isActive",
+] as const satisfies readonly (keyof NewQuestionBankEntry)[];
+
+type EntryFields = Pick<NewQuestionBankEntry, (typeof ENTRY_FIELDS)[number]>;
+
+// The writable fields present in a validated request body
+const pickEntryFields = (input: Record<string, unknown>): Partial<EntryFields> =>
+    Object.fromEntries(
+        Object.entries(input).filter(([key]) => (ENTRY_FIELDS as readonly string[]).includes(key))
+    );
+
+// A new entry from a request body validated with entryValidators(false), which requires these
+const toNewEntry = (input: Record<string, unknown>): NewQuestionBankEntry => ({
+    ...pickEntryFields(input),
+    slug: String(input.slug),
+    question: String(input.question),
+    type: String(input.type),
+    difficulty: String(input.difficulty),
+    category: String(input.category),
+});
+
+// List question bank entries
+router.get(
+    "/",
+    [
+        query("type").optional().isIn(["behavioral", "technical", "situational"]),
+        query("difficulty").optional().isIn(["easy", "medium", "hard"]),
+        query("category").optional().trim(),
+        query("isActive").optional().isBoolean().toBoolean(),
+        validate,
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            const entries = await QuestionBankService.list({
+                type: req.query.type as string | undefined,
+                difficulty: req.query.difficulty as string | undefined,
+                category: req.query.category as string | undefined,
+                isActive: req.query.isActive as boolean | undefined,
+            });
+
+            res.json({
+                success: true,
+                data: entries,
+                count: entries.length,
+            });
+        } catch (error: any) {
+            logger.error("Error listing question bank:", error);
+            res.status(500).json({
+                success: false,
+                error: error.message || "Failed to list question bank",
+            });
+        }
+    }
+);
+
+// Get a single entry
+router.get(
+    "/:id",
+    [param("id").isInt().withMessage("ID must be an integer"), validate],
+    async (req: Request, res: Response) => {
+        try {
+            const entry = await QuestionBankService.getById(parseInt(req.params.id));
+
+            if (!entry) {
+                return res.status(404).json({ success: false, error: "Question not found" });
+            }
+
+            res.json({ success: true, data: entry });
+        } catch (error: any) {
+            logger.error("Error fetching question bank entry:", error);
+            res.status(500).json({
+                success: false,
+                error: error.message || "Failed to fetch question",
+            });
+        }
+    }
+);
+
+// Create an entry
+router.post("/", [...entryValidators(false), validate], async (req: Request, res: Response) => {
+    try {
+        const entry = await QuestionBankService.create(toNewEntry(req.body));
+
+        res.status(201).json({ success: true, data: entry });
+    } catch (error: any) {
+        if (error instanceof QuestionBankError) {
+            return res.status(error.status).json({ success: false, error: error.message });
+        }
+        logger.error("Error creating question bank entry:", error);
+        res.status(500).json({
+            success: false,
+            error: error.message || "Failed to create question",
+        });
+    }
+});
+
+// Update an entry
+router.put(
+    "/:id",
+    [param("id").isInt().withMessage("ID must be an integer"), ...entryValidators(true), validate],
+    async (req: Request, res: Response) => {
+        try {
+            const entry = await QuestionBankService.update(
+                parseInt(req.params.id),
+                pickEntryFields(req.body)
+            );
+
+            if (!entry) {
+                return res.status(404).json({ success: false, error: "Question not found" });
+            }
+
+            res.json({ success: true, data: entry });
+        } catch (error: any) {
+            if (error instanceof QuestionBankError) {
+                return res.status(error.status).json({ success: false, error: error.message });
+            }
+            logger.error("Error updating question bank entry:", error);
+            res.status(500).json({
+                success: false,
+                error: error.message || "Failed to update question",
+            });
+        }
+    }
+);
+
+// Delete an entry
+router.delete(
+    "/:id",
+    [param("id").isInt().withMessage("ID must be an integer"), validate],
+    async (req: Request, res: Response) => {
+        try {
+            const deleted = await QuestionBankService.remove(parseInt(req.params.id));
+
+            if (!deleted) {
+                return res.status(404).json({ success: false, error: "Question not found" });
+            }
+
+            res.json({ success: true, message: "Question deleted successfully" });
+        } catch (error: any) {
+            logger.error("Error deleting question bank entry:", error);
+            res.status(500).json({
+                success: false,
+                error: error.message || "Failed to delete question",
+            });
+        }
+    }
+);
+
+export default router;
@@ -0,0 +1,166 @@
+import express, { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { body } from "express-validator";
+import { validate, validateUserId } from "../middleware/validators";
+import { llmQuota } from "../middleware/llmQuota";
+import { ResumeService, type ResumeFormat } from "../services/resume.service";
+import logger from "../utils/logger";
+
+const router = express.Router();
+
+const ALLOWED_EXTENSIONS = /\.(pdf|md|markdown|txt)$/i;
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 5 * 1024 * 1024 }, // 5MB
+    fileFilter: (req, file, cb) => {
+        cb(null, ALLOWED_EXTENSIONS.test(file.originalname));
+    },
+});
+
+// Turn multer errors (e.g. file too large) into 400s instead of the generic 500 handler
+const handleUpload = (req: Request, res: Response, next: NextFunction) => {
+    upload.single("file")(req, res, (err: unknown) => {
+        if (err) {
+            return res.status(400).json({
+                error: "Invalid upload",
+                message: err instanceof Error ? err.message : "Unknown error",
+            });
+        }
+        next();
+    });
+};
+
+/**
+ * POST /api/resume
+ * Upload a resume as a file (PDF, Markdown or plain text) or as a `text` field
+ */
+router.post(
+    "/",
+    handleUpload,
+    [
+        body("userId").isInt({ min: 1 }).withMessage("User ID must be a positive integer"),
+        body("text")
+            .optional()
+            .isLength({ min: 50, max: 50000 })
+            .withMessage("Resume text must be between 50 and 50000 characters"),
+        body("format")
+            .optional()
+            .isIn(["text", "markdown"])
+            .withMessage("Format must be text or markdown"),
+        validate,
+    ],
+    llmQuota("resume"),
+    async (req: Request, res: Response) => {
+        try {
+            const userId = parseInt(req.body.userId, 10);
+
+            let extracted: { text: string; format: ResumeFormat };
+            if (req.file) {
+                extracted = await ResumeService.extractText(
+                    req.file.buffer,
+                    req.file.originalname,
+                    req.file.mimetype
+                );
+            } else if (req.body.text) {
+                extracted = await ResumeService.extractText(
+                    Buffer.from(req.body.text, "utf8"),
+                    req.body.format === "markdown" ? "resume.md" : "resume.txt"
+                );
+            } else {
+                return res.status(400).json({
+                    error: "A resume file (.pdf, .md, .txt) or text is required",
+                });
+            }
+
+            if (extracted.text.length < 50) {
+                return res.status(400).json({
+                    error: "Could not extract enough text from the resume",
+                });
+            }
+
+            const { resume, source } = await ResumeService.saveResume(userId, {
+                ...extracted,
+                fileName: req.file?.originalname,
+            });
+
+            res.json({
+                success: true,
+                data: {
+                    id: resume.id,
+                    fileName: resume.fileName,
+                    format: resume.format,
+                    profile: resume.profile,
+                    updatedAt: resume.updatedAt,
+                },
+                source,
+            });
+        } catch (error) {
+            logger.error("Error uploading resume:", error);
+            res.status(500).json({
+                error: "Failed to process resume",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * GET /api/resume/:userId
+ * Get the stored resume profile
+ */
+router.get("/:userId", validateUserId, async (req: Request, res: Response) => {
+    try {
+        const resume = await ResumeService.getResume(parseInt(req.params.userId, 10));
+
+        if (!resume) {
+            return res.status(404).json({ error: "No resume found" });
+        }
+
+        res.json({
+            success: true,
+            data: {
+                id: resume.id,
+                fileName: resume.fileName,
+                format: resume.format,
+                profile: resume.profile,
+                updatedAt: resume.updatedAt,
+            },
+        });
+    } catch (error) {
+        logger.error("Error fetching resume:", error);
+        res.status(500).json({
+            error: "Failed to fetch resume",
+            message: error instanceof Error ? error.message : "Unknown error",
+        });
+    }
+});
+
+/**
+ * DELETE /api/resume/:userId
+ * Delete the stored resume. Question text of interviews personalized from it is redacted;
+ * the answers and their scores are kept. Returns how many rows were redacted
+ */
+router.delete("/:userId", validateUserId, async (req: Request, res: Response) => {
+    try {
+        const redacted = await ResumeService.deleteResume(parseInt(req.params.userId, 10));
+
+        if (!redacted) {
+            return res.status(404).json({ error: "No resume found" });
+        }
+
+        res.json({
+            success: true,
+            message: "Resume deleted and the questions personalized from it redacted",
+            redacted,
+        });
+    } catch (error) {
+        logger.error("Error deleting resume:", error);
+        res.status(500).json({
+            error: "Failed to delete resume",
+            message: error instanceof Error ? error.message : "Unknown error",
+        });
+    }
+});
+
+export default router;
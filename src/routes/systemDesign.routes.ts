@@ -0,0 +1,303 @@
+import express, { Request, Response } from "express";
+import { body, param, query } from "express-validator";
+import { localeValidator, personaValidator, validate } from "../middleware/validators";
+import { aiLimiter } from "../middleware/rateLimiter";
+import { llmQuota } from "../middleware/llmQuota";
+import { DatabaseService } from "../services/database.service";
+import { FollowUpService } from "../services/followUp.service";
+import { PersonaError, PersonaService } from "../services/persona.service";
+import { feedbackService, toAnswerScores } from "../services/feedback.service";
+import {
+    DESIGN_SECTIONS,
+    SystemDesignError,
+    SystemDesignService,
+} from "../services/systemDesign.service";
+import type { Difficulty, Question } from "../schemas/ai.schema";
+import { extractMermaidDiagrams } from "../utils/mermaid";
+import { normalizeLocale } from "../utils/locale";
+import logger from "../utils/logger";
+
+const router = express.Router();
+
+// Lazy initialization of services to ensure env vars are loaded
+let dbService: DatabaseService | null = null;
+const getDBService = () => {
+    if (!dbService) {
+        dbService = new DatabaseService();
+    }
+    return dbService;
+};
+
+const loadDesignInterview = async (req: Request, res: Response) => {
+    const interview = await getDBService().getInterview(parseInt(req.params.interviewId, 10));
+    if (!interview) {
+        res.status(404).json({ error: "Interview not found" });
+        return null;
+    }
+    if (interview.mode !== "system-design") {
+        res.status(400).json({ error: "Interview is not a system-design interview" });
+        return null;
+    }
+    return interview;
+};
+
+/**
+ * GET /api/system-design-interviews/problems
+ * Design problems to choose from, and the sections every answer is split into
+ */
+router.get(
+    "/problems",
+    [
+        query("difficulty")
+            .optional()
+            .isIn(["easy", "medium", "hard"])
+            .withMessage("Difficulty must be easy, medium, or hard"),
+        validate,
+    ],
+    (req: Request, res: Response) => {
+        const problems = SystemDesignService.listProblems(
+            req.query.difficulty as Difficulty | undefined
+        );
+        res.json({ success: true, count: problems.length, problems, sections: DESIGN_SECTIONS });
+    }
+);
+
+/**
+ * POST /api/system-design-interviews
+ * Start a system-design session on a catalog problem or the candidate's own prompt
+ */
+router.post(
+    "/",
+    [
+        body("userId").isInt({ min: 1 }).withMessage("User ID must be a positive integer"),
+        body("problem").optional().isString().withMessage("Problem must be a problem slug"),
+        body("prompt")
+            .optional()
+            .trim()
+            .isLength({ min: 20, max: 1000 })
+            .withMessage("Prompt must be between 20 and 1000 characters"),
+        body("jobRole")
+            .optional()
+            .trim()
+            .isLength({ min: 2, max: 100 })
+            .withMessage("Job role must be between 2 and 100 characters"),
+        body("company")
+            .optional()
+            .trim()
+            .isLength({ min: 2, max: 100 })
+            .withMessage("Company must be between 2 and 100 characters"),
+        body("experience")
+            .optional()
+            .isIn(["entry-level", "mid-level", "senior", "lead"])
+            .withMessage("Invalid experience level"),
+        body("difficulty")
+            .optional()
+            .isIn(["easy", "medium", "hard"])
+            .withMessage("Difficulty must be easy, medium, or hard"),
+        localeValidator(),
+        personaValidator(),
+        validate,
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            const { problem: slug, prompt, jobRole, company, experience, difficulty } = req.body;
+            const userId = parseInt(req.body.userId, 10);
+            const persona = await PersonaService.resolve(req.body.persona, userId);
+
+            let question: Question;
+            if (prompt) {
+                question = SystemDesignService.toQuestion({
+                    prompt,
+                    difficulty: difficulty || "hard",
+                });
+            } else {
+                const pool = slug
+                    ? [SystemDesignService.getProblem(slug)].filter((p) => p !== null)
+                    : SystemDesignService.listProblems(difficulty);
+                if (pool.length === 0) {
+                    throw new SystemDesignError(
+                        slug ? `Unknown design problem: ${slug}` : "No design problems available",
+                        slug ? 400 : 404
+                    );
+                }
+                question = SystemDesignService.toQuestion(
+                    pool[Math.floor(Math.random() * pool.length)]
+                );
+            }
+
+            const interview = await getDBService().createInterview(
+                userId,
+                jobRole || "Software Engineer",
+                company || "Practice",
+                experience || "senior",
+                [question],
+                {
+                    difficulty: question.difficulty,
+                    mode: "system-design",
+                    locale: await getDBService().resolveLocale(req.body.locale, userId),
+                    persona,
+                }
+            );
+
+            res.status(201).json({
+                success: true,
+                interviewId: interview.id,
+                question,
+                sections: DESIGN_SECTIONS,
+                persona,
+            });
+        } catch (error) {
+            if (error instanceof SystemDesignError || error instanceof PersonaError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error starting system-design interview:", error);
+            res.status(500).json({
+                error: "Failed to start system-design interview",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/system-design-interviews/:interviewId/sections/:section
+ * Grade one section of the design with the system-design rubric and ask the interviewer's
+ * follow-up on it. The follow-up is answered through /api/generate-feedback with its ID.
+ * Resubmitting a section replaces it in the report.
+ */
+router.post(
+    "/:interviewId/sections/:section",
+    aiLimiter,
+    [
+        param("interviewId")
+            .isInt({ min: 1 })
+            .withMessage("Interview ID must be a positive integer"),
+        param("section")
+            .isIn(DESIGN_SECTIONS.map((section) => section.key))
+            .withMessage(
+                `Section must be one of: ${DESIGN_SECTIONS.map((section) => section.key).join(", ")}`
+            ),
+        body("answer")
+            .isString()
+            .trim()
+            .isLength({ min: 1, max: 10000 })
+            .withMessage("Answer must be between 1 and 10000 characters"),
+        body("timeSpent").optional().isInt({ min: 0 }).withMessage("Time spent must be seconds"),
+        validate,
+    ],
+    llmQuota("system-design-interviews/sections", async (req) => {
+        const interview = await getDBService().getInterview(Number(req.params.interviewId));
+        return interview?.userId ?? null;
+    }),
+    async (req: Request, res: Response) => {
+        try {
+            const interview = await loadDesignInterview(req, res);
+            if (!interview) return;
+
+            const section = SystemDesignService.getSection(req.params.section)!;
+            const question = (interview.questions as Question[])[0];
+            const { answer } = req.body;
+            const locale = normalizeLocale(interview.locale);
+            const persona = PersonaService.forInterview(interview);
+            const sectionQuestion = SystemDesignService.sectionQuestion(question.question, section);
+
+            const user = await getDBService().getUserById(interview.userId);
+            const feedback = await feedbackService.generateFeedback(
+                sectionQuestion,
+                answer,
+                "system-design",
+                { samples: user?.gradingSamples || 1, userId: interview.userId, locale, persona }
+            );
+
+            const savedAnswer = await getDBService().saveAnswer({
+                userId: interview.userId,
+                interviewId: interview.id,
+                questionId: question.id,
+                question: sectionQuestion,
+                answer,
+                section: section.key,
+                timeSpent: req.body.timeSpent,
+                ...toAnswerScores(feedback),
+            });
+
+            const gaps =
+                feedback.source === "fallback"
+                    ? []
+                    : SystemDesignService.gaps(feedback.criteria, feedback.improvements);
+            const followUpQuestion = await SystemDesignService.generateFollowUp(
+                question.question,
+                section,
+                answer,
+                gaps,
+                interview.userId,
+                locale,
+                persona
+            );
+            const followUp = await FollowUpService.createFollowUp({
+                interviewId: interview.id,
+                parentAnswerId: savedAnswer.id,
+                rootQuestionId: question.id,
+                depth: 1,
+                question: followUpQuestion,
+            });
+
+            res.json({
+                success: true,
+                section: section.key,
+                answer: savedAnswer,
+                source: feedback.source,
+                grading: feedback.grading ?? null,
+                gaps,
+                diagrams: extractMermaidDiagrams(answer).map(({ type, lines }) => ({
+                    type,
+                    lines,
+                })),
+                followUp,
+            });
+        } catch (error) {
+            logger.error("Error grading system-design section:", error);
+            res.status(500).json({
+                error: "Failed to grade section",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * GET /api/system-design-interviews/:interviewId/report
+ * Per-section scores and follow-ups, with a summary of the gaps in the design
+ */
+router.get(
+    "/:interviewId/report",
+    [
+        param("interviewId")
+            .isInt({ min: 1 })
+            .withMessage("Interview ID must be a positive integer"),
+        validate,
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            const interview = await loadDesignInterview(req, res);
+            if (!interview) return;
+
+            const [answers, followUps] = await Promise.all([
+                getDBService().getAnswersForInterview(interview.id),
+                FollowUpService.getFollowUpsForInterview(interview.id),
+            ]);
+
+            res.json({
+                success: true,
+                report: SystemDesignService.buildReport(interview, answers, followUps),
+            });
+        } catch (error) {
+            logger.error("Error building system-design report:", error);
+            res.status(500).json({
+                error: "Failed to build report",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+export default router;
@@ -0,0 +1,295 @@
+import express, { Request, Response } from "express";
+import { body, param } from "express-validator";
+import { validate, validateUserId } from "../middleware/validators";
+import { DatabaseService } from "../services/database.service";
+import { MAX_GRADING_SAMPLES } from "../services/feedback.service";
+import { UsageService } from "../services/usage.service";
+import { RegradeService } from "../services/regrade.service";
+import { PersonaError, PersonaService, type PersonaInput } from "../services/persona.service";
+import { FOLLOW_UP_INTENSITIES } from "../data/personas";
+import type { User } from "../db/schema";
+import { normalizeLocale, SUPPORTED_LOCALES } from "../utils/locale";
+import logger from "../utils/logger";
+
+const router = express.Router();
+
+// Lazy initialization of services to ensure env vars are loaded
+let dbService: DatabaseService | null = null;
+const getDBService = () => {
+    if (!dbService) {
+        dbService = new DatabaseService();
+    }
+    return dbService;
+};
+
+// Longest persona style description, in characters
+const MAX_PERSONA_TEXT = 1000;
+
+const personaBody = [
+    body("name")
+        .isString()
+        .trim()
+        .isLength({ min: 2, max: 60 })
+        .withMessage("Name must be between 2 and 60 characters"),
+    body("description")
+        .optional({ values: "null" })
+        .isString()
+        .trim()
+        .isLength({ max: 200 })
+        .withMessage("Description must be at most 200 characters"),
+    ...(["questionStyle", "followUpStyle", "feedbackTone"] as const).map((field) =>
+        body(field)
+            .isString()
+            .trim()
+            .isLength({ min: 10, max: MAX_PERSONA_TEXT })
+            .withMessage(`${field} must be between 10 and ${MAX_PERSONA_TEXT} characters`)
+    ),
+    body("followUpIntensity")
+        .optional()
+        .isIn(FOLLOW_UP_INTENSITIES)
+        .withMessage(`Follow-up intensity must be one of: ${FOLLOW_UP_INTENSITIES.join(", ")}`),
+    validate,
+];
+
+const validatePersonaId = [
+    param("personaId").isInt({ min: 1 }).withMessage("Persona ID must be a positive integer"),
+    validate,
+];
+
+const toPersonaInput = (body: Request["body"]): PersonaInput => ({
+    name: body.name,
+    description: body.description,
+    questionStyle: body.questionStyle,
+    followUpStyle: body.followUpStyle,
+    followUpIntensity: body.followUpIntensity,
+    feedbackTone: body.feedbackTone,
+});
+
+const toSettings = (user: User) => ({
+    gradingSamples: user.gradingSamples || 1,
+    maxGradingSamples: MAX_GRADING_SAMPLES,
+    locale: normalizeLocale(user.locale),
+    supportedLocales: SUPPORTED_LOCALES,
+});
+
+/**
+ * GET /api/users/:userId/settings
+ */
+router.get("/:userId/settings", validateUserId, async (req: Request, res: Response) => {
+    try {
+        const user = await getDBService().getUserById(parseInt(req.params.userId, 10));
+        if (!user) {
+            return res.status(404).json({ error: "User not found" });
+        }
+
+        res.json({ success: true, settings: toSettings(user) });
+    } catch (error) {
+        logger.error("Error fetching user settings:", error);
+        res.status(500).json({
+            error: "Failed to fetch settings",
+            message: error instanceof Error ? error.message : "Unknown error",
+        });
+    }
+});
+
+/**
+ * PUT /api/users/:userId/settings
+ * `gradingSamples` trades cost for consistency: each answer is graded that many times and
+ * the median scores are kept. `locale` is the language questions and feedback are given in
+ * unless a request asks for another.
+ */
+router.put(
+    "/:userId/settings",
+    validateUserId,
+    [
+        body("gradingSamples")
+            .optional()
+            .isInt({ min: 1, max: MAX_GRADING_SAMPLES })
+            .withMessage(`Grading samples must be between 1 and ${MAX_GRADING_SAMPLES}`)
+            .toInt(),
+        body("locale")
+            .optional()
+            .isIn(SUPPORTED_LOCALES)
+            .withMessage(`Locale must be one of: ${SUPPORTED_LOCALES.join(", ")}`),
+        validate,
+    ],
+    async (req: Request, res: Response) => {
+        try {
+            const user = await getDBService().updateUserSettings(parseInt(req.params.userId, 10), {
+                gradingSamples: req.body.gradingSamples,
+                locale: req.body.locale,
+            });
+            if (!user) {
+                return res.status(404).json({ error: "User not found" });
+            }
+
+            res.json({ success: true, settings: toSettings(user) });
+        } catch (error) {
+            logger.error("Error updating user settings:", error);
+            res.status(500).json({
+                error: "Failed to update settings",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * GET /api/users/:userId/usage
+ * AI requests used against the user's daily and monthly quotas, and this month's calls per
+ * endpoint
+ */
+router.get("/:userId/usage", validateUserId, async (req: Request, res: Response) => {
+    try {
+        const userId = parseInt(req.params.userId, 10);
+        const user = await getDBService().getUserById(userId);
+        if (!user) {
+            return res.status(404).json({ error: "User not found" });
+        }
+
+        const [quota, endpoints] = await Promise.all([
+            UsageService.getQuotaStatus(userId),
+            UsageService.getMonthlyBreakdown(userId),
+        ]);
+
+        res.json({
+            success: true,
+            tier: quota.tier,
+            daily: quota.daily,
+            monthly: quota.monthly,
+            endpoints,
+        });
+    } catch (error) {
+        logger.error("Error fetching usage:", error);
+        res.status(500).json({
+            error: "Failed to fetch usage",
+            message: error instanceof Error ? error.message : "Unknown error",
+        });
+    }
+});
+
+/**
+ * GET /api/users/:userId/regrades
+ * Answers saved while AI grading was unavailable that are still waiting for, or gave up on,
+ * a regrade
+ */
+router.get("/:userId/regrades", validateUserId, async (req: Request, res: Response) => {
+    try {
+        const status = await RegradeService.getStatusForUser(parseInt(req.params.userId, 10));
+        res.json({ success: true, ...status });
+    } catch (error) {
+        logger.error("Error fetching regrade status:", error);
+        res.status(500).json({
+            error: "Failed to fetch regrade status",
+            message: error instanceof Error ? error.message : "Unknown error",
+        });
+    }
+});
+
+/**
+ * GET /api/users/:userId/personas
+ * Interviewer personas the user can pick from: the built-ins and their own. Pass a persona's
+ * key as `persona` when starting an interview.
+ */
+router.get("/:userId/personas", validateUserId, async (req: Request, res: Response) => {
+    try {
+        const personas = await PersonaService.listPersonas(parseInt(req.params.userId, 10));
+        res.json({ success: true, ...personas });
+    } catch (error) {
+        logger.error("Error fetching personas:", error);
+        res.status(500).json({
+            error: "Failed to fetch personas",
+            message: error instanceof Error ? error.message : "Unknown error",
+        });
+    }
+});
+
+/**
+ * POST /api/users/:userId/personas
+ * Create a custom persona
+ */
+router.post(
+    "/:userId/personas",
+    validateUserId,
+    personaBody,
+    async (req: Request, res: Response) => {
+        try {
+            const userId = parseInt(req.params.userId, 10);
+            const user = await getDBService().getUserById(userId);
+            if (!user) {
+                return res.status(404).json({ error: "User not found" });
+            }
+
+            const persona = await PersonaService.createPersona(userId, toPersonaInput(req.body));
+            res.status(201).json({ success: true, persona });
+        } catch (error) {
+            if (error instanceof PersonaError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error creating persona:", error);
+            res.status(500).json({
+                error: "Failed to create persona",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * PUT /api/users/:userId/personas/:personaId
+ * Replace a custom persona. Interviews already held with it keep the old version.
+ */
+router.put(
+    "/:userId/personas/:personaId",
+    validateUserId,
+    validatePersonaId,
+    personaBody,
+    async (req: Request, res: Response) => {
+        try {
+            const persona = await PersonaService.updatePersona(
+                parseInt(req.params.userId, 10),
+                parseInt(req.params.personaId, 10),
+                toPersonaInput(req.body)
+            );
+            res.json({ success: true, persona });
+        } catch (error) {
+            if (error instanceof PersonaError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error updating persona:", error);
+            res.status(500).json({
+                error: "Failed to update persona",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /api/users/:userId/personas/:personaId
+ */
+router.delete(
+    "/:userId/personas/:personaId",
+    validateUserId,
+    validatePersonaId,
+    async (req: Request, res: Response) => {
+        try {
+            await PersonaService.deletePersona(
+                parseInt(req.params.userId, 10),
+                parseInt(req.params.personaId, 10)
+            );
+            res.json({ success: true });
+        } catch (error) {
+            if (error instanceof PersonaError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            logger.error("Error deleting persona:", error);
+            res.status(500).json({
+                error: "Failed to delete persona",
+                message: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
+    }
+);
+
+export default router;
@@ -0,0 +1,119 @@
+import { z } from "zod";
+
+// Where a generated payload came from: parsed as-is, recovered by repair/reprompt, or static fallback
+export type OutputSource = "ai" | "repaired" | "fallback";
+
+export const questionTypeSchema = z.enum([
+    "behavioral",
+    "technical",
+    "situational",
+    "coding",
+    "system-design",
+]);
+export const difficultySchema = z.enum(["easy", "medium", "hard"]);
+export const codeLanguageSchema = z.enum(["javascript", "typescript"]);
+
+// What a candidate sees of a coding problem; its hidden tests stay in the problem catalog
+export const codingSpecSchema = z.object({
+    problem: z.string().min(1), // Catalog slug
+    functionName: z.string().min(1),
+    signatures: z.record(codeLanguageSchema, z.string()),
+    examples: z.array(z.object({ input: z.array(z.unknown()), output: z.unknown() })),
+});
+
+export const questionSchema = z.object({
+    id: z.union([z.string(), z.number()]).transform(String),
+    question: z.string().min(1),
+    type: questionTypeSchema,
+    difficulty: difficultySchema,
+    category: z.string().min(1),
+    // ID of the job-description requirement this question covers (JD-driven interviews only)
+    requirementId: z.string().optional(),
+    // Set for coding questions
+    coding: codingSpecSchema.optional(),
+});
+
+export const questionListSchema = z.array(questionSchema).min(1);
+
+export const experienceLevelSchema = z.enum(["entry-level", "mid-level", "senior", "lead"]);
+
+export const jobExtractionSchema = z.object({
+    title: z.string().min(1),
+    company: z.string().optional(),
+    seniority: experienceLevelSchema,
+    senioritySignals: z.array(z.string()).default([]),
+    skills: z.array(z.string().min(1)).min(1),
+    responsibilities: z.array(z.string().min(1)).default([]),
+});
+
+export const resumeProfileSchema = z.object({
+    name: z.string().optional(),
+    summary: z.string().optional(),
+    roles: z
+        .array(
+            z.object({
+                title: z.string().min(1),
+                company: z.string().min(1),
+                startDate: z.string().optional(),
+                endDate: z.string().optional(), // "present" for the current role
+                highlights: z.array(z.string()).default([]),
+            })
+        )
+        .default([]),
+    projects: z
+        .array(
+            z.object({
+                name: z.string().min(1),
+                description: z.string().default(""),
+                technologies: z.array(z.string()).default([]),
+            })
+        )
+        .default([]),
+    skills: z.array(z.string()).default([]),
+});
+
+const scoreSchema = z.number().min(0).max(10);
+
+// One rubric criterion: a score plus a short quote from the answer that justifies it
+export const criterionScoreSchema = z.object({
+    score: scoreSchema,
+    evidence: z.string().default(""),
+});
+
+// Criteria are keyed by the rubric for the question type; see RubricService
+export const feedbackSchema = z.object({
+    relevanceScore: scoreSchema,
+    clarityScore: scoreSchema,
+    depthScore: scoreSchema,
+    communicationScore: scoreSchema,
+    criteria: z.record(z.string(), criterionScoreSchema),
+    strengths: z.array(z.string()),
+    improvements: z.array(z.string()),
+    // The candidate's answer rewritten as a strong answer, keeping their own details
+    exampleAnswer: z.string(),
+    overallFeedback: z.string(),
+    suggestion: z.string(),
+});
+
+/**
+ * Feedback schema that requires exactly the criteria of one rubric
+ */
+export const feedbackSchemaFor = (criteriaKeys: string[]) =>
+    feedbackSchema.extend({
+        criteria: z.object(
+            Object.fromEntries(criteriaKeys.map((key) => [key, criterionScoreSchema]))
+        ),
+    });
+
+export type Question = z.infer<typeof questionSchema>;
+export type QuestionType = z.infer<typeof questionTypeSchema>;
+// Types the question generator writes; coding and system-design questions come from catalogs
+export type GeneratedQuestionType = Exclude<QuestionType, "coding" | "system-design">;
+export type Difficulty = z.infer<typeof difficultySchema>;
+export type CodeLanguage = z.infer<typeof codeLanguageSchema>;
+export type CodingSpec = z.infer<typeof codingSpecSchema>;
+export type Feedback = z.infer<typeof feedbackSchema>;
+export type CriterionScore = z.infer<typeof criterionScoreSchema>;
+export type ExperienceLevel = z.infer<typeof experienceLevelSchema>;
+export type JobExtraction = z.infer<typeof jobExtractionSchema>;
+export type ResumeProfile = z.infer<typeof resumeProfileSchema>;
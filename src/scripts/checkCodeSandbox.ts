@@ -0,0 +1,131 @@
+// Run known sandbox escapes and resource abuse against the code sandbox and check each one is
+// contained, then check test results reach the grade when the AI reviewer is down.
+//   npm run check:sandbox
+import { runInSandbox, type SandboxResult, type SandboxTest } from "../utils/codeSandbox";
+import { CodingService } from "../services/coding.service";
+import { toAnswerScores, type FeedbackResult } from "../services/feedback.service";
+
+const TESTS: SandboxTest[] = [
+    { name: "visible", args: [1], expected: 2, hidden: false },
+    { name: "hidden", args: [41], expected: 42, hidden: true },
+];
+
+interface SandboxCase {
+    name: string;
+    code: string;
+    // Whether the run's outcome shows the code was contained
+    contained: (result: SandboxResult) => boolean;
+}
+
+// Reads the host name through the host realm's Function if the code ever reaches it
+const ESCAPE_RESULT = `function solve(n) {
+    return globalThis.__escaped === undefined ? n + 1 : globalThis.__escaped;
+}`;
+
+const SANDBOX_CASES: SandboxCase[] = [
+    {
+        name: "honest solution",
+        code: "function solve(n) { return n + 1; }",
+        contained: (result) => result.status === "completed" && result.passed === 2,
+    },
+    {
+        name: "dynamic import error constructor",
+        code: `import("fs").catch((e) => {
+    const p = e.constructor.constructor("return process")();
+    globalThis.__escaped = p.getBuiltinModule("fs").readFileSync("/etc/hostname", "utf8");
+});
+${ESCAPE_RESULT}`,
+        contained: (result) => result.status === "completed" && result.passed === 2,
+    },
+    {
+        name: "dynamic import inside the solution",
+        code: `function solve(n) {
+    import("fs").catch((e) => {
+        globalThis.__escaped = e.constructor.constructor("return process")().pid;
+    });
+    return globalThis.__escaped === undefined ? n + 1 : globalThis.__escaped;
+}`,
+        contained: (result) => result.status === "completed" && result.passed === 2,
+    },
+    {
+        name: "string code generation",
+        code: `function solve(n) { return Function("return n + 1")(); }`,
+        contained: (result) => result.passed === 0,
+    },
+    {
+        name: "infinite loop",
+        code: "function solve(n) { while (true) {} }",
+        contained: (result) => result.passed === 0,
+    },
+    {
+        name: "unbounded allocation",
+        code: "function solve(n) { const a = []; while (true) a.push(new Array(1e6).fill(n)); }",
+        contained: (result) => result.status === "memory_limit" && result.passed === 0,
+    },
+];
+
+// Feedback as the grader returns it with no model available
+const UNSCORED_FEEDBACK: FeedbackResult = {
+    relevanceScore: 0,
+    clarityScore: 0,
+    depthScore: 0,
+    communicationScore: 0,
+    criteria: {
+        correctness: { score: 0, evidence: "" },
+        complexity: { score: 0, evidence: "" },
+    },
+    strengths: [],
+    improvements: [],
+    exampleAnswer: "",
+    overallFeedback: "",
+    suggestion: "",
+    source: "fallback",
+    rubric: "coding",
+    overallScore: 0,
+    prompt: { id: "feedback", version: "v1" },
+    scoredBy: null,
+    suspectedInjection: false,
+    injectionSignals: [],
+    locale: "en",
+};
+
+// The pass rate is measured without the model, so fallback grading must still store it
+async function checkFallbackGrading(failures: string[]) {
+    const run = await runInSandbox("function solve(n) { return n === 1 ? 2 : 0; }", "solve", TESTS);
+    const feedback = CodingService.applyTestResults(UNSCORED_FEEDBACK, run);
+    const stored = toAnswerScores(feedback).rubricScores as FeedbackResult["criteria"] | null;
+
+    if (stored?.correctness?.score !== 5 || Object.keys(stored).length !== 1) {
+        failures.push(`fallback grading: stored criteria ${JSON.stringify(stored)}`);
+    }
+}
+
+async function main() {
+    const failures: string[] = [];
+
+    for (const sandboxCase of SANDBOX_CASES) {
+        const result = await runInSandbox(sandboxCase.code, "solve", TESTS);
+        if (!sandboxCase.contained(result)) {
+            failures.push(
+                `${sandboxCase.name}: ${result.status}, ${result.passed}/${result.total} passed${result.error ? ` (${result.error})` : ""}`
+            );
+        }
+    }
+
+    await checkFallbackGrading(failures);
+
+    if (failures.length > 0) {
+        console.error(`❌ ${failures.length} sandbox check(s) failed:`);
+        failures.forEach((failure) => console.error(`   - ${failure}`));
+        process.exit(1);
+    }
+    console.log(
+        `✅ Code sandbox: ${SANDBOX_CASES.length} cases contained, fallback grading keeps test results`
+    );
+    process.exit(0);
+}
+
+main().catch((error) => {
+    console.error("❌ Sandbox check failed:", error);
+    process.exit(1);
+});
@@ -0,0 +1,76 @@
+// Run the prompt-injection regression corpus against the detector, the prompt delimiters and
+// the score cap.
+//   npm run check:injection
+// Grades with the stub provider unless LLM_PROVIDER is set, so it runs offline.
+import dotenv from "dotenv";
+dotenv.config();
+process.env.LLM_PROVIDER = process.env.LLM_PROVIDER || "stub";
+
+import { INJECTION_CORPUS } from "../data/injectionCorpus";
+import { detectInjection } from "../utils/promptInjection";
+import { getPrompt } from "../prompts";
+import { feedbackService, INJECTION_SCORE_CAP } from "../services/feedback.service";
+import { RubricService } from "../services/rubric.service";
+
+async function main() {
+    const failures: string[] = [];
+
+    for (const testCase of INJECTION_CORPUS) {
+        const check = detectInjection(testCase.answer);
+        if (check.suspected !== testCase.attack) {
+            failures.push(
+                `${testCase.name}: expected ${testCase.attack ? "flagged" : "not flagged"}, signals [${check.signals.join(", ")}]`
+            );
+        }
+
+        // The answer must stay inside exactly one delimited block in every feedback prompt
+        const questionType = RubricService.resolveQuestionType(testCase.question);
+        for (const version of ["v1", "v2"]) {
+            const prompt = getPrompt("feedback", version).render({
+                question: testCase.question,
+                answer: testCase.answer,
+                questionType,
+                rubricDescription: RubricService.describeForPrompt(questionType),
+                criteriaKeys: RubricService.criteriaKeys(questionType),
+            });
+            const closings = prompt.match(/<\/candidate_answer>/g)?.length || 0;
+            if (closings !== 1) {
+                failures.push(
+                    `${testCase.name}: feedback ${version} has ${closings} answer blocks`
+                );
+            }
+        }
+
+        if (testCase.attack) {
+            const feedback = await feedbackService.generateFeedback(
+                testCase.question,
+                testCase.answer,
+                questionType
+            );
+            const scores = [
+                feedback.relevanceScore,
+                feedback.clarityScore,
+                feedback.depthScore,
+                feedback.communicationScore,
+                feedback.overallScore,
+                ...Object.values(feedback.criteria).map((criterion) => criterion.score),
+            ];
+            if (!feedback.suspectedInjection || scores.some((s) => s > INJECTION_SCORE_CAP)) {
+                failures.push(`${testCase.name}: scores not capped at ${INJECTION_SCORE_CAP}`);
+            }
+        }
+    }
+
+    if (failures.length > 0) {
+        console.error(`❌ ${failures.length} injection check(s) failed:`);
+        failures.forEach((failure) => console.error(`   - ${failure}`));
+        process.exit(1);
+    }
+    console.log(`✅ Injection corpus: ${INJECTION_CORPUS.length} cases passed`);
+    process.exit(0);
+}
+
+main().catch((error) => {
+    console.error("❌ Injection check failed:", error);
+    process.exit(1);
+});
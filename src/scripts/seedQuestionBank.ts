@@ -0,0 +1,46 @@
+// Seed or import the question bank.
+//   npm run seed:questions                  -> built-in questions
+//   npm run seed:questions -- --file x.json -> JSON array of entries (upserted by slug)
+import dotenv from "dotenv";
+dotenv.config();
+
+import fs from "fs";
+import path from "path";
+import { QuestionBankService } from "../services/questionBank.service";
+import { QUESTION_BANK_SEED } from "../data/questionBank.seed";
+import type { NewQuestionBankEntry } from "../db/schema";
+
+const REQUIRED_FIELDS = ["slug", "question", "type", "difficulty", "category"] as const;
+
+function loadEntries(): NewQuestionBankEntry[] {
+    const fileFlag = process.argv.indexOf("--file");
+    if (fileFlag === -1) {
+        return QUESTION_BANK_SEED;
+    }
+
+    const filePath = path.resolve(process.argv[fileFlag + 1] || "");
+    const entries = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    if (!Array.isArray(entries)) {
+        throw new Error(`${filePath} must contain a JSON array of questions`);
+    }
+
+    entries.forEach((entry, i) => {
+        const missing = REQUIRED_FIELDS.filter((field) => !entry[field]);
+        if (missing.length > 0) {
+            throw new Error(`Entry ${i} is missing: ${missing.join(", ")}`);
+        }
+    });
+    return entries;
+}
+
+async function main() {
+    const entries = loadEntries();
+    const { inserted, updated } = await QuestionBankService.importEntries(entries);
+    console.log(`✅ Question bank: ${inserted} inserted, ${updated} updated`);
+    process.exit(0);
+}
+
+main().catch((error) => {
+    console.error("❌ Question bank import failed:", error);
+    process.exit(1);
+});
@@ -0,0 +1,265 @@
+import { db } from "../lib/db";
+import { interviews, type Answer, type Interview } from "../db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import type { Difficulty, GeneratedQuestionType, Question } from "../schemas/ai.schema";
+import type { PromptRef } from "../prompts";
+
+const LEVELS: Difficulty[] = ["easy", "medium", "hard"];
+const TYPES: GeneratedQuestionType[] = ["behavioral", "technical", "situational"];
+
+// Blended answer score (0-10) at or above which the candidate moves up a level
+const STEP_UP_SCORE = 7;
+// Blended answer score below which the candidate moves down a level
+const STEP_DOWN_SCORE = 5;
+// Level changes in opposite directions before the ceiling counts as found
+const REVERSALS_TO_CONVERGE = 2;
+
+export const DEFAULT_ADAPTIVE_QUESTIONS = 10;
+
+// One adaptation decision, stored in interviews.adaptation_trace
+export interface AdaptationDecision {
+    step: number;
+    questionId: string;
+    difficulty: Difficulty;
+    type: GeneratedQuestionType;
+    previousDifficulty: Difficulty | null;
+    basedOnAnswerId: number | null;
+    answerScore: number | null;
+    action: "start" | "up" | "down" | "stay";
+    reason: string;
+    ceiling: Difficulty | null;
+    converged: boolean;
+    decidedAt: string;
+}
+
+export interface AdaptiveSettings {
+    maxQuestions: number;
+    questionType: GeneratedQuestionType | "all";
+}
+
+export type NextStep =
+    | { status: "pending"; question: Question }
+    | { status: "complete"; ceiling: Difficulty | null }
+    | {
+          status: "next";
+          difficulty: Difficulty;
+          type: GeneratedQuestionType;
+          decision: AdaptationDecision;
+      };
+
+export class AdaptiveService {
+    /**
+     * Score used for adaptation: overall score, with depth weighted in because shallow answers
+     * are the clearest sign a candidate has hit their ceiling
+     */
+    static answerScore(answer: Answer): number | null {
+        if (answer.overallScore === null || answer.overallScore === undefined) return null;
+        if (answer.depthScore === null || answer.depthScore === undefined) {
+            return answer.overallScore;
+        }
+        return Math.round((answer.overallScore * 0.7 + answer.depthScore * 0.3) * 10) / 10;
+    }
+
+    /**
+     * Latest answer and adaptation score per interview question. Only answers to the
+     * interview's own questions count; follow-ups are scored separately.
+     */
+    static scoreAnswers(interviewAnswers: Answer[]): {
+        scores: Map<string, number>;
+        latestAnswer: Map<string, Answer>;
+    } {
+        const scores = new Map<string, number>();
+        const latestAnswer = new Map<string, Answer>();
+        for (const answer of interviewAnswers.filter((a) => !a.followUpId)) {
+            const previous = latestAnswer.get(answer.questionId);
+            if (!previous || new Date(answer.createdAt) > new Date(previous.createdAt)) {
+                latestAnswer.set(answer.questionId, answer);
+            }
+        }
+        for (const [questionId, answer] of latestAnswer) {
+            const score = this.answerScore(answer);
+            if (score !== null) scores.set(questionId, score);
+        }
+        return { scores, latestAnswer };
+    }
+
+    /**
+     * Highest level where the candidate passed at least half of the questions asked.
+     * Null until something has been passed.
+     */
+    static estimateCeiling(questions: Question[], scores: Map<string, number>): Difficulty | null {
+        let ceiling: Difficulty | null = null;
+        for (const level of LEVELS) {
+            const asked = questions.filter((q) => q.difficulty === level && scores.has(q.id));
+            const passed = asked.filter((q) => scores.get(q.id)! >= STEP_UP_SCORE);
+            if (asked.length > 0 && passed.length * 2 >= asked.length) {
+                ceiling = level;
+            }
+        }
+        return ceiling;
+    }
+
+    /**
+     * Decide what the next question in an adaptive interview should be, a staircase in the
+     * style of a computerized adaptive test: a strong answer moves up a level, a weak one moves
+     * down, and the level where the direction keeps flipping is the candidate's ceiling.
+     */
+    static decideNext(
+        interview: Interview,
+        interviewAnswers: Answer[],
+        settings: AdaptiveSettings
+    ): NextStep {
+        const questions = (interview.questions as Question[]) || [];
+        const trace = (interview.adaptationTrace as AdaptationDecision[]) || [];
+
+        const { scores, latestAnswer } = this.scoreAnswers(interviewAnswers);
+
+        const last = questions[questions.length - 1];
+        if (last && !latestAnswer.has(last.id)) {
+            return { status: "pending", question: last };
+        }
+
+        const ceiling = this.estimateCeiling(questions, scores);
+        if (questions.length >= settings.maxQuestions) {
+            return { status: "complete", ceiling };
+        }
+
+        const type = this.pickType(questions, scores, settings.questionType);
+        const step = questions.length + 1;
+        const questionId = String(step);
+        const decidedAt = new Date().toISOString();
+
+        if (!last) {
+            const difficulty = (interview.difficulty as Difficulty) || "medium";
+            return {
+                status: "next",
+                difficulty,
+                type,
+                decision: {
+                    step,
+                    questionId,
+                    difficulty,
+                    type,
+                    previousDifficulty: null,
+                    basedOnAnswerId: null,
+                    answerScore: null,
+                    action: "start",
+                    reason: `Starting at ${difficulty}`,
+                    ceiling: null,
+                    converged: false,
+                    decidedAt,
+                },
+            };
+        }
+
+        const lastAnswer = latestAnswer.get(last.id)!;
+        const score = scores.get(last.id) ?? null;
+        const index = LEVELS.indexOf(last.difficulty);
+
+        let action: AdaptationDecision["action"] = "stay";
+        let reason: string;
+        if (score === null) {
+            reason = "Previous answer has no score yet; keeping the same level";
+        } else if (score >= STEP_UP_SCORE && index < LEVELS.length - 1) {
+            action = "up";
+            reason = `Scored ${score} (>= ${STEP_UP_SCORE}) at ${last.difficulty}; moving up`;
+        } else if (score >= STEP_UP_SCORE) {
+            reason = `Scored ${score} at the hardest level; staying at ${last.difficulty}`;
+        } else if (score < STEP_DOWN_SCORE && index > 0) {
+            action = "down";
+            reason = `Scored ${score} (< ${STEP_DOWN_SCORE}) at ${last.difficulty}; moving down`;
+        } else if (score < STEP_DOWN_SCORE) {
+            reason = `Scored ${score} at the easiest level; staying at ${last.difficulty}`;
+        } else {
+            reason = `Scored ${score} at ${last.difficulty}; probing the same level again`;
+        }
+
+        const difficulty = LEVELS[index + (action === "up" ? 1 : action === "down" ? -1 : 0)];
+
+        // Count direction flips across the trace (and this decision) to tell when we've converged
+        const moves = [...trace.map((d) => d.action), action].filter(
+            (a) => a === "up" || a === "down"
+        );
+        const reversals = moves.filter((move, i) => i > 0 && move !== moves[i - 1]).length;
+        const converged = reversals >= REVERSALS_TO_CONVERGE;
+        if (converged && ceiling) {
+            reason += `; ceiling appears to be ${ceiling}`;
+        }
+
+        return {
+            status: "next",
+            difficulty,
+            type,
+            decision: {
+                step,
+                questionId,
+                difficulty,
+                type,
+                previousDifficulty: last.difficulty,
+                basedOnAnswerId: lastAnswer.id,
+                answerScore: score,
+                action,
+                reason,
+                ceiling,
+                converged,
+                decidedAt,
+            },
+        };
+    }
+
+    /**
+     * Append the chosen question and the decision that produced it to the interview. Only
+     * applies while the interview still has the questions `interview` was read with; null when
+     * another request added one first.
+     */
+    static async recordQuestion(
+        interview: Interview,
+        question: Question,
+        decision: AdaptationDecision,
+        prompt?: PromptRef
+    ): Promise<Interview | null> {
+        const questions = (interview.questions as Question[]) || [];
+        const [updated] = await db
+            .update(interviews)
+            .set({
+                questions: [...questions, question],
+                adaptationTrace: [
+                    ...((interview.adaptationTrace as AdaptationDecision[]) || []),
+                    decision,
+                ],
+                promptId: prompt?.id ?? interview.promptId,
+                promptVersion: prompt?.version ?? interview.promptVersion,
+                updatedAt: new Date(),
+            })
+            .where(
+                and(
+                    eq(interviews.id, interview.id),
+                    sql`jsonb_array_length(${interviews.questions}) = ${questions.length}`
+                )
+            )
+            .returning();
+        return updated || null;
+    }
+
+    // Cover the allowed types evenly; among the least-asked, probe the weakest one first
+    private static pickType(
+        questions: Question[],
+        scores: Map<string, number>,
+        questionType: GeneratedQuestionType | "all"
+    ): GeneratedQuestionType {
+        if (questionType !== "all") return questionType;
+
+        const stats = TYPES.map((type) => {
+            const asked = questions.filter((q) => q.type === type);
+            const scored = asked.filter((q) => scores.has(q.id)).map((q) => scores.get(q.id)!);
+            return {
+                type,
+                asked: asked.length,
+                average: scored.length ? scored.reduce((sum, s) => sum + s, 0) / scored.length : 10,
+            };
+        });
+
+        stats.sort((a, b) => a.asked - b.asked || a.average - b.average);
+        return stats[0].type;
+    }
+}
@@ -1,27 +1,89 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { createHash } from "crypto";
 import { CacheService } from "./cache.service";
+import { getLLMProvider, type LLMProvider, type LLMRequest } from "../providers";
 import logger from "../utils/logger";
+import { generateStructured } from "../utils/structuredOutput";
+import { JsonStreamParser } from "../utils/jsonStream";
+import { JobDescriptionService, type JobRequirement } from "./jobDescription.service";
+import { ResumeService } from "./resume.service";
+import { QuestionBankService } from "./questionBank.service";
+import { NoveltyService } from "./novelty.service";
+import type { FollowUpTurn } from "./followUp.service";
+import { renderPrompt, type PromptRef } from "../prompts";
+import type { Resume, TargetJob } from "../db/schema";
+import type { InterviewerPersona } from "../data/personas";
+import { DEFAULT_LOCALE, LOCALE_NAMES, localize, type Locale } from "../utils/locale";
+import {
+    questionSchema,
+    questionListSchema,
+    type Question,
+    type OutputSource,
+    type ResumeProfile,
+} from "../schemas/ai.schema";
+
+export type { Question } from "../schemas/ai.schema";
+
+export interface QuestionGenerationOptions {
+    // Personalize questions with the candidate's parsed resume
+    resume?: Resume | null;
+    // Skip questions similar to ones this user has already practiced
+    userId?: number;
+    // Questions the model is told not to repeat
+    avoidQuestions?: string[];
+    // Language the questions are written in; English when unset
+    locale?: Locale;
+    // Interviewer whose style the questions are phrased in; neutral when unset
+    persona?: InterviewerPersona | null;
+}
 
-export interface Question {
-    id: string;
-    question: string;
-    type: "behavioral" | "technical" | "situational";
-    difficulty: "easy" | "medium" | "hard";
-    category: string;
+export interface QuestionGenerationResult {
+    questions: Question[];
+    source: OutputSource;
+    // Candidates dropped because the user already practiced a near-duplicate
+    filteredRepeats?: number;
+    // Prompt version the questions were requested with
+    prompt?: PromptRef;
 }
 
-export class AIService {
-    private genAI: GoogleGenerativeAI;
-    private model: any;
+export interface FollowUpGenerationOptions {
+    resume?: Resume | null;
+    // Earlier turns of the chain, oldest first, ending with the answer being followed up
+    history?: FollowUpTurn[];
+    // Level the new follow-up will sit at (1 = directly after an interview question)
+    depth?: number;
+    // Assigns the user's prompt experiment arm
+    userId?: number;
+    // Language the follow-up is asked in; English when unset
+    locale?: Locale;
+    // Interviewer who asks the follow-up, and how hard they push; neutral when unset
+    persona?: InterviewerPersona | null;
+}
 
-    constructor() {
-        const apiKey = process.env.GEMINI_API_KEY;
-        if (!apiKey) {
-            throw new Error("GEMINI_API_KEY environment variable is required");
-        }
+// Extra generation rounds when too many candidates are repeats
+const MAX_NOVELTY_ROUNDS = 2;
 
-        this.genAI = new GoogleGenerativeAI(apiKey);
-        this.model = this.genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+// The question with an ID not in `taken`, which it's then added to. Model and fallback IDs
+// restart at 1 on every call, so questions merged from several calls can collide, and answers
+// find their question by ID.
+const withUniqueId = (question: Question, taken: Set<string>): Question => {
+    let id = question.id;
+    for (let n = 2; taken.has(id); n++) {
+        id = `${question.id}-${n}`;
+    }
+    taken.add(id);
+    return id === question.id ? question : { ...question, id };
+};
+
+const uniqueIds = (questions: Question[]): Question[] => {
+    const taken = new Set<string>();
+    return questions.map((question) => withUniqueId(question, taken));
+};
+
+export class AIService {
+    private provider: LLMProvider;
+
+    constructor(provider: LLMProvider = getLLMProvider()) {
+        this.provider = provider;
     }
 
     async generateQuestions(
@@ -30,106 +92,433 @@ export class AIService {
         experience: string,
         difficulty: "easy" | "medium" | "hard" = "medium",
         numberOfQuestions: number = 5,
-        questionType?: "behavioral" | "technical" | "situational" | "all"
-    ): Promise<Question[]> {
-        // Create cache key based on parameters
-        const cacheKey = `questions:${jobRole}:${company}:${experience}:${difficulty}:${numberOfQuestions}:${
-            questionType || "all"
-        }`;
+        questionType?: "behavioral" | "technical" | "situational" | "all",
+        options: QuestionGenerationOptions = {}
+    ): Promise<QuestionGenerationResult> {
+        const pool = await this.generateQuestionPool(
+            jobRole,
+            company,
+            experience,
+            difficulty,
+            numberOfQuestions,
+            questionType,
+            options
+        );
+        if (!options.userId) {
+            return { ...pool, questions: uniqueIds(pool.questions) };
+        }
+
+        const practiced = await NoveltyService.getPracticedQuestions(options.userId);
+        const { novel, repeats } = NoveltyService.filterRepeats(pool.questions, practiced);
+        if (repeats.length === 0) {
+            return { ...pool, questions: uniqueIds(pool.questions), filteredRepeats: 0 };
+        }
+
+        const topUp = await this.fillNovelQuestions(
+            novel,
+            practiced,
+            jobRole,
+            company,
+            experience,
+            difficulty,
+            numberOfQuestions,
+            questionType,
+            options
+        );
+
+        return {
+            questions: uniqueIds(
+                [...novel, ...topUp.added, ...repeats].slice(0, numberOfQuestions)
+            ),
+            source: pool.source,
+            filteredRepeats: repeats.length + topUp.filteredRepeats,
+            prompt: pool.prompt,
+        };
+    }
+
+    // Shared, cacheable question list for a request, before per-user novelty filtering
+    private async generateQuestionPool(
+        jobRole: string,
+        company: string,
+        experience: string,
+        difficulty: "easy" | "medium" | "hard",
+        numberOfQuestions: number,
+        questionType: "behavioral" | "technical" | "situational" | "all" | undefined,
+        options: QuestionGenerationOptions
+    ): Promise<QuestionGenerationResult> {
+        const { request, prompt } = this.buildQuestionsRequest(
+            jobRole,
+            company,
+            experience,
+            difficulty,
+            numberOfQuestions,
+            questionType,
+            options
+        );
+        const cacheKey = this.questionsCacheKey(
+            jobRole,
+            company,
+            experience,
+            difficulty,
+            numberOfQuestions,
+            questionType,
+            options,
+            prompt
+        );
 
         // Try to get from cache first
-        const cached = CacheService.get<Question[]>(cacheKey);
+        const cached = CacheService.get<QuestionGenerationResult>(cacheKey);
         if (cached) {
             logger.info("Returning cached questions", { cacheKey });
             return cached;
         }
 
         try {
-            const difficultyGuidelines = {
-                easy: "Focus on basic concepts, general questions, and foundational knowledge. Suitable for entry-level or warm-up questions.",
-                medium: "Include moderately challenging questions that require some depth of knowledge and practical experience.",
-                hard: "Generate advanced questions that require deep expertise, complex problem-solving, and senior-level thinking.",
-            };
+            const { data, source } = await generateStructured(
+                this.provider,
+                request,
+                questionListSchema
+            );
+
+            // Filter by type if specified and limit to requested number
+            let filteredQuestions = data;
+            if (questionType && questionType !== "all") {
+                filteredQuestions = data.filter((q) => q.type === questionType);
+            }
+            if (filteredQuestions.length === 0) {
+                throw new Error(`No ${questionType} questions in model output`);
+            }
 
-            const seniorityContext = {
-                "entry-level": "junior developer or entry-level candidate",
-                junior: "junior developer with 0-2 years of experience",
-                "mid-level": "mid-level professional with 3-5 years of experience",
-                senior: "senior professional with 6+ years of experience",
-                lead: "lead or staff level with 8+ years of experience",
+            const result: QuestionGenerationResult = {
+                questions: filteredQuestions.slice(0, numberOfQuestions),
+                source,
+                prompt,
             };
 
-            const typeFilter =
-                questionType && questionType !== "all"
-                    ? `Focus ONLY on ${questionType} questions. All ${numberOfQuestions} questions must be ${questionType} type.`
-                    : `Mix different types: behavioral, technical, and situational questions.`;
+            // Cache the result for 1 hour (3600000ms)
+            CacheService.set(cacheKey, result, 3600000);
+            logger.info("Questions cached", { cacheKey, source });
 
-            const seniorityLevel =
-                seniorityContext[experience as keyof typeof seniorityContext] || experience;
+            return result;
+        } catch (error) {
+            logger.error("Question generation failed, using fallback questions", {
+                error: error instanceof Error ? error.message : error,
+            });
+            return {
+                questions: await this.getFallbackQuestions(
+                    jobRole,
+                    company,
+                    difficulty,
+                    numberOfQuestions,
+                    questionType,
+                    options.locale
+                ),
+                source: "fallback",
+                prompt,
+            };
+        }
+    }
 
-            const prompt = `Generate ${numberOfQuestions} ${difficulty} difficulty interview questions for a ${jobRole} position at ${company} for a ${seniorityLevel}. 
-      
-      Difficulty Level: ${difficulty.toUpperCase()}
-      ${difficultyGuidelines[difficulty]}
-      
-      Question Type Requirement: ${typeFilter}
-      
-      Return the response as a JSON array with each question having:
-      - id: unique identifier (string)
-      - question: the interview question (string)
-      - type: 'behavioral', 'technical', or 'situational' ${
-          questionType && questionType !== "all" ? `(MUST be '${questionType}')` : ""
-      }
-      - difficulty: '${difficulty}' (all questions should be ${difficulty})
-      - category: relevant category like 'problem-solving', 'leadership', etc.
-      
-      Make questions relevant to the role, company, seniority level, and difficulty level.
-      ${
-          questionType && questionType !== "all"
-              ? `IMPORTANT: ALL questions must be ${questionType} type questions.`
-              : ""
-      }`;
+    /**
+     * Streaming variant of generateQuestions. Each question is validated and handed to
+     * `onQuestion` as soon as the model finishes it; the resolved result is the full list.
+     */
+    async streamQuestions(
+        jobRole: string,
+        company: string,
+        experience: string,
+        difficulty: "easy" | "medium" | "hard",
+        numberOfQuestions: number,
+        questionType: "behavioral" | "technical" | "situational" | "all" | undefined,
+        onQuestion: (question: Question, index: number) => void,
+        options: QuestionGenerationOptions = {}
+    ): Promise<QuestionGenerationResult> {
+        const { request, prompt } = this.buildQuestionsRequest(
+            jobRole,
+            company,
+            experience,
+            difficulty,
+            numberOfQuestions,
+            questionType,
+            options
+        );
+        const cacheKey = this.questionsCacheKey(
+            jobRole,
+            company,
+            experience,
+            difficulty,
+            numberOfQuestions,
+            questionType,
+            options,
+            prompt
+        );
+
+        const practiced = options.userId
+            ? await NoveltyService.getPracticedQuestions(options.userId)
+            : [];
+        const accepted: Question[] = [];
+        const acceptedIds = new Set<string>();
+        let filteredRepeats = 0;
+
+        // Emit a candidate unless it repeats something practiced or already emitted
+        const offer = (question: Question) => {
+            if (accepted.length >= numberOfQuestions) return;
+            const { novel } = NoveltyService.filterRepeats(
+                [question],
+                [...practiced, ...accepted.map((q) => q.question)]
+            );
+            if (novel.length === 0) {
+                filteredRepeats++;
+                return;
+            }
+            const unique = withUniqueId(question, acceptedIds);
+            accepted.push(unique);
+            onQuestion(unique, accepted.length - 1);
+        };
+
+        const finish = async (source: OutputSource): Promise<QuestionGenerationResult> => {
+            if (accepted.length < numberOfQuestions && practiced.length > 0) {
+                const topUp = await this.fillNovelQuestions(
+                    accepted,
+                    practiced,
+                    jobRole,
+                    company,
+                    experience,
+                    difficulty,
+                    numberOfQuestions,
+                    questionType,
+                    options
+                );
+                topUp.added.forEach(offer);
+                filteredRepeats += topUp.filteredRepeats;
+            }
+            return {
+                questions: accepted,
+                source,
+                prompt,
+                ...(options.userId && { filteredRepeats }),
+            };
+        };
 
-            const result = await this.model.generateContent(prompt);
-            const response = await result.response;
-            const text = response.text();
+        const cached = CacheService.get<QuestionGenerationResult>(cacheKey);
+        if (cached) {
+            logger.info("Returning cached questions", { cacheKey });
+            cached.questions.forEach(offer);
+            return finish(cached.source);
+        }
 
-            // Try to parse JSON from the response
-            try {
-                const questions = JSON.parse(text);
-                const parsedQuestions = Array.isArray(questions) ? questions : [];
+        const questions: Question[] = [];
+        let skipped = 0;
 
-                // Filter by type if specified and limit to requested number
-                let filteredQuestions = parsedQuestions;
-                if (questionType && questionType !== "all") {
-                    filteredQuestions = parsedQuestions.filter((q) => q.type === questionType);
+        try {
+            const parser = new JsonStreamParser();
+            const stream = this.provider.generateStream(request);
+
+            for await (const chunk of stream) {
+                for (const item of parser.push(chunk)) {
+                    const parsed = questionSchema.safeParse(item.value);
+                    const wrongType =
+                        parsed.success &&
+                        questionType &&
+                        questionType !== "all" &&
+                        parsed.data.type !== questionType;
+
+                    if (!parsed.success || wrongType) {
+                        skipped++;
+                        continue;
+                    }
+                    if (questions.length < numberOfQuestions) {
+                        questions.push(parsed.data);
+                        offer(parsed.data);
+                    }
                 }
+            }
+        } catch (error) {
+            logger.error("Question stream failed", {
+                error: error instanceof Error ? error.message : error,
+                received: questions.length,
+            });
+        }
 
-                const finalQuestions = filteredQuestions.slice(0, numberOfQuestions);
+        if (questions.length === 0) {
+            const fallback = await this.getFallbackQuestions(
+                jobRole,
+                company,
+                difficulty,
+                numberOfQuestions,
+                questionType,
+                options.locale
+            );
+            fallback.forEach(offer);
+            return finish("fallback");
+        }
 
-                // Cache the result for 1 hour (3600000ms)
-                CacheService.set(cacheKey, finalQuestions, 3600000);
-                logger.info("Questions cached", { cacheKey });
+        // Skipped items mean the output needed cleanup, same as a repaired batch
+        const source: OutputSource = skipped > 0 ? "repaired" : "ai";
+        CacheService.set(cacheKey, { questions, source, prompt }, 3600000);
+        logger.info("Questions cached", { cacheKey, source });
 
-                return finalQuestions;
-            } catch {
-                // Fallback if AI doesn't return valid JSON
-                return this.getFallbackQuestions(
-                    jobRole,
+        return finish(source);
+    }
+
+    /**
+     * Generate questions that each target one requirement from a parsed job description.
+     * Questions keep the `requirementId` of the skill or responsibility they cover.
+     */
+    async generateQuestionsForJob(
+        targetJob: TargetJob,
+        difficulty: "easy" | "medium" | "hard" = "medium",
+        numberOfQuestions: number = 5,
+        locale: Locale = DEFAULT_LOCALE,
+        persona: InterviewerPersona | null = null
+    ): Promise<QuestionGenerationResult> {
+        const requirements = JobDescriptionService.getRequirements(targetJob);
+        const { prompt, ref } = renderPrompt(
+            "job-questions",
+            {
+                title: targetJob.title,
+                company: targetJob.company,
+                seniority: targetJob.seniority,
+                difficulty,
+                numberOfQuestions,
+                requirements,
+                locale,
+                persona,
+            },
+            targetJob.userId
+        );
+
+        try {
+            const { data, source } = await generateStructured(
+                this.provider,
+                {
+                    task: "questions",
+                    prompt,
+                    hints: {
+                        jobRole: targetJob.title,
+                        company: targetJob.company,
+                        difficulty,
+                        count: numberOfQuestions,
+                        requirements,
+                    },
+                },
+                questionListSchema
+            );
+
+            // Drop requirement IDs the model invented
+            const knownIds = new Set(requirements.map((r) => r.id));
+            const questions = data
+                .slice(0, numberOfQuestions)
+                .map((q) =>
+                    q.requirementId && !knownIds.has(q.requirementId)
+                        ? { ...q, requirementId: undefined }
+                        : q
+                );
+
+            return { questions, source, prompt: ref };
+        } catch (error) {
+            logger.error("Job question generation failed, using fallback questions", {
+                error: error instanceof Error ? error.message : error,
+                targetJobId: targetJob.id,
+            });
+            return {
+                questions: await this.getFallbackJobQuestions(
+                    targetJob,
+                    requirements,
                     difficulty,
                     numberOfQuestions,
-                    questionType
+                    locale
+                ),
+                source: "fallback",
+                prompt: ref,
+            };
+        }
+    }
+
+    /**
+     * Over-generate until `have` plus the new questions reaches the requested count without
+     * repeating practiced questions. Tries the model (told what to avoid) first, then the
+     * question bank. Returns only the added questions.
+     */
+    private async fillNovelQuestions(
+        have: Question[],
+        practiced: string[],
+        jobRole: string,
+        company: string,
+        experience: string,
+        difficulty: "easy" | "medium" | "hard",
+        numberOfQuestions: number,
+        questionType: "behavioral" | "technical" | "situational" | "all" | undefined,
+        options: QuestionGenerationOptions
+    ): Promise<{ added: Question[]; filteredRepeats: number }> {
+        const added: Question[] = [];
+        let filteredRepeats = 0;
+
+        for (let round = 0; round < MAX_NOVELTY_ROUNDS * 2; round++) {
+            const missing = numberOfQuestions - have.length - added.length;
+            if (missing <= 0) break;
+
+            const seen = [...practiced, ...have, ...added].map((q) =>
+                typeof q === "string" ? q : q.question
+            );
+            const count = Math.min(20, missing * 2 + 2);
+            let candidates: Question[];
+
+            if (round < MAX_NOVELTY_ROUNDS) {
+                try {
+                    const { data } = await generateStructured(
+                        this.provider,
+                        this.buildQuestionsRequest(
+                            jobRole,
+                            company,
+                            experience,
+                            difficulty,
+                            count,
+                            questionType,
+                            { ...options, avoidQuestions: seen.slice(-40) }
+                        ).request,
+                        questionListSchema
+                    );
+                    candidates = data.filter(
+                        (q) => !questionType || questionType === "all" || q.type === questionType
+                    );
+                } catch (error) {
+                    logger.warn("Over-generation failed, using question bank", {
+                        error: error instanceof Error ? error.message : error,
+                    });
+                    round = MAX_NOVELTY_ROUNDS - 1;
+                    continue;
+                }
+            } else {
+                candidates = await this.getFallbackQuestions(
+                    jobRole,
+                    company,
+                    difficulty,
+                    count,
+                    questionType,
+                    options.locale
                 );
             }
-        } catch (error) {
-            console.error("AI service error:", error);
-            return this.getFallbackQuestions(jobRole, difficulty, numberOfQuestions, questionType);
+
+            const { novel, repeats } = NoveltyService.filterRepeats(candidates, seen);
+            added.push(...novel.slice(0, missing));
+            filteredRepeats += repeats.length;
         }
+
+        logger.info("Novelty top-up", { added: added.length, filteredRepeats });
+        return { added, filteredRepeats };
     }
 
-    async generateFeedback(question: string, answer: string): Promise<string> {
+    async generateFeedback(
+        question: string,
+        answer: string,
+        locale: Locale = DEFAULT_LOCALE
+    ): Promise<string> {
         // Create cache key for feedback
-        const cacheKey = `feedback:${question.substring(0, 50)}:${answer.substring(0, 50)}`;
+        const cacheKey = CacheService.localizedKey(
+            locale,
+            `feedback:${question.substring(0, 50)}:${answer.substring(0, 50)}`
+        );
 
         // Try to get from cache
         const cached = CacheService.get<string>(cacheKey);
@@ -149,11 +538,15 @@ export class AIService {
       - Areas for improvement
       - Suggestions for better responses
       
-      Keep feedback professional and encouraging.`;
+      Keep feedback professional and encouraging.${
+          locale === DEFAULT_LOCALE ? "" : ` Write the feedback in ${LOCALE_NAMES[locale]}.`
+      }`;
 
-            const result = await this.model.generateContent(prompt);
-            const response = await result.response;
-            const feedback = response.text();
+            const feedback = await this.provider.generate({
+                task: "feedbackText",
+                prompt,
+                hints: { question, answer },
+            });
 
             // Cache feedback for 30 minutes
             CacheService.set(cacheKey, feedback, 1800000);
@@ -161,498 +554,171 @@ export class AIService {
 
             return feedback;
         } catch (error) {
-            console.error("Feedback generation error:", error);
-            return "Thank you for your response. Consider providing more specific examples and quantifiable results in your answer.";
+            logger.error("Feedback generation failed, using generic feedback", {
+                error: error instanceof Error ? error.message : error,
+            });
+            return localize(locale, "textFeedbackFallback");
         }
     }
 
-    async generateFollowUpQuestion(originalQuestion: string, answer: string): Promise<string> {
+    async generateFollowUpQuestion(
+        originalQuestion: string,
+        answer: string,
+        options: FollowUpGenerationOptions = {}
+    ): Promise<string> {
         try {
-            const prompt = `Based on the original question and the user's answer, generate one relevant follow-up question. The follow-up should dig deeper into the user's response.
-
-Original Question: "${originalQuestion}"
-User's Answer: "${answer}"
-
-Return only the follow-up question as a single string.`;
-
-            const result = await this.model.generateContent(prompt);
-            const response = await result.response;
-            return response.text().trim();
+            const { prompt } = renderPrompt(
+                "follow-up",
+                {
+                    originalQuestion,
+                    answer,
+                    earlierTurns: (options.history || []).slice(0, -1),
+                    resumeSummary: options.resume
+                        ? ResumeService.formatForPrompt(options.resume.profile as ResumeProfile)
+                        : undefined,
+                    locale: options.locale,
+                    persona: options.persona,
+                },
+                options.userId
+            );
+
+            const followUp = await this.provider.generate({
+                task: "followUp",
+                prompt,
+                hints: { originalQuestion, answer, depth: options.depth || 1 },
+            });
+            return followUp.trim();
         } catch (error) {
-            console.error("Follow-up question generation error:", error);
-            return "Can you elaborate on that a bit more?";
+            logger.error("Follow-up generation failed, using generic follow-up", {
+                error: error instanceof Error ? error.message : error,
+            });
+            return localize(options.locale || DEFAULT_LOCALE, "followUpFallback");
         }
     }
 
-    private getFallbackQuestions(
+    private questionsCacheKey(
         jobRole: string,
-        difficulty: string = "medium",
-        numberOfQuestions: number = 5,
-        questionType?: "behavioral" | "technical" | "situational" | "all"
-    ): Question[] {
-        const easyQuestions = [
-            {
-                id: "1",
-                question: `Tell me about yourself and your interest in ${jobRole}.`,
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "introduction",
-            },
-            {
-                id: "2",
-                question: "What are your main strengths?",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "self-assessment",
-            },
-            {
-                id: "3",
-                question: "Why do you want to work in this role?",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "motivation",
-            },
-            {
-                id: "4",
-                question: "Describe a typical day in your current or previous role.",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "experience",
-            },
-            {
-                id: "5",
-                question: "What interests you about our company?",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "company-fit",
-            },
-            {
-                id: "6",
-                question: `What programming languages or tools do you use for ${jobRole}?`,
-                type: "technical" as const,
-                difficulty: "easy" as const,
-                category: "technical-skills",
-            },
-            {
-                id: "7",
-                question: "How would you handle receiving negative feedback?",
-                type: "situational" as const,
-                difficulty: "easy" as const,
-                category: "professionalism",
-            },
-            {
-                id: "8",
-                question: "What is your greatest professional achievement?",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "achievements",
-            },
-            {
-                id: "9",
-                question: "How do you stay updated with industry trends?",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "learning",
-            },
-            {
-                id: "10",
-                question: "Describe your ideal work environment.",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "work-culture",
-            },
-            {
-                id: "11",
-                question: `What basic concepts of ${jobRole} are you most comfortable with?`,
-                type: "technical" as const,
-                difficulty: "easy" as const,
-                category: "fundamentals",
-            },
-            {
-                id: "12",
-                question: "How do you prioritize your tasks?",
-                type: "situational" as const,
-                difficulty: "easy" as const,
-                category: "time-management",
-            },
-            {
-                id: "13",
-                question: "Tell me about a time you worked in a team.",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "teamwork",
-            },
-            {
-                id: "14",
-                question: "What are your career goals for the next year?",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "goals",
-            },
-            {
-                id: "15",
-                question:
-                    "How would you explain a complex technical concept to a non-technical person?",
-                type: "situational" as const,
-                difficulty: "easy" as const,
-                category: "communication",
-            },
-            {
-                id: "16",
-                question: `What tools or frameworks are you familiar with in ${jobRole}?`,
-                type: "technical" as const,
-                difficulty: "easy" as const,
-                category: "tools",
-            },
-            {
-                id: "17",
-                question: "Describe a time when you had to learn something new quickly.",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "adaptability",
-            },
-            {
-                id: "18",
-                question: "What motivates you in your work?",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "motivation",
-            },
-            {
-                id: "19",
-                question: "How do you handle constructive criticism?",
-                type: "situational" as const,
-                difficulty: "easy" as const,
-                category: "feedback",
-            },
-            {
-                id: "20",
-                question: "What makes you a good fit for this role?",
-                type: "behavioral" as const,
-                difficulty: "easy" as const,
-                category: "fit",
-            },
-        ];
-
-        const mediumQuestions = [
-            {
-                id: "1",
-                question: `Tell me about your experience with ${jobRole} and what interests you about this role.`,
-                type: "behavioral" as const,
-                difficulty: "medium" as const,
-                category: "background",
-            },
-            {
-                id: "2",
-                question:
-                    "Describe a challenging project you worked on and how you overcame obstacles.",
-                type: "behavioral" as const,
-                difficulty: "medium" as const,
-                category: "problem-solving",
-            },
-            {
-                id: "3",
-                question: "How do you handle working under pressure and tight deadlines?",
-                type: "situational" as const,
-                difficulty: "medium" as const,
-                category: "stress-management",
-            },
-            {
-                id: "4",
-                question: "Tell me about a time when you had to work with a difficult team member.",
-                type: "behavioral" as const,
-                difficulty: "medium" as const,
-                category: "teamwork",
-            },
-            {
-                id: "5",
-                question:
-                    "Where do you see yourself in 5 years and how does this role fit into your career goals?",
-                type: "behavioral" as const,
-                difficulty: "medium" as const,
-                category: "career-planning",
-            },
-            {
-                id: "6",
-                question: `Explain the architecture of a system you've built for ${jobRole}.`,
-                type: "technical" as const,
-                difficulty: "medium" as const,
-                category: "architecture",
-            },
-            {
-                id: "7",
-                question: "How would you handle a conflict between two team members?",
-                type: "situational" as const,
-                difficulty: "medium" as const,
-                category: "conflict-resolution",
-            },
-            {
-                id: "8",
-                question:
-                    "Describe a time when you had to persuade stakeholders to adopt your solution.",
-                type: "behavioral" as const,
-                difficulty: "medium" as const,
-                category: "influence",
-            },
-            {
-                id: "9",
-                question: `What are the trade-offs between different approaches in ${jobRole}?`,
-                type: "technical" as const,
-                difficulty: "medium" as const,
-                category: "decision-making",
-            },
-            {
-                id: "10",
-                question: "Tell me about a time when you missed a deadline. What happened?",
-                type: "behavioral" as const,
-                difficulty: "medium" as const,
-                category: "failure",
-            },
-            {
-                id: "11",
-                question: "How do you ensure code quality in your projects?",
-                type: "technical" as const,
-                difficulty: "medium" as const,
-                category: "quality",
-            },
-            {
-                id: "12",
-                question: "How would you onboard a new team member?",
-                type: "situational" as const,
-                difficulty: "medium" as const,
-                category: "mentorship",
-            },
-            {
-                id: "13",
-                question: "Describe your approach to debugging complex issues.",
-                type: "technical" as const,
-                difficulty: "medium" as const,
-                category: "debugging",
-            },
-            {
-                id: "14",
-                question: "Tell me about a time you had to adapt to significant changes at work.",
-                type: "behavioral" as const,
-                difficulty: "medium" as const,
-                category: "change-management",
-            },
-            {
-                id: "15",
-                question: "How do you balance technical debt with feature development?",
-                type: "situational" as const,
-                difficulty: "medium" as const,
-                category: "prioritization",
-            },
-            {
-                id: "16",
-                question: `What testing strategies do you use for ${jobRole} projects?`,
-                type: "technical" as const,
-                difficulty: "medium" as const,
-                category: "testing",
-            },
-            {
-                id: "17",
-                question: "Describe a time when you improved a process or system.",
-                type: "behavioral" as const,
-                difficulty: "medium" as const,
-                category: "improvement",
-            },
-            {
-                id: "18",
-                question: "How would you handle a situation where you disagree with your manager?",
-                type: "situational" as const,
-                difficulty: "medium" as const,
-                category: "disagreement",
-            },
-            {
-                id: "19",
-                question: `Explain performance optimization techniques for ${jobRole}.`,
-                type: "technical" as const,
-                difficulty: "medium" as const,
-                category: "optimization",
-            },
-            {
-                id: "20",
-                question: "Tell me about a time you took initiative on a project.",
-                type: "behavioral" as const,
-                difficulty: "medium" as const,
-                category: "initiative",
-            },
-        ];
+        company: string,
+        experience: string,
+        difficulty: string,
+        numberOfQuestions: number,
+        questionType: string | undefined,
+        options: QuestionGenerationOptions,
+        prompt: PromptRef
+    ): string {
+        const resumeKey = options.resume
+            ? `:resume-${options.resume.id}-${new Date(options.resume.updatedAt).getTime()}`
+            : "";
+        // Custom personas can be edited, so the key follows the style text, not just the name
+        const personaKey = options.persona
+            ? `:persona-${options.persona.key}-${createHash("sha256")
+                  .update(JSON.stringify(options.persona))
+                  .digest("hex")
+                  .slice(0, 12)}`
+            : "";
+        return CacheService.localizedKey(
+            options.locale,
+            `questions:${jobRole}:${company}:${experience}:${difficulty}:${numberOfQuestions}:${
+                questionType || "all"
+            }:${prompt.version}${resumeKey}${personaKey}`
+        );
+    }
 
-        const hardQuestions = [
-            {
-                id: "1",
-                question: `Describe the most complex technical problem you've solved in ${jobRole} and walk me through your approach.`,
-                type: "technical" as const,
-                difficulty: "hard" as const,
-                category: "problem-solving",
-            },
-            {
-                id: "2",
-                question:
-                    "Tell me about a time when you had to make a critical decision with incomplete information. What was your thought process?",
-                type: "situational" as const,
-                difficulty: "hard" as const,
-                category: "decision-making",
-            },
-            {
-                id: "3",
-                question:
-                    "How would you design and implement a system for [complex scenario]? Consider scalability, reliability, and cost.",
-                type: "technical" as const,
-                difficulty: "hard" as const,
-                category: "system-design",
-            },
-            {
-                id: "4",
-                question:
-                    "Describe a situation where your initial approach failed. How did you identify the issue and what did you do differently?",
-                type: "behavioral" as const,
-                difficulty: "hard" as const,
-                category: "adaptability",
-            },
-            {
-                id: "5",
-                question:
-                    "You're leading a project that's behind schedule and over budget. Walk me through your strategy to recover.",
-                type: "situational" as const,
-                difficulty: "hard" as const,
-                category: "leadership",
-            },
-            {
-                id: "6",
-                question: `Design a scalable architecture for a high-traffic ${jobRole} application.`,
-                type: "technical" as const,
-                difficulty: "hard" as const,
-                category: "scalability",
-            },
-            {
-                id: "7",
-                question:
-                    "Describe a time when you had to make a decision that was unpopular but necessary.",
-                type: "behavioral" as const,
-                difficulty: "hard" as const,
-                category: "tough-decisions",
-            },
-            {
-                id: "8",
-                question:
-                    "How would you architect a system to handle millions of concurrent users?",
-                type: "technical" as const,
-                difficulty: "hard" as const,
-                category: "system-design",
-            },
-            {
-                id: "9",
-                question: "Tell me about a time you had to deliver bad news to stakeholders.",
-                type: "situational" as const,
-                difficulty: "hard" as const,
-                category: "communication",
-            },
-            {
-                id: "10",
-                question:
-                    "Describe the most significant technical architecture decision you've made and its impact.",
-                type: "technical" as const,
-                difficulty: "hard" as const,
-                category: "architecture",
-            },
-            {
-                id: "11",
-                question:
-                    "How would you handle a critical production outage affecting thousands of users?",
-                type: "situational" as const,
-                difficulty: "hard" as const,
-                category: "crisis-management",
-            },
-            {
-                id: "12",
-                question:
-                    "Explain how you would mentor a struggling team member while meeting project deadlines.",
-                type: "behavioral" as const,
-                difficulty: "hard" as const,
-                category: "mentorship",
-            },
-            {
-                id: "13",
-                question: `What are the most critical security considerations for ${jobRole} and how do you address them?`,
-                type: "technical" as const,
-                difficulty: "hard" as const,
-                category: "security",
-            },
-            {
-                id: "14",
-                question:
-                    "Describe a situation where you had to completely pivot your technical approach mid-project.",
-                type: "behavioral" as const,
-                difficulty: "hard" as const,
-                category: "adaptability",
-            },
-            {
-                id: "15",
-                question:
-                    "How would you lead a technical transformation initiative across multiple teams?",
-                type: "situational" as const,
-                difficulty: "hard" as const,
-                category: "transformation",
-            },
-            {
-                id: "16",
-                question: `Design a distributed system with high availability requirements for ${jobRole}.`,
-                type: "technical" as const,
-                difficulty: "hard" as const,
-                category: "distributed-systems",
-            },
-            {
-                id: "17",
-                question:
-                    "Tell me about a time when you had to navigate significant organizational politics.",
-                type: "behavioral" as const,
-                difficulty: "hard" as const,
-                category: "politics",
-            },
-            {
-                id: "18",
-                question:
-                    "How would you migrate a legacy system to a modern architecture with zero downtime?",
-                type: "technical" as const,
-                difficulty: "hard" as const,
-                category: "migration",
-            },
-            {
-                id: "19",
-                question:
-                    "Describe how you've built and maintained a high-performing engineering culture.",
-                type: "behavioral" as const,
-                difficulty: "hard" as const,
-                category: "culture",
-            },
-            {
-                id: "20",
-                question:
-                    "How do you make technology decisions when there are multiple valid approaches?",
-                type: "situational" as const,
-                difficulty: "hard" as const,
-                category: "decision-framework",
+    private buildQuestionsRequest(
+        jobRole: string,
+        company: string,
+        experience: string,
+        difficulty: "easy" | "medium" | "hard",
+        numberOfQuestions: number,
+        questionType: "behavioral" | "technical" | "situational" | "all" | undefined,
+        options: QuestionGenerationOptions
+    ): { request: LLMRequest; prompt: PromptRef } {
+        const { prompt, ref } = renderPrompt(
+            "questions",
+            {
+                jobRole,
+                company,
+                experience,
+                difficulty,
+                numberOfQuestions,
+                questionType,
+                resumeSummary: options.resume
+                    ? ResumeService.formatForPrompt(options.resume.profile as ResumeProfile)
+                    : undefined,
+                avoidQuestions: options.avoidQuestions,
+                locale: options.locale,
+                persona: options.persona,
+            },
+            options.userId
+        );
+
+        return {
+            request: {
+                task: "questions",
+                prompt,
+                hints: {
+                    jobRole,
+                    company,
+                    difficulty,
+                    count: numberOfQuestions,
+                    questionType: questionType || "all",
+                },
             },
-        ];
-
-        const questionSets = {
-            easy: easyQuestions,
-            medium: mediumQuestions,
-            hard: hardQuestions,
+            prompt: ref,
         };
+    }
 
-        let allQuestions: Question[] =
-            questionSets[difficulty as keyof typeof questionSets] || mediumQuestions;
-
-        // Filter by type if specified
-        if (questionType && questionType !== "all") {
-            allQuestions = allQuestions.filter((q) => q.type === questionType);
+    private async getFallbackJobQuestions(
+        targetJob: TargetJob,
+        requirements: JobRequirement[],
+        difficulty: "easy" | "medium" | "hard",
+        numberOfQuestions: number,
+        locale: Locale
+    ): Promise<Question[]> {
+        if (requirements.length === 0) {
+            return this.getFallbackQuestions(
+                targetJob.title,
+                targetJob.company || "",
+                difficulty,
+                numberOfQuestions,
+                undefined,
+                locale
+            );
         }
 
-        // Return requested number of questions
-        return allQuestions.slice(0, numberOfQuestions);
+        return Array.from({ length: numberOfQuestions }, (_, i) => {
+            const requirement = requirements[i % requirements.length];
+            const isSkill = requirement.id.startsWith("skill-");
+            return {
+                id: `jd-${i + 1}`,
+                question: isSkill
+                    ? localize(locale, "jobSkillQuestion", { skill: requirement.text })
+                    : localize(locale, "jobResponsibilityQuestion", {
+                          responsibility: requirement.text,
+                      }),
+                type: isSkill ? ("technical" as const) : ("behavioral" as const),
+                difficulty,
+                category: isSkill ? "skills" : "experience",
+                requirementId: requirement.id,
+            };
+        });
+    }
+
+    private async getFallbackQuestions(
+        jobRole: string,
+        company: string,
+        difficulty: string = "medium",
+        numberOfQuestions: number = 5,
+        questionType?: "behavioral" | "technical" | "situational" | "all",
+        locale?: Locale
+    ): Promise<Question[]> {
+        return QuestionBankService.sample({
+            difficulty,
+            questionType,
+            jobRole,
+            company,
+            count: numberOfQuestions,
+            locale,
+        });
     }
 }
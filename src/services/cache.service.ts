@@ -1,4 +1,5 @@
 import logger from "../utils/logger";
+import { DEFAULT_LOCALE, type Locale } from "../utils/locale";
 
 interface CacheEntry<T> {
     data: T;
@@ -9,6 +10,11 @@ export class CacheService {
     private static cache = new Map<string, CacheEntry<any>>();
     private static defaultTTL = 3600000; // 1 hour in milliseconds
 
+    // Key for language-dependent content, so each locale is cached separately
+    static localizedKey(locale: Locale | undefined, key: string): string {
+        return `${locale || DEFAULT_LOCALE}:${key}`;
+    }
+
     // Set cache with TTL
     static set<T>(key: string, data: T, ttl: number = this.defaultTTL): void {
         const expiresAt = Date.now() + ttl;
@@ -45,6 +51,21 @@ export class CacheService {
         return deleted;
     }
 
+    // Delete every key containing the given fragment
+    static deleteMatching(fragment: string): number {
+        let count = 0;
+        for (const key of this.cache.keys()) {
+            if (key.includes(fragment)) {
+                this.cache.delete(key);
+                count++;
+            }
+        }
+        if (count > 0) {
+            logger.debug(`Cache deleted ${count} entries matching: ${fragment}`);
+        }
+        return count;
+    }
+
     // Clear all cache
     static clear(): void {
         const size = this.cache.size;
@@ -0,0 +1,202 @@
+import { CODING_PROBLEMS, type CodingProblem } from "../data/codingProblems";
+import { runInSandbox, type SandboxResult } from "../utils/codeSandbox";
+import { RubricService } from "./rubric.service";
+import { INJECTION_SCORE_CAP, type FeedbackResult } from "./feedback.service";
+import type { CodeLanguage, Difficulty, Question } from "../schemas/ai.schema";
+
+// Failed tests listed in the review prompt
+const MAX_FAILURES_IN_REVIEW = 5;
+
+export class CodingError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number
+    ) {
+        super(message);
+        this.name = "CodingError";
+    }
+}
+
+const shuffle = <T>(items: T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+export class CodingService {
+    /**
+     * Problems as candidates see them: statement, signatures and the visible examples only
+     */
+    static listProblems(difficulty?: Difficulty) {
+        return CODING_PROBLEMS.filter((p) => !difficulty || p.difficulty === difficulty).map(
+            (problem) => ({
+                slug: problem.slug,
+                title: problem.title,
+                difficulty: problem.difficulty,
+                category: problem.category,
+                statement: problem.statement,
+                functionName: problem.functionName,
+                signatures: problem.signatures,
+                examples: this.examples(problem),
+                hiddenTests: problem.tests.filter((test) => test.hidden).length,
+            })
+        );
+    }
+
+    static getProblem(slug: string): CodingProblem | null {
+        return CODING_PROBLEMS.find((problem) => problem.slug === slug) || null;
+    }
+
+    /**
+     * The named problems in order, or `count` random ones at the difficulty
+     */
+    static pickProblems(options: {
+        slugs?: string[];
+        difficulty?: Difficulty;
+        count: number;
+    }): CodingProblem[] {
+        if (options.slugs?.length) {
+            return options.slugs.map((slug) => {
+                const problem = this.getProblem(slug);
+                if (!problem) {
+                    throw new CodingError(`Unknown coding problem: ${slug}`, 400);
+                }
+                return problem;
+            });
+        }
+
+        const pool = CODING_PROBLEMS.filter(
+            (p) => !options.difficulty || p.difficulty === options.difficulty
+        );
+        if (pool.length === 0) {
+            throw new CodingError(`No ${options.difficulty} coding problems available`, 404);
+        }
+        return shuffle(pool).slice(0, options.count);
+    }
+
+    // Interview question for a problem; the hidden tests stay in the catalog
+    static toQuestion(problem: CodingProblem): Question {
+        return {
+            id: `coding-${problem.slug}`,
+            question: `${problem.title}: ${problem.statement}`,
+            type: "coding",
+            difficulty: problem.difficulty,
+            category: problem.category,
+            coding: {
+                problem: problem.slug,
+                functionName: problem.functionName,
+                signatures: problem.signatures,
+                examples: this.examples(problem),
+            },
+        };
+    }
+
+    /**
+     * Run a submission against every test of the problem. TypeScript is transpiled first;
+     * type errors are left to the review, but syntax errors fail the run.
+     */
+    static async runSubmission(
+        problem: CodingProblem,
+        code: string,
+        language: CodeLanguage
+    ): Promise<SandboxResult> {
+        let source = code;
+        if (language === "typescript") {
+            // Loaded on first use; the compiler is large and only coding submissions need it
+            const { default: ts } = await import("typescript");
+            const output = ts.transpileModule(code, {
+                compilerOptions: {
+                    target: ts.ScriptTarget.ES2020,
+                    module: ts.ModuleKind.CommonJS,
+                },
+                reportDiagnostics: true,
+            });
+            const syntaxError = output.diagnostics?.find(
+                (d) => d.category === ts.DiagnosticCategory.Error
+            );
+            if (syntaxError) {
+                const error = `SyntaxError: ${ts.flattenDiagnosticMessageText(syntaxError.messageText, " ")}`;
+                return {
+                    status: "compile_error",
+                    passed: 0,
+                    total: problem.tests.length,
+                    tests: problem.tests.map((test) => ({
+                        name: test.name,
+                        hidden: test.hidden,
+                        passed: false,
+                        durationMs: 0,
+                        error,
+                    })),
+                    error,
+                    logs: [],
+                    durationMs: 0,
+                };
+            }
+            source = output.outputText;
+        }
+
+        return runInSandbox(source, problem.functionName, problem.tests);
+    }
+
+    /**
+     * Problem text for the review prompt, with the test results so the reviewer's notes agree
+     * with them. Hidden tests appear by name only. Stored as the answer's question, so a
+     * regrade reviews against the same results.
+     */
+    static reviewQuestion(
+        problem: CodingProblem,
+        language: CodeLanguage,
+        run: SandboxResult
+    ): string {
+        const failures = run.tests
+            .filter((test) => !test.passed)
+            .slice(0, MAX_FAILURES_IN_REVIEW)
+            .map((test) => `- ${test.name}: ${test.error || "wrong result"}`);
+        const results =
+            run.status === "compile_error"
+                ? `The code did not run: ${run.error}`
+                : `The code passed ${run.passed} of ${run.total} tests.${
+                      failures.length ? `\nFailed tests:\n${failures.join("\n")}` : ""
+                  }`;
+
+        return `${problem.title} (${language} coding problem): ${problem.statement}
+Signature: ${problem.signatures[language]}
+${results}
+Correctness is measured by the tests; review the code's time and space complexity and its style.`;
+    }
+
+    /**
+     * Replace the reviewer's correctness score with the test pass rate and recompute the
+     * overall score. The tests run without the model, so fallback feedback gets the pass rate
+     * too; when it has no other scores, correctness is the only criterion it keeps and the
+     * overall score waits for the regrade.
+     */
+    static applyTestResults(feedback: FeedbackResult, run: SandboxResult): FeedbackResult {
+        const passRate = run.total > 0 ? run.passed / run.total : 0;
+        const score = Math.round(passRate * 100) / 10;
+        const correctness = {
+            score: feedback.suspectedInjection ? Math.min(score, INJECTION_SCORE_CAP) : score,
+            evidence: `${run.passed}/${run.total} tests passed`,
+        };
+
+        if (feedback.source === "fallback" && feedback.scoredBy === null) {
+            return { ...feedback, criteria: { correctness } };
+        }
+
+        const criteria = { ...feedback.criteria, correctness };
+        return {
+            ...feedback,
+            criteria,
+            overallScore: RubricService.overallScore("coding", { ...feedback, criteria }),
+        };
+    }
+
+    private static examples(problem: CodingProblem) {
+        return problem.tests
+            .filter((test) => !test.hidden)
+            .map((test) => ({ input: test.args, output: test.expected }));
+    }
+}
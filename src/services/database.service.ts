@@ -4,16 +4,55 @@ import {
     interviews,
     answers,
     userProgress,
+    targetJobs,
+    regradeJobs,
     type User,
     type NewUser,
     type Interview,
     type NewInterview,
     type Answer,
     type NewAnswer,
+    type FollowUp,
     type UserProgress,
     type NewUserProgress,
 } from "../db/schema";
-import { eq, desc, count, avg } from "drizzle-orm";
+import { eq, and, desc, count, avg, max, isNotNull, sql } from "drizzle-orm";
+import { JobDescriptionService } from "./jobDescription.service";
+import { FollowUpService, type QuestionNode, type LevelScore } from "./followUp.service";
+import { DeliveryService } from "./delivery.service";
+import type { WordTiming } from "../providers";
+import type { Question } from "../schemas/ai.schema";
+import type { PromptRef } from "../prompts";
+import type { InterviewerPersona } from "../data/personas";
+import { isSupportedLocale, normalizeLocale, type Locale } from "../utils/locale";
+
+// Streak after practicing on `today`: one more for consecutive days, reset after a gap
+const nextStreak = (current: UserProgress, today: Date) => {
+    let currentStreak = current.currentStreak || 0;
+    let longestStreak = current.longestStreak || 0;
+    const lastPractice = current.lastPracticeDate ? new Date(current.lastPracticeDate) : null;
+
+    if (lastPractice) {
+        const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+        const lastPracticeStart = new Date(
+            lastPractice.getFullYear(),
+            lastPractice.getMonth(),
+            lastPractice.getDate()
+        );
+        const diffTime = todayStart.getTime() - lastPracticeStart.getTime();
+        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+
+        if (diffDays === 1) {
+            currentStreak++;
+        } else if (diffDays > 1) {
+            currentStreak = 1;
+        }
+    } else {
+        currentStreak = 1;
+    }
+
+    return { currentStreak, longestStreak: Math.max(currentStreak, longestStreak) };
+};
 
 export class DatabaseService {
     async createOrUpdateUser(userData: {
@@ -55,6 +94,45 @@ export class DatabaseService {
         return result[0] || null;
     }
 
+    async getUserById(userId: number): Promise<User | null> {
+        const result = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+        return result[0] || null;
+    }
+
+    /**
+     * Language for a request: the requested locale when supported, else the user's setting
+     */
+    async resolveLocale(requested: unknown, userId: number): Promise<Locale> {
+        if (isSupportedLocale(requested)) return requested;
+        const user = await this.getUserById(userId);
+        return normalizeLocale(user?.locale);
+    }
+
+    async updateUserSettings(
+        userId: number,
+        settings: Partial<Pick<NewUser, "gradingSamples" | "locale">>
+    ): Promise<User | null> {
+        const [user] = await db
+            .update(users)
+            .set({ ...settings, updatedAt: new Date() })
+            .where(eq(users.id, userId))
+            .returning();
+        return user || null;
+    }
+
+    /**
+     * Store a user's 1-5 rating of an answer's feedback. Returns null when the answer doesn't
+     * exist or belongs to someone else.
+     */
+    async rateAnswer(answerId: number, userId: number, rating: number): Promise<Answer | null> {
+        const [answer] = await db
+            .update(answers)
+            .set({ userRating: rating })
+            .where(and(eq(answers.id, answerId), eq(answers.userId, userId)))
+            .returning();
+        return answer || null;
+    }
+
     async testConnection(): Promise<{ success: boolean; message: string }> {
         try {
             await db.select().from(users).limit(1);
@@ -73,7 +151,17 @@ export class DatabaseService {
         jobRole: string,
         company: string,
         experience: string,
-        questions: any[]
+        questions: any[],
+        options?: {
+            difficulty?: string;
+            targetJobId?: number;
+            resumeId?: number;
+            mode?: "standard" | "adaptive" | "coding" | "system-design" | "panel";
+            adaptiveSettings?: { maxQuestions: number; questionType: string };
+            prompt?: PromptRef;
+            locale?: Locale;
+            persona?: InterviewerPersona | null;
+        }
     ): Promise<Interview> {
         const [interview] = await db
             .insert(interviews)
@@ -83,6 +171,15 @@ export class DatabaseService {
                 company,
                 experience,
                 questions: questions,
+                difficulty: options?.difficulty,
+                mode: options?.mode,
+                locale: options?.locale,
+                persona: options?.persona,
+                adaptiveSettings: options?.adaptiveSettings,
+                targetJobId: options?.targetJobId,
+                resumeId: options?.resumeId,
+                promptId: options?.prompt?.id,
+                promptVersion: options?.prompt?.version,
             })
             .returning();
         return interview;
@@ -96,24 +193,98 @@ export class DatabaseService {
             .orderBy(desc(interviews.createdAt));
     }
 
-    async getInterviewDetails(
-        interviewId: number
-    ): Promise<{ interview: Interview; answers: Answer[] } | null> {
+    async getInterview(interviewId: number): Promise<Interview | null> {
         const [interview] = await db
             .select()
             .from(interviews)
             .where(eq(interviews.id, interviewId))
             .limit(1);
+        return interview || null;
+    }
 
+    async getInterviewDetails(interviewId: number): Promise<{
+        interview: Interview;
+        answers: Answer[];
+        followUps: FollowUp[];
+        tree: QuestionNode[];
+        levelScores: LevelScore[];
+    } | null> {
+        const interview = await this.getInterview(interviewId);
         if (!interview) {
             return null;
         }
 
         const interviewAnswers = await this.getAnswersForInterview(interviewId);
+        const interviewFollowUps = await FollowUpService.getFollowUpsForInterview(interviewId);
+        const tree = FollowUpService.buildTree(interview, interviewAnswers, interviewFollowUps);
 
         return {
             interview,
             answers: interviewAnswers,
+            followUps: interviewFollowUps,
+            tree,
+            levelScores: FollowUpService.scoreLevels(tree),
+        };
+    }
+
+    /**
+     * Report how well an interview's questions and answers cover its job description.
+     * Returns null when the interview wasn't generated from a job description.
+     */
+    async getJobCoverage(interviewId: number) {
+        const details = await this.getInterviewDetails(interviewId);
+        if (!details?.interview.targetJobId) {
+            return null;
+        }
+
+        const [targetJob] = await db
+            .select()
+            .from(targetJobs)
+            .where(eq(targetJobs.id, details.interview.targetJobId))
+            .limit(1);
+        if (!targetJob) {
+            return null;
+        }
+
+        const questions = details.interview.questions as Question[];
+        const requirements = JobDescriptionService.getRequirements(targetJob).map((requirement) => {
+            const questionIds = questions
+                .filter((q) => q.requirementId === requirement.id)
+                .map((q) => q.id);
+            const scores = details.answers
+                .filter((a) => questionIds.includes(a.questionId) && a.overallScore !== null)
+                .map((a) => a.overallScore as number);
+
+            return {
+                ...requirement,
+                questionIds,
+                answered: scores.length,
+                averageScore:
+                    scores.length > 0
+                        ? scores.reduce((sum, s) => sum + s, 0) / scores.length
+                        : null,
+            };
+        });
+
+        const answeredCount = requirements.filter((r) => r.answered > 0).length;
+
+        return {
+            targetJob: {
+                id: targetJob.id,
+                title: targetJob.title,
+                company: targetJob.company,
+                seniority: targetJob.seniority,
+            },
+            requirements,
+            coverage: {
+                asked: requirements.filter((r) => r.questionIds.length > 0).length,
+                answered: answeredCount,
+                total: requirements.length,
+                percentage:
+                    requirements.length > 0
+                        ? Math.round((answeredCount / requirements.length) * 100)
+                        : 0,
+            },
         };
     }
 
@@ -149,7 +320,33 @@ export class DatabaseService {
 
     // Answer Operations
     async saveAnswer(answerData: NewAnswer): Promise<Answer> {
-        const [savedAnswer] = await db.insert(answers).values(answerData).returning();
+        // Every prose answer gets a delivery analysis; code isn't spoken or read as prose
+        const delivery =
+            answerData.delivery ??
+            (answerData.codeLanguage
+                ? null
+                : DeliveryService.analyze({
+                      answer: answerData.answer,
+                      locale: answerData.locale,
+                      timeSpent: answerData.timeSpent,
+                      wordTimings: answerData.wordTimings as WordTiming[] | null | undefined,
+                      audioDuration: answerData.audioDuration,
+                  }));
+        const [savedAnswer] = await db
+            .insert(answers)
+            .values({ ...answerData, delivery })
+            .returning();
+        // Answers waiting for a regrade have at most heuristic estimates, which stay out of
+        // progress; queue them for the regrade worker, which recomputes progress once they're
+        // graded. The practice itself happened today, so the streak moves on now
+        if (savedAnswer.gradingStatus === "pending_regrade") {
+            await db
+                .insert(regradeJobs)
+                .values({ answerId: savedAnswer.id, userId: savedAnswer.userId })
+                .onConflictDoNothing();
+            await this.recordPractice(savedAnswer.userId);
+            return savedAnswer;
+        }
         // After saving an answer, update user progress
         await this.updateUserProgress(answerData.userId, {
             relevanceScore: savedAnswer.relevanceScore,
@@ -159,6 +356,11 @@ export class DatabaseService {
         return savedAnswer;
     }
 
+    async getAnswer(answerId: number): Promise<Answer | null> {
+        const [answer] = await db.select().from(answers).where(eq(answers.id, answerId));
+        return answer || null;
+    }
+
     async getAnswersForInterview(interviewId: number): Promise<Answer[]> {
         return await db
             .select()
@@ -198,35 +400,7 @@ export class DatabaseService {
                     newTotalAnswers,
             };
 
-            // Streak Logic
-            let newCurrentStreak = current.currentStreak || 0;
-            let newLongestStreak = current.longestStreak || 0;
-            const lastPractice = current.lastPracticeDate
-                ? new Date(current.lastPracticeDate)
-                : null;
-
-            if (lastPractice) {
-                const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-                const lastPracticeStart = new Date(
-                    lastPractice.getFullYear(),
-                    lastPractice.getMonth(),
-                    lastPractice.getDate()
-                );
-                const diffTime = todayStart.getTime() - lastPracticeStart.getTime();
-                const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-                if (diffDays === 1) {
-                    newCurrentStreak++;
-                } else if (diffDays > 1) {
-                    newCurrentStreak = 1;
-                }
-            } else {
-                newCurrentStreak = 1;
-            }
-
-            if (newCurrentStreak > newLongestStreak) {
-                newLongestStreak = newCurrentStreak;
-            }
+            const streak = nextStreak(current, today);
 
             const [updatedProgress] = await db
                 .update(userProgress)
@@ -234,8 +408,7 @@ export class DatabaseService {
                     totalQuestionsAnswered: newTotalAnswers,
                     averageScore: newAverages.averageScore,
                     lastPracticeDate: today,
-                    currentStreak: newCurrentStreak,
-                    longestStreak: newLongestStreak,
+                    ...streak,
                     updatedAt: today,
                 })
                 .where(eq(userProgress.userId, userId))
@@ -261,6 +434,90 @@ export class DatabaseService {
         }
     }
 
+    /**
+     * Advance the user's practice streak without touching their answer count or average,
+     * for answers whose scores aren't known yet
+     */
+    async recordPractice(userId: number): Promise<UserProgress> {
+        const today = new Date();
+        const [current] = await db
+            .select()
+            .from(userProgress)
+            .where(eq(userProgress.userId, userId))
+            .limit(1);
+
+        if (current) {
+            const [updated] = await db
+                .update(userProgress)
+                .set({ lastPracticeDate: today, ...nextStreak(current, today), updatedAt: today })
+                .where(eq(userProgress.userId, userId))
+                .returning();
+            return updated;
+        }
+
+        const [created] = await db
+            .insert(userProgress)
+            .values({
+                userId,
+                totalQuestionsAnswered: 0,
+                averageScore: 0,
+                currentStreak: 1,
+                longestStreak: 1,
+                lastPracticeDate: today,
+            })
+            .returning();
+        return created;
+    }
+
+    /**
+     * Rebuild a user's answer count and average score from their graded answers, e.g. after
+     * answers saved without scores have been regraded. Streaks are left as they are.
+     */
+    async recomputeUserProgress(userId: number): Promise<UserProgress> {
+        const [stats] = await db
+            .select({
+                answered: count(),
+                averageScore: avg(
+                    sql<number>`(${answers.relevanceScore} + ${answers.clarityScore} + ${answers.depthScore}) / 3`
+                ),
+                lastAnswerAt: max(answers.createdAt),
+            })
+            .from(answers)
+            .where(
+                and(
+                    eq(answers.userId, userId),
+                    eq(answers.gradingStatus, "graded"),
+                    isNotNull(answers.overallScore)
+                )
+            );
+
+        const totals = {
+            totalQuestionsAnswered: stats?.answered || 0,
+            averageScore: parseFloat(stats?.averageScore || "0"),
+        };
+
+        const [updated] = await db
+            .update(userProgress)
+            .set({ ...totals, updatedAt: new Date() })
+            .where(eq(userProgress.userId, userId))
+            .returning();
+        if (updated) {
+            return updated;
+        }
+
+        const [created] = await db
+            .insert(userProgress)
+            .values({
+                userId,
+                ...totals,
+                currentStreak: 1,
+                longestStreak: 1,
+                lastPracticeDate: stats?.lastAnswerAt || new Date(),
+            })
+            .returning();
+        return created;
+    }
+
     async getUserProgress(userId: number): Promise<UserProgress | null> {
         const result = await db
             .select()
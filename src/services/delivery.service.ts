@@ -0,0 +1,284 @@
+import { DELIVERY_LEXICON } from "../data/deliveryLexicon";
+import type { WordTiming } from "../providers";
+import { normalizeLocale, type Locale } from "../utils/locale";
+
+// Speaking rate, in words per minute, that interviewers hear as comfortable
+const PACE_RANGE = { min: 110, max: 170 };
+// Silence between two spoken words, in seconds, counted as a long pause
+const LONG_PAUSE_SECONDS = 3;
+// Sentences longer than this many words are hard to follow when spoken
+const LONG_SENTENCE_WORDS = 30;
+// Rates per 100 words above which fillers or hedging are flagged
+const FILLER_RATE_LIMIT = 3;
+const HEDGE_RATE_LIMIT = 3;
+// Answers shorter than this are too brief to judge for structure
+const MIN_STRUCTURED_WORDS = 80;
+
+export type DeliveryFlag =
+    | "frequent_fillers"
+    | "heavy_hedging"
+    | "long_sentences"
+    | "slow_pace"
+    | "fast_pace"
+    | "long_pauses"
+    | "no_structure";
+
+export interface PhraseCount {
+    term: string;
+    count: number;
+}
+
+export interface DeliveryAnalysis {
+    locale: Locale;
+    wordCount: number;
+    fillers: { total: number; per100Words: number; terms: PhraseCount[] };
+    hedges: { total: number; per100Words: number; terms: PhraseCount[] };
+    pacing: {
+        wordsPerMinute: number | null;
+        // word_timings and audio come from the recording; time_spent is the time on the question
+        source: "word_timings" | "audio" | "time_spent" | null;
+        // Judged for spoken answers only: typing speed says nothing about speaking pace
+        pace: "slow" | "good" | "fast" | null;
+        longPauses: number | null;
+    };
+    sentences: { count: number; averageWords: number; longest: number; long: number };
+    structure: {
+        star: { situation: boolean; task: boolean; action: boolean; result: boolean };
+        starCoverage: number; // Share of STAR parts with a cue, 0-1
+        signposts: number;
+        signpostTerms: PhraseCount[];
+    };
+    flags: DeliveryFlag[];
+}
+
+export type StarPart = "situation" | "task" | "action" | "result";
+
+export interface DeliveryInput {
+    answer: string;
+    locale?: string | null;
+    timeSpent?: number | null;
+    wordTimings?: WordTiming[] | null;
+    audioDuration?: number | null;
+}
+
+const round = (value: number, places = 1) => {
+    const factor = 10 ** places;
+    return Math.round(value * factor) / factor;
+};
+
+// One regex per phrase list, longest phrases first so "as a result" wins over "result" and a
+// phrase is never counted twice. Letters on either side mean the phrase is part of a longer word.
+const phrasePattern = (phrases: string[]) =>
+    new RegExp(
+        `(?<![\\p{L}\\p{N}'])(?:${[...phrases]
+            .sort((a, b) => b.length - a.length)
+            .map((phrase) => phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/ /g, "\\s+"))
+            .join("|")})(?![\\p{L}\\p{N}'])`,
+        "gu"
+    );
+
+const countPhrases = (text: string, phrases: string[]): PhraseCount[] => {
+    const counts = new Map<string, number>();
+    for (const match of text.matchAll(phrasePattern(phrases))) {
+        const term = match[0].replace(/\s+/g, " ");
+        counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    return [...counts.entries()]
+        .map(([term, count]) => ({ term, count }))
+        .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term));
+};
+
+// Answer split into sentences at end punctuation and line breaks
+const splitSentences = (answer: string): string[] =>
+    answer
+        .split(/[.!?…]+(?=\s|$)|\n+/)
+        .map((sentence) => sentence.trim())
+        .filter((sentence) => /[\p{L}\p{N}]/u.test(sentence));
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[\u2018\u2019]/g, "'");
+
+const sumCounts = (counts: PhraseCount[]) => counts.reduce((sum, { count }) => sum + count, 0);
+
+/**
+ * Deterministic analysis of how an answer is delivered, independent of what the grader thinks of
+ * its content: fillers, hedging, pace, sentence length and structure. Runs on every saved answer,
+ * so it's available even when the AI isn't.
+ */
+export class DeliveryService {
+    static analyze(input: DeliveryInput): DeliveryAnalysis {
+        const locale = normalizeLocale(input.locale);
+        const lexicon = DELIVERY_LEXICON[locale];
+        const text = normalizeText(input.answer);
+        const wordCount = text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+        const per100 = (count: number) => (wordCount > 0 ? round((count / wordCount) * 100) : 0);
+
+        const fillerTerms = countPhrases(text, lexicon.fillers);
+        const hedgeTerms = countPhrases(text, lexicon.hedges);
+        const signpostTerms = countPhrases(text, lexicon.signposts);
+        const evidence = this.starEvidence(input.answer, locale);
+        const star = {
+            situation: evidence.situation !== null,
+            task: evidence.task !== null,
+            action: evidence.action !== null,
+            result: evidence.result !== null,
+        };
+
+        const analysis: DeliveryAnalysis = {
+            locale,
+            wordCount,
+            fillers: {
+                total: sumCounts(fillerTerms),
+                per100Words: per100(sumCounts(fillerTerms)),
+                terms: fillerTerms,
+            },
+            hedges: {
+                total: sumCounts(hedgeTerms),
+                per100Words: per100(sumCounts(hedgeTerms)),
+                terms: hedgeTerms,
+            },
+            pacing: this.pacing(wordCount, input),
+            sentences: this.sentences(input.answer),
+            structure: {
+                star,
+                starCoverage: Object.values(star).filter(Boolean).length / 4,
+                signposts: sumCounts(signpostTerms),
+                signpostTerms,
+            },
+            flags: [],
+        };
+        analysis.flags = this.flags(analysis);
+        return analysis;
+    }
+
+    /**
+     * First sentence with a cue for each STAR part, or null when the answer has none
+     */
+    static starEvidence(answer: string, locale?: string | null): Record<StarPart, string | null> {
+        const { star } = DELIVERY_LEXICON[normalizeLocale(locale)];
+        const sentences = splitSentences(answer);
+        const find = (cues: string[]) =>
+            sentences.find((sentence) => countPhrases(normalizeText(sentence), cues).length > 0) ??
+            null;
+
+        return {
+            situation: find(star.situation),
+            task: find(star.task),
+            action: find(star.action),
+            result: find(star.result),
+        };
+    }
+
+    /**
+     * Roll up stored analyses, e.g. for a user's analytics over a period
+     */
+    static summarize(analyses: DeliveryAnalysis[]) {
+        const average = (values: number[]) =>
+            values.length ? round(values.reduce((a, b) => a + b, 0) / values.length) : null;
+        const spoken = analyses.filter((analysis) => analysis.pacing.pace !== null);
+
+        const fillerTotals = new Map<string, number>();
+        const flagTotals = new Map<string, number>();
+        for (const analysis of analyses) {
+            for (const { term, count } of analysis.fillers.terms) {
+                fillerTotals.set(term, (fillerTotals.get(term) || 0) + count);
+            }
+            for (const flag of analysis.flags) {
+                flagTotals.set(flag, (flagTotals.get(flag) || 0) + 1);
+            }
+        }
+        const top = (totals: Map<string, number>) =>
+            [...totals.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5);
+
+        return {
+            answersAnalyzed: analyses.length,
+            fillersPer100Words: average(analyses.map((a) => a.fillers.per100Words)),
+            hedgesPer100Words: average(analyses.map((a) => a.hedges.per100Words)),
+            averageSentenceWords: average(analyses.map((a) => a.sentences.averageWords)),
+            starCoveragePercent: average(analyses.map((a) => a.structure.starCoverage * 100)),
+            signpostedAnswers: analyses.filter((a) => a.structure.signposts > 0).length,
+            spokenAnswers: spoken.length,
+            spokenWordsPerMinute: average(spoken.map((a) => a.pacing.wordsPerMinute ?? 0)),
+            topFillers: top(fillerTotals).map(([term, count]) => ({ term, count })),
+            commonFlags: top(flagTotals).map(([flag, count]) => ({ flag, count })),
+        };
+    }
+
+    private static pacing(wordCount: number, input: DeliveryInput): DeliveryAnalysis["pacing"] {
+        const timings = input.wordTimings?.length ? input.wordTimings : null;
+
+        let wordsPerMinute: number | null = null;
+        let source: DeliveryAnalysis["pacing"]["source"] = null;
+        if (timings) {
+            // Time from the first word to the last, so silence before and after doesn't count
+            const span = timings[timings.length - 1].end - timings[0].start;
+            if (span > 0) {
+                wordsPerMinute = (timings.length / span) * 60;
+                source = "word_timings";
+            }
+        }
+        if (wordsPerMinute === null && input.audioDuration && input.audioDuration > 0) {
+            wordsPerMinute = (wordCount / input.audioDuration) * 60;
+            source = "audio";
+        }
+        if (wordsPerMinute === null && input.timeSpent && input.timeSpent > 0) {
+            wordsPerMinute = (wordCount / input.timeSpent) * 60;
+            source = "time_spent";
+        }
+
+        let longPauses: number | null = null;
+        if (timings) {
+            longPauses = 0;
+            for (let i = 1; i < timings.length; i++) {
+                if (timings[i].start - timings[i - 1].end >= LONG_PAUSE_SECONDS) longPauses++;
+            }
+        }
+
+        const spoken = source === "word_timings" || source === "audio";
+        return {
+            wordsPerMinute: wordsPerMinute === null ? null : Math.round(wordsPerMinute),
+            source,
+            pace:
+                spoken && wordsPerMinute !== null
+                    ? wordsPerMinute < PACE_RANGE.min
+                        ? "slow"
+                        : wordsPerMinute > PACE_RANGE.max
+                          ? "fast"
+                          : "good"
+                    : null,
+            longPauses,
+        };
+    }
+
+    private static sentences(answer: string): DeliveryAnalysis["sentences"] {
+        const lengths = splitSentences(answer).map(
+            (sentence) => sentence.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length
+        );
+
+        return {
+            count: lengths.length,
+            averageWords: lengths.length
+                ? round(lengths.reduce((a, b) => a + b, 0) / lengths.length)
+                : 0,
+            longest: lengths.length ? Math.max(...lengths) : 0,
+            long: lengths.filter((length) => length > LONG_SENTENCE_WORDS).length,
+        };
+    }
+
+    private static flags(analysis: DeliveryAnalysis): DeliveryFlag[] {
+        const flags: DeliveryFlag[] = [];
+        if (analysis.fillers.per100Words > FILLER_RATE_LIMIT) flags.push("frequent_fillers");
+        if (analysis.hedges.per100Words > HEDGE_RATE_LIMIT) flags.push("heavy_hedging");
+        if (analysis.sentences.averageWords > LONG_SENTENCE_WORDS) flags.push("long_sentences");
+        if (analysis.pacing.pace === "slow") flags.push("slow_pace");
+        if (analysis.pacing.pace === "fast") flags.push("fast_pace");
+        if (analysis.pacing.longPauses) flags.push("long_pauses");
+        if (
+            analysis.wordCount >= MIN_STRUCTURED_WORDS &&
+            analysis.structure.signposts === 0 &&
+            analysis.structure.starCoverage < 0.5
+        ) {
+            flags.push("no_structure");
+        }
+        return flags;
+    }
+}
@@ -1,59 +1,569 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getLLMProvider } from "../providers";
+import { generateStructured } from "../utils/structuredOutput";
+import { JsonStreamParser } from "../utils/jsonStream";
+import {
+    feedbackSchemaFor,
+    type CriterionScore,
+    type Feedback,
+    type OutputSource,
+    type QuestionType,
+} from "../schemas/ai.schema";
+import { RubricService } from "./rubric.service";
+import { HeuristicGradingService } from "./heuristicGrading.service";
+import { renderPrompt, resolvePrompt, type PromptRef } from "../prompts";
+import { detectInjection } from "../utils/promptInjection";
+import { DEFAULT_LOCALE, localize, type Locale } from "../utils/locale";
+import type { InterviewerPersona } from "../data/personas";
+import logger from "../utils/logger";
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+// Most samples a single answer may be graded with
+export const MAX_GRADING_SAMPLES = 5;
+
+// Ensemble confidence (0-1) below which an answer's scores are flagged as unreliable
+export const LOW_CONFIDENCE_THRESHOLD = parseFloat(process.env.LOW_CONFIDENCE_THRESHOLD || "0.7");
+
+// Highest score any criterion keeps when the answer appears to instruct the grader
+export const INJECTION_SCORE_CAP = parseFloat(process.env.INJECTION_SCORE_CAP || "3");
+
+// Extra grading instructions, one per ensemble sample, so samples don't share one prompt's bias
+const GRADING_VARIANTS = [
+    "",
+    "Before scoring, find the exact sentences that support or undermine each criterion, and base every score only on what the answer actually says.",
+    "Use these anchors for every score: 2 = missing or wrong, 5 = present but generic, 8 = specific and convincing, 10 = exceptional and hard to improve.",
+];
+
+export interface GradingOptions {
+    // Number of independent gradings to combine; 1 grades once
+    samples?: number;
+    // Assigns the user's prompt experiment arm
+    userId?: number;
+    // Language the feedback text is written in. Scores use the same rubric in every language.
+    locale?: Locale;
+    // Interviewer whose voice the feedback is written in. Scores are the same for every persona.
+    persona?: InterviewerPersona | null;
+}
+
+// How an ensemble-graded answer's scores were combined
+export interface GradingSummary {
+    samples: number;
+    // 1 when every sample agreed on the overall score, lower as they disagree
+    confidence: number;
+    // Max minus min per score across samples
+    spread: Record<string, number>;
+    lowConfidence: boolean;
+}
+
+// Who produced an answer's scores: the AI grader, or the rule-based estimate used while it's
+// unavailable
+export type ScoredBy = "ai" | "heuristic";
+
+export type FeedbackResult = Feedback & {
+    source: OutputSource;
+    // Question type whose rubric graded the answer
+    rubric: QuestionType;
+    overallScore: number;
+    grading?: GradingSummary;
+    // Prompt version the answer was graded with
+    prompt: PromptRef;
+    // Null when the answer couldn't be scored at all
+    scoredBy: ScoredBy | null;
+    // The answer looked like an attempt to instruct the grader; scores are capped
+    suspectedInjection: boolean;
+    injectionSignals: string[];
+    // Language the feedback text is written in
+    locale: Locale;
+};
+
+// Overall-score spread (in points) at which ensemble confidence reaches 0
+const OVERALL_SPREAD_AT_ZERO_CONFIDENCE = 5;
+
+// Graded feedback before the injection post-check
+type UnguardedFeedback = Omit<FeedbackResult, "suspectedInjection" | "injectionSignals" | "locale">;
+
+type GradedSample = { data: Feedback; source: OutputSource; prompt: PromptRef };
+
+const SCORE_FIELDS = [
+    "relevanceScore",
+    "clarityScore",
+    "depthScore",
+    "communicationScore",
+] as const;
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export type GradingStatus = "graded" | "pending_regrade";
+
+// Criteria that carry evidence; unscored fallback criteria are placeholders with none
+const measuredCriteria = (criteria: Record<string, CriterionScore>) => {
+    const measured = Object.entries(criteria).filter(([, criterion]) => criterion.evidence);
+    return measured.length > 0 ? Object.fromEntries(measured) : null;
+};
+
+/**
+ * Score columns of the answers table for a graded answer. Fallback feedback is never stored as
+ * a final grade: heuristic estimates are kept with the answer pending a regrade, and feedback
+ * with no scores at all is stored as null rather than counted as zero. Criteria measured
+ * without the model (a coding answer's test pass rate) are kept either way.
+ */
+export const toAnswerScores = (feedback: FeedbackResult) => {
+    if (feedback.source === "fallback" && feedback.scoredBy !== "heuristic") {
+        return {
+            relevanceScore: null,
+            clarityScore: null,
+            depthScore: null,
+            communicationScore: null,
+            overallScore: null,
+            rubric: feedback.rubric,
+            rubricScores: measuredCriteria(feedback.criteria),
+            starMethodScore: null,
+            strengths: [],
+            improvements: [],
+            exampleAnswer: null,
+            gradingStatus: "pending_regrade" as GradingStatus,
+            scoredBy: null,
+            suspectedInjection: feedback.suspectedInjection,
+            locale: feedback.locale,
+        };
+    }
+
+    const heuristic = feedback.scoredBy === "heuristic";
+
+    return {
+        relevanceScore: feedback.relevanceScore,
+        clarityScore: feedback.clarityScore,
+        depthScore: feedback.depthScore,
+        communicationScore: feedback.communicationScore,
+        overallScore: feedback.overallScore,
+        rubric: feedback.rubric,
+        rubricScores: feedback.criteria,
+        starMethodScore: RubricService.starBreakdown(feedback.rubric, feedback.criteria),
+        strengths: feedback.strengths,
+        // Older prompts only produced a single suggestion; keep it when the list is empty
+        improvements:
+            feedback.improvements.length || heuristic
+                ? feedback.improvements
+                : feedback.suggestion
+                  ? [feedback.suggestion]
+                  : [],
+        exampleAnswer: feedback.exampleAnswer || null,
+        gradingStatus: (heuristic ? "pending_regrade" : "graded") as GradingStatus,
+        scoredBy: feedback.scoredBy,
+        gradingSamples: feedback.grading?.samples ?? 1,
+        confidence: feedback.grading?.confidence ?? null,
+        scoreSpread: feedback.grading?.spread ?? null,
+        lowConfidence: feedback.grading?.lowConfidence ?? false,
+        // Heuristic estimates don't count towards the prompt's results
+        promptId: heuristic ? null : feedback.prompt.id,
+        promptVersion: heuristic ? null : feedback.prompt.version,
+        suspectedInjection: feedback.suspectedInjection,
+        locale: feedback.locale,
+    };
+};
 
 class FeedbackService {
-    async generateFeedback(question: string, answer: string): Promise<any> {
-        const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-
-        const prompt = `
-      Analyze the following interview answer based on the question. Provide a detailed evaluation covering:
-      1.  **Relevance**: How well does the answer address the question?
-      2.  **Clarity**: Is the answer clear, concise, and easy to understand?
-      3.  **Depth**: Does the answer demonstrate a deep understanding of the topic?
-      4.  **STAR Method**: If applicable, evaluate the use of the Situation, Task, Action, and Result (STAR) method for behavioral questions.
-
-      **Question**: "${question}"
-      **Answer**: "${answer}"
-
-      Provide a score from 1 to 10 for each of the four categories (Relevance, Clarity, Depth, STAR Method).
-      Also, provide a brief "Overall Feedback" summary and a "Suggestion for Improvement".
-
-      Format the output as a JSON object with the following structure:
-      {
-        "relevanceScore": number,
-        "clarityScore": number,
-        "depthScore": number,
-        "starMethodScore": number,
-        "overallFeedback": "string",
-        "suggestion": "string"
-      }
-    `;
+    /**
+     * Grade an answer with the rubric for its question type. When the type isn't known it is
+     * guessed from the question's wording. With `samples` > 1 the answer is graded that many
+     * times with different prompt variants and the per-score medians are returned. Answers
+     * that try to instruct the grader get their scores capped.
+     */
+    async generateFeedback(
+        question: string,
+        answer: string,
+        questionType: QuestionType = RubricService.resolveQuestionType(question),
+        options: GradingOptions = {}
+    ): Promise<FeedbackResult> {
+        return this.guardInjection(
+            answer,
+            await this.grade(question, answer, questionType, options),
+            options.locale
+        );
+    }
+
+    /**
+     * Streaming variant of generateFeedback. Each top-level field (a score or a text section)
+     * is passed to `onSection` once complete. If the streamed object fails validation, the
+     * non-streaming path (with repair and fallback) produces the final result. In ensemble mode
+     * only the first sample streams; the result combines it with the remaining samples.
+     * Suspected injections aren't streamed, so uncapped scores never reach the client.
+     */
+    async streamFeedback(
+        question: string,
+        answer: string,
+        onSection: (key: string, value: unknown) => void,
+        questionType: QuestionType = RubricService.resolveQuestionType(question),
+        options: GradingOptions = {}
+    ): Promise<FeedbackResult> {
+        if (detectInjection(answer).suspected) {
+            return this.generateFeedback(question, answer, questionType, options);
+        }
+
+        const samples = this.sampleCount(options);
+        const { prompt, ref } = this.buildPrompt(question, answer, questionType, 0, options);
+        const assembled: Record<string, unknown> = {};
 
         try {
-            const result = await model.generateContent(prompt);
-            const response = await result.response;
-            const text = await response.text();
+            const parser = new JsonStreamParser();
+            const stream = getLLMProvider().generateStream({
+                task: "feedback",
+                prompt,
+                hints: { question, answer, questionType },
+            });
 
-            // Clean the response to ensure it's valid JSON
-            const jsonString = text
-                .replace(/```json/g, "")
-                .replace(/```/g, "")
-                .trim();
+            for await (const chunk of stream) {
+                for (const item of parser.push(chunk)) {
+                    if (!item.key) continue;
+                    assembled[item.key] = item.value;
+                    onSection(item.key, item.value);
+                }
+            }
 
-            return JSON.parse(jsonString);
+            const parsed = feedbackSchemaFor(RubricService.criteriaKeys(questionType)).safeParse(
+                assembled
+            );
+            if (parsed.success) {
+                if (samples === 1) {
+                    return this.guardInjection(
+                        answer,
+                        this.withRubric(parsed.data, "ai", questionType, ref),
+                        options.locale
+                    );
+                }
+                const rest = await this.gradeSamples(
+                    question,
+                    answer,
+                    questionType,
+                    1,
+                    samples - 1,
+                    options
+                );
+                return this.guardInjection(
+                    answer,
+                    this.combineSamples(
+                        [{ data: parsed.data, source: "ai", prompt: ref }, ...rest],
+                        questionType
+                    ),
+                    options.locale
+                );
+            }
+            logger.warn("Streamed feedback failed validation, regenerating", {
+                error: parsed.error.issues[0]?.message,
+            });
         } catch (error) {
-            console.error("Error generating feedback from AI:", error);
-            // Provide a fallback error response
+            logger.error("Feedback stream failed", {
+                error: error instanceof Error ? error.message : error,
+            });
+        }
+
+        return this.generateFeedback(question, answer, questionType, options);
+    }
+
+    private async grade(
+        question: string,
+        answer: string,
+        questionType: QuestionType,
+        options: GradingOptions
+    ): Promise<UnguardedFeedback> {
+        const samples = this.sampleCount(options);
+
+        if (samples === 1) {
+            try {
+                const { data, source, prompt } = await this.gradeOnce(
+                    question,
+                    answer,
+                    questionType,
+                    0,
+                    options
+                );
+                return this.withRubric(data, source, questionType, prompt);
+            } catch (error) {
+                logger.error("Error generating feedback from AI:", {
+                    error: error instanceof Error ? error.message : error,
+                });
+                // Fall back to a rule-based estimate
+                return this.fallbackFeedback(question, answer, questionType, options);
+            }
+        }
+
+        const graded = await this.gradeSamples(question, answer, questionType, 0, samples, options);
+        if (graded.length === 0) {
+            return this.fallbackFeedback(question, answer, questionType, options);
+        }
+        return this.combineSamples(graded, questionType);
+    }
+
+    /**
+     * Post-check for answers that look like they instruct the grader: every score is capped at
+     * INJECTION_SCORE_CAP and the answer is flagged, whatever the model was talked into
+     */
+    private guardInjection(
+        answer: string,
+        feedback: UnguardedFeedback,
+        locale: Locale = DEFAULT_LOCALE
+    ): FeedbackResult {
+        const check = detectInjection(answer);
+        if (!check.suspected) {
+            return { ...feedback, suspectedInjection: false, injectionSignals: [], locale };
+        }
+
+        logger.warn("Possible prompt injection in answer, capping scores", {
+            signals: check.signals,
+        });
+        const cap = (score: number) => Math.min(score, INJECTION_SCORE_CAP);
+        const capped: Feedback = {
+            ...feedback,
+            relevanceScore: cap(feedback.relevanceScore),
+            clarityScore: cap(feedback.clarityScore),
+            depthScore: cap(feedback.depthScore),
+            communicationScore: cap(feedback.communicationScore),
+            criteria: Object.fromEntries(
+                Object.entries(feedback.criteria).map(([key, value]) => [
+                    key,
+                    { ...value, score: cap(value.score) },
+                ])
+            ),
+            improvements: [localize(locale, "injectionImprovement"), ...feedback.improvements],
+        };
+
+        return {
+            ...feedback,
+            ...capped,
+            overallScore: RubricService.overallScore(feedback.rubric, capped),
+            suspectedInjection: true,
+            injectionSignals: check.signals,
+            locale,
+        };
+    }
+
+    private sampleCount(options: GradingOptions): number {
+        return Math.min(MAX_GRADING_SAMPLES, Math.max(1, Math.floor(options.samples || 1)));
+    }
+
+    private async gradeOnce(
+        question: string,
+        answer: string,
+        questionType: QuestionType,
+        variant: number,
+        options: GradingOptions
+    ): Promise<GradedSample> {
+        const { prompt, ref } = this.buildPrompt(question, answer, questionType, variant, options);
+        const { data, source } = await generateStructured(
+            getLLMProvider(),
+            {
+                task: "feedback",
+                prompt,
+                hints: { question, answer, questionType, variant },
+            },
+            feedbackSchemaFor(RubricService.criteriaKeys(questionType))
+        );
+        return { data, source, prompt: ref };
+    }
+
+    /**
+     * Grade `count` samples concurrently, starting at prompt variant `firstVariant`.
+     * Failed samples are dropped.
+     */
+    private async gradeSamples(
+        question: string,
+        answer: string,
+        questionType: QuestionType,
+        firstVariant: number,
+        count: number,
+        options: GradingOptions
+    ): Promise<GradedSample[]> {
+        const results = await Promise.allSettled(
+            Array.from({ length: count }, (_, i) =>
+                this.gradeOnce(
+                    question,
+                    answer,
+                    questionType,
+                    (firstVariant + i) % GRADING_VARIANTS.length,
+                    options
+                )
+            )
+        );
+
+        const graded: GradedSample[] = [];
+        for (const result of results) {
+            if (result.status === "fulfilled") {
+                graded.push(result.value);
+            } else {
+                logger.warn("Ensemble grading sample failed", {
+                    error: result.reason instanceof Error ? result.reason.message : result.reason,
+                });
+            }
+        }
+        return graded;
+    }
+
+    /**
+     * Median of each score across samples. Evidence comes from the sample closest to each
+     * criterion's median; the written feedback from the sample closest to the median overall.
+     */
+    private combineSamples(graded: GradedSample[], questionType: QuestionType): UnguardedFeedback {
+        const spread: Record<string, number> = {};
+        const combine = (values: number[], key: string) => {
+            spread[key] = Math.max(...values) - Math.min(...values);
+            return median(values);
+        };
+
+        const scores = Object.fromEntries(
+            SCORE_FIELDS.map((field) => [
+                field,
+                combine(
+                    graded.map((sample) => sample.data[field]),
+                    field
+                ),
+            ])
+        ) as Pick<Feedback, (typeof SCORE_FIELDS)[number]>;
+
+        const criteria: Feedback["criteria"] = {};
+        for (const key of RubricService.criteriaKeys(questionType)) {
+            const values = graded.map((sample) => sample.data.criteria[key]?.score ?? 0);
+            const score = combine(values, key);
+            const closest = graded.reduce((best, sample) =>
+                Math.abs((sample.data.criteria[key]?.score ?? 0) - score) <
+                Math.abs((best.data.criteria[key]?.score ?? 0) - score)
+                    ? sample
+                    : best
+            );
+            criteria[key] = { score, evidence: closest.data.criteria[key]?.evidence || "" };
+        }
+
+        const overall = graded.map((sample) =>
+            RubricService.overallScore(questionType, sample.data)
+        );
+        const medianOverall = median(overall);
+        const representative =
+            graded[
+                overall.reduce(
+                    (best, value, i) =>
+                        Math.abs(value - medianOverall) < Math.abs(overall[best] - medianOverall)
+                            ? i
+                            : best,
+                    0
+                )
+            ];
+
+        // Confidence tracks disagreement on the overall score: 0.5 points apart gives 0.9,
+        // 2.5 or more gives 0.5 or less
+        spread.overall = Math.round((Math.max(...overall) - Math.min(...overall)) * 10) / 10;
+        const confidence =
+            Math.round(Math.max(0, 1 - spread.overall / OVERALL_SPREAD_AT_ZERO_CONFIDENCE) * 100) /
+            100;
+
+        const source: OutputSource = graded.some((sample) => sample.source !== "ai")
+            ? "repaired"
+            : "ai";
+
+        return {
+            ...this.withRubric(
+                { ...representative.data, ...scores, criteria },
+                source,
+                questionType,
+                representative.prompt
+            ),
+            grading: {
+                samples: graded.length,
+                confidence,
+                spread,
+                lowConfidence: confidence < LOW_CONFIDENCE_THRESHOLD,
+            },
+        };
+    }
+
+    private withRubric(
+        feedback: Feedback,
+        source: OutputSource,
+        questionType: QuestionType,
+        prompt: PromptRef
+    ): UnguardedFeedback {
+        return {
+            ...feedback,
+            source,
+            rubric: questionType,
+            overallScore: RubricService.overallScore(questionType, feedback),
+            prompt,
+            scoredBy: "ai",
+        };
+    }
+
+    /**
+     * Feedback when the AI grader is unavailable: a heuristic estimate where the answer can be
+     * judged that way, otherwise no scores at all
+     */
+    private fallbackFeedback(
+        question: string,
+        answer: string,
+        questionType: QuestionType,
+        options: GradingOptions
+    ): UnguardedFeedback {
+        const template = resolvePrompt("feedback", options.userId);
+        const prompt = { id: template.id, version: template.version };
+        const locale = options.locale || DEFAULT_LOCALE;
+
+        const estimate = HeuristicGradingService.grade(question, answer, questionType, locale);
+        if (estimate) {
+            logger.info("Answer scored heuristically", { questionType });
             return {
-                relevanceScore: 0,
-                clarityScore: 0,
-                depthScore: 0,
-                starMethodScore: 0,
-                overallFeedback: "Could not generate feedback due to an error.",
-                suggestion: "Please try again later.",
+                ...estimate,
+                source: "fallback",
+                rubric: questionType,
+                overallScore: RubricService.overallScore(questionType, estimate),
+                prompt,
+                scoredBy: "heuristic",
             };
         }
+
+        return {
+            relevanceScore: 0,
+            clarityScore: 0,
+            depthScore: 0,
+            communicationScore: 0,
+            criteria: Object.fromEntries(
+                RubricService.criteriaKeys(questionType).map((key) => [
+                    key,
+                    { score: 0, evidence: "" },
+                ])
+            ),
+            strengths: [],
+            improvements: [],
+            exampleAnswer: "",
+            overallFeedback: localize(locale, "feedbackUnavailable"),
+            suggestion: localize(locale, "feedbackRetry"),
+            source: "fallback",
+            rubric: questionType,
+            overallScore: 0,
+            prompt,
+            scoredBy: null,
+        };
+    }
+
+    private buildPrompt(
+        question: string,
+        answer: string,
+        questionType: QuestionType,
+        variant: number,
+        options: GradingOptions
+    ): { prompt: string; ref: PromptRef } {
+        return renderPrompt(
+            "feedback",
+            {
+                question,
+                answer,
+                questionType,
+                rubricDescription: RubricService.describeForPrompt(questionType),
+                criteriaKeys: RubricService.criteriaKeys(questionType),
+                variantInstruction: GRADING_VARIANTS[variant],
+                locale: options.locale,
+                persona: options.persona,
+            },
+            options.userId
+        );
     }
 }
 
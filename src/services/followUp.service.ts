@@ -0,0 +1,235 @@
+import { db } from "../lib/db";
+import { answers, followUps, type Answer, type FollowUp, type Interview } from "../db/schema";
+import { eq, asc } from "drizzle-orm";
+import type { Question } from "../schemas/ai.schema";
+
+// How many follow-ups deep a chain may go below an interview question
+export const MAX_FOLLOW_UP_DEPTH = parseInt(process.env.MAX_FOLLOW_UP_DEPTH || "3", 10);
+
+export class FollowUpError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number
+    ) {
+        super(message);
+        this.name = "FollowUpError";
+    }
+}
+
+// One question/answer turn in a chain, oldest first
+export interface FollowUpTurn {
+    question: string;
+    answer: string;
+}
+
+export interface FollowUpNode extends FollowUp {
+    answers: AnswerNode[];
+}
+
+export interface AnswerNode extends Answer {
+    depth: number;
+    followUps: FollowUpNode[];
+}
+
+export interface QuestionNode {
+    questionId: string;
+    question: string;
+    answers: AnswerNode[];
+}
+
+export interface LevelScore {
+    depth: number;
+    answered: number;
+    averageScore: number | null;
+}
+
+export class FollowUpService {
+    /**
+     * Validate that a follow-up can be asked after `parentAnswerId` and return the parent,
+     * the depth the new follow-up would sit at and the conversation so far.
+     */
+    static async prepareFollowUp(
+        interviewId: number,
+        parentAnswerId: number
+    ): Promise<{ parent: Answer; depth: number; rootQuestionId: string; history: FollowUpTurn[] }> {
+        const [parent] = await db
+            .select()
+            .from(answers)
+            .where(eq(answers.id, parentAnswerId))
+            .limit(1);
+
+        if (!parent || parent.interviewId !== interviewId) {
+            throw new FollowUpError("Parent answer not found in this interview", 404);
+        }
+
+        const history: FollowUpTurn[] = [{ question: parent.question, answer: parent.answer }];
+        let rootQuestionId = parent.questionId;
+        let depth = 1;
+
+        // Walk up the chain: answer -> follow-up it answered -> that follow-up's parent answer
+        let followUpId = parent.followUpId;
+        while (followUpId) {
+            const [followUp] = await db
+                .select()
+                .from(followUps)
+                .where(eq(followUps.id, followUpId))
+                .limit(1);
+            if (!followUp) break;
+
+            const [ancestor] = await db
+                .select()
+                .from(answers)
+                .where(eq(answers.id, followUp.parentAnswerId))
+                .limit(1);
+            if (!ancestor) break;
+
+            history.unshift({ question: ancestor.question, answer: ancestor.answer });
+            rootQuestionId = followUp.rootQuestionId;
+            depth = followUp.depth + 1;
+            followUpId = ancestor.followUpId;
+        }
+
+        if (depth > MAX_FOLLOW_UP_DEPTH) {
+            throw new FollowUpError(
+                `Follow-up depth limit reached (maximum ${MAX_FOLLOW_UP_DEPTH})`,
+                409
+            );
+        }
+
+        return { parent, depth, rootQuestionId, history };
+    }
+
+    static async createFollowUp(data: {
+        interviewId: number;
+        parentAnswerId: number;
+        rootQuestionId: string;
+        depth: number;
+        question: string;
+    }): Promise<FollowUp> {
+        const [followUp] = await db.insert(followUps).values(data).returning();
+        return followUp;
+    }
+
+    /**
+     * Look up a follow-up that is being answered. Throws when it doesn't belong to the interview.
+     */
+    static async getFollowUp(followUpId: number, interviewId: number): Promise<FollowUp> {
+        const [followUp] = await db
+            .select()
+            .from(followUps)
+            .where(eq(followUps.id, followUpId))
+            .limit(1);
+
+        if (!followUp || followUp.interviewId !== interviewId) {
+            throw new FollowUpError("Follow-up not found in this interview", 404);
+        }
+        return followUp;
+    }
+
+    static async getFollowUpsForInterview(interviewId: number): Promise<FollowUp[]> {
+        return await db
+            .select()
+            .from(followUps)
+            .where(eq(followUps.interviewId, interviewId))
+            .orderBy(asc(followUps.createdAt));
+    }
+
+    /**
+     * Assemble the question -> answer -> follow-up tree for an interview
+     */
+    static buildTree(
+        interview: Interview,
+        interviewAnswers: Answer[],
+        interviewFollowUps: FollowUp[]
+    ): QuestionNode[] {
+        const followUpsByParent = new Map<number, FollowUp[]>();
+        for (const followUp of interviewFollowUps) {
+            const siblings = followUpsByParent.get(followUp.parentAnswerId) || [];
+            siblings.push(followUp);
+            followUpsByParent.set(followUp.parentAnswerId, siblings);
+        }
+
+        const answersByFollowUp = new Map<number, Answer[]>();
+        const rootAnswers = new Map<string, Answer[]>();
+        const chronological = [...interviewAnswers].sort(
+            (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        );
+        for (const answer of chronological) {
+            if (answer.followUpId) {
+                const list = answersByFollowUp.get(answer.followUpId) || [];
+                list.push(answer);
+                answersByFollowUp.set(answer.followUpId, list);
+            } else {
+                const list = rootAnswers.get(answer.questionId) || [];
+                list.push(answer);
+                rootAnswers.set(answer.questionId, list);
+            }
+        }
+
+        const toAnswerNode = (answer: Answer, depth: number): AnswerNode => ({
+            ...answer,
+            depth,
+            followUps: (followUpsByParent.get(answer.id) || []).map((followUp) => ({
+                ...followUp,
+                answers: (answersByFollowUp.get(followUp.id) || []).map((child) =>
+                    toAnswerNode(child, followUp.depth)
+                ),
+            })),
+        });
+
+        const questions = Array.isArray(interview.questions)
+            ? (interview.questions as Question[])
+            : [];
+        const nodes: QuestionNode[] = questions.map((q) => ({
+            questionId: String(q.id),
+            question: q.question,
+            answers: (rootAnswers.get(String(q.id)) || []).map((a) => toAnswerNode(a, 0)),
+        }));
+
+        // Answers to questions that are no longer in the interview's list still belong in the tree
+        const known = new Set(nodes.map((node) => node.questionId));
+        for (const [questionId, list] of rootAnswers) {
+            if (known.has(questionId)) continue;
+            nodes.push({
+                questionId,
+                question: list[0].question,
+                answers: list.map((a) => toAnswerNode(a, 0)),
+            });
+        }
+
+        return nodes;
+    }
+
+    /**
+     * Average overall score at each level of the tree (0 = interview questions)
+     */
+    static scoreLevels(tree: QuestionNode[]): LevelScore[] {
+        const levels = new Map<number, number[]>();
+        const answeredAt = new Map<number, number>();
+
+        const visit = (node: AnswerNode) => {
+            answeredAt.set(node.depth, (answeredAt.get(node.depth) || 0) + 1);
+            if (node.overallScore !== null && node.overallScore !== undefined) {
+                const scores = levels.get(node.depth) || [];
+                scores.push(node.overallScore);
+                levels.set(node.depth, scores);
+            }
+            node.followUps.forEach((followUp) => followUp.answers.forEach(visit));
+        };
+        tree.forEach((question) => question.answers.forEach(visit));
+
+        return [...answeredAt.keys()]
+            .sort((a, b) => a - b)
+            .map((depth) => {
+                const scores = levels.get(depth) || [];
+                return {
+                    depth,
+                    answered: answeredAt.get(depth) || 0,
+                    averageScore: scores.length
+                        ? Math.round((scores.reduce((sum, s) => sum + s, 0) / scores.length) * 10) /
+                          10
+                        : null,
+                };
+            });
+    }
+}
@@ -0,0 +1,189 @@
+import type { CriterionScore, Feedback, QuestionType } from "../schemas/ai.schema";
+import { DeliveryService, type DeliveryAnalysis, type StarPart } from "./delivery.service";
+import { tokenize } from "../utils/textSimilarity";
+import { localize, type Locale } from "../utils/locale";
+import type { MessageKey } from "../data/localizedMessages";
+
+// Share of the question's key terms an answer must echo to count as fully on topic
+const FULL_RELEVANCE_COVERAGE = 0.5;
+// Answers shorter than this many words can't be relevant, clear or deep enough to score well
+const MIN_SCORED_WORDS = 20;
+
+// Numbers with an optional unit, e.g. "40%", "2.5x", "300 ms", "10k"
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)?\s*(?:%|x\b|k\b|ms\b|percent\b)?/gi;
+// Names that read as technologies or products: acronyms (AWS, SQL), inner capitals
+// (PostgreSQL, iOS) and letters mixed with digits or dots (S3, Node.js, OAuth2)
+const TECH_TOKEN =
+    /^(?:[A-Z]{2,}[a-z0-9]*|[a-z]*[A-Z][a-z]+[A-Z]\w*|[a-z]+[A-Z]\w*|[A-Za-z]+\d\w*|\w+\.(?:js|ts|io|net|py))$/;
+
+const STAR_MESSAGES: Record<StarPart, MessageKey> = {
+    situation: "heuristicStarSituation",
+    task: "heuristicStarTask",
+    action: "heuristicStarAction",
+    result: "heuristicStarResult",
+};
+
+const clamp = (score: number) => Math.round(Math.min(10, Math.max(0, score)) * 10) / 10;
+
+/**
+ * Rule-based grading used when the AI grader is unavailable. Relevance comes from the answer's
+ * overlap with the question's key terms, clarity from readability, depth from specificity cues
+ * and STAR criteria from pattern matching. The scores are estimates on the same 0-10 scale;
+ * answers graded this way are regraded by the AI once it's back.
+ */
+export class HeuristicGradingService {
+    /**
+     * Estimated feedback for an answer, or null for code, which prose heuristics can't judge
+     */
+    static grade(
+        question: string,
+        answer: string,
+        questionType: QuestionType,
+        locale: Locale
+    ): Feedback | null {
+        if (questionType === "coding") return null;
+
+        const delivery = DeliveryService.analyze({ answer, locale });
+        const coverage = this.coverage(question, answer);
+        const specifics = this.specifics(answer, locale);
+        // Very short answers are scaled down in proportion to how short they are
+        const brevity = Math.min(1, delivery.wordCount / MIN_SCORED_WORDS);
+
+        const relevanceScore = clamp(
+            (3 + 7 * Math.min(1, coverage / FULL_RELEVANCE_COVERAGE)) * brevity
+        );
+        const clarityScore = clamp(this.readability(answer, delivery) * brevity);
+        const depthScore = clamp(
+            (1 +
+                Math.min(4, specifics.numbers) * 0.6 +
+                Math.min(5, specifics.technologies) * 0.5 +
+                (delivery.structure.star.result ? 1.5 : 0) +
+                Math.min(2, delivery.wordCount / 100)) *
+                brevity
+        );
+        const communicationScore = clamp(
+            (clarityScore * 0.6 + this.structure(delivery) * 0.4) * Math.max(brevity, 0.5)
+        );
+
+        const criteria: Record<string, CriterionScore> = {};
+        if (questionType === "behavioral") {
+            const evidence = DeliveryService.starEvidence(answer, locale);
+            for (const part of Object.keys(STAR_MESSAGES) as StarPart[]) {
+                const sentence = evidence[part];
+                criteria[part] = {
+                    // A measurable result is worth more than a vague one
+                    score: sentence ? (part === "result" && /\d/.test(sentence) ? 7 : 6) : 2,
+                    evidence: sentence || "",
+                };
+            }
+        }
+
+        const strengths: string[] = [];
+        if (coverage >= FULL_RELEVANCE_COVERAGE)
+            strengths.push(localize(locale, "heuristicOnTopic"));
+        if (specifics.numbers + specifics.technologies >= 2) {
+            strengths.push(localize(locale, "heuristicSpecific"));
+        }
+        if (delivery.structure.signposts > 0 || delivery.structure.starCoverage >= 0.75) {
+            strengths.push(localize(locale, "heuristicStructured"));
+        }
+
+        const improvements: string[] = [];
+        if (coverage < FULL_RELEVANCE_COVERAGE / 2) {
+            improvements.push(localize(locale, "heuristicOffTopic"));
+        }
+        if (specifics.numbers + specifics.technologies === 0) {
+            improvements.push(localize(locale, "heuristicVague"));
+        }
+        if (delivery.flags.includes("long_sentences")) {
+            improvements.push(localize(locale, "heuristicLongSentences"));
+        }
+        if (
+            delivery.flags.includes("frequent_fillers") ||
+            delivery.flags.includes("heavy_hedging")
+        ) {
+            improvements.push(localize(locale, "heuristicFillers"));
+        }
+        for (const [part, message] of Object.entries(STAR_MESSAGES)) {
+            if (criteria[part]?.evidence === "") improvements.push(localize(locale, message));
+        }
+
+        return {
+            relevanceScore,
+            clarityScore,
+            depthScore,
+            communicationScore,
+            criteria,
+            strengths,
+            improvements,
+            exampleAnswer: "",
+            overallFeedback: localize(locale, "heuristicSummary"),
+            suggestion: localize(locale, "heuristicSuggestion"),
+        };
+    }
+
+    /**
+     * Share of the question's key terms that appear in the answer
+     */
+    private static coverage(question: string, answer: string): number {
+        const questionTerms = tokenize(question);
+        if (questionTerms.size === 0) return 1;
+        const answerTerms = tokenize(answer);
+        let shared = 0;
+        for (const term of questionTerms) {
+            if (answerTerms.has(term)) shared++;
+        }
+        return shared / questionTerms.size;
+    }
+
+    /**
+     * Readability on a 0-10 scale: sentences of 8-20 words read best; long sentences, long
+     * words, fillers and hedging cost points, signposting earns one
+     */
+    private static readability(answer: string, delivery: DeliveryAnalysis): number {
+        const words = answer.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word));
+        const averageWordLength = words.length
+            ? words.reduce((sum, word) => sum + word.replace(/[^\p{L}\p{N}]/gu, "").length, 0) /
+              words.length
+            : 0;
+        const { averageWords } = delivery.sentences;
+
+        return (
+            8 -
+            Math.max(0, averageWords - 20) * 0.2 -
+            (averageWords > 0 && averageWords < 8 ? 1 : 0) -
+            Math.max(0, averageWordLength - 7) -
+            delivery.fillers.per100Words * 0.4 -
+            delivery.hedges.per100Words * 0.2 +
+            (delivery.structure.signposts > 0 ? 1 : 0)
+        );
+    }
+
+    /**
+     * How easy the answer is to follow, 0-10: signposts and STAR cues give it a shape
+     */
+    private static structure(delivery: DeliveryAnalysis): number {
+        return 3 + Math.min(3, delivery.structure.signposts) + delivery.structure.starCoverage * 4;
+    }
+
+    /**
+     * Specificity cues: numbers and named technologies, each counted once
+     */
+    private static specifics(answer: string, locale: Locale) {
+        const numbers = new Set(answer.match(NUMBER_PATTERN)?.map((n) => n.trim()) ?? []);
+        const technologies = new Set<string>();
+        for (const sentence of answer.split(/[.!?]\s+/)) {
+            sentence
+                .split(/[\s,;:()"]+/)
+                .map((token) => token.replace(/^[^\w]+|[^\w]+$/g, ""))
+                .forEach((token, i) => {
+                    // German capitalizes every noun, so only the shape rules apply there;
+                    // elsewhere a capitalized word mid-sentence is usually a name
+                    const capitalizedName =
+                        locale !== "de" && i > 0 && /^[A-Z][a-z]{2,}$/.test(token);
+                    if (TECH_TOKEN.test(token) || capitalizedName) technologies.add(token);
+                });
+        }
+        return { numbers: numbers.size, technologies: technologies.size };
+    }
+}
@@ -1,6 +1,7 @@
 import { db } from "../lib/db";
 import { interviews, answers, userProgress, users } from "../db/schema";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, desc, and, isNotNull, sql } from "drizzle-orm";
+import { DeliveryService, type DeliveryAnalysis } from "./delivery.service";
 import logger from "../utils/logger";
 
 export class HistoryService {
@@ -114,6 +115,19 @@ export class HistoryService {
                     and(eq(answers.userId, userId), sql`${answers.createdAt} >= ${dateThreshold}`)
                 );
 
+            // Delivery analyses include answers still waiting for a regrade, which have no
+            // scores yet
+            const deliveryRows = await db
+                .select({ delivery: answers.delivery })
+                .from(answers)
+                .where(
+                    and(
+                        eq(answers.userId, userId),
+                        isNotNull(answers.delivery),
+                        sql`${answers.createdAt} >= ${dateThreshold}`
+                    )
+                );
+
             // Get progress data
             const [progress] = await db
                 .select()
@@ -155,6 +169,9 @@ export class HistoryService {
                     lastPractice: progress?.lastPracticeDate,
                 },
                 trend,
+                delivery: DeliveryService.summarize(
+                    deliveryRows.map((row) => row.delivery as DeliveryAnalysis)
+                ),
                 recentActivity: recentInterviews.slice(0, 5).map((interview) => ({
                     id: interview.id,
                     role: interview.jobRole,
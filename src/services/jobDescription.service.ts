@@ -0,0 +1,187 @@
+import { db } from "../lib/db";
+import { targetJobs, type TargetJob } from "../db/schema";
+import { eq } from "drizzle-orm";
+import { getLLMProvider } from "../providers";
+import { generateStructured } from "../utils/structuredOutput";
+import {
+    jobExtractionSchema,
+    type ExperienceLevel,
+    type JobExtraction,
+    type OutputSource,
+} from "../schemas/ai.schema";
+import logger from "../utils/logger";
+
+export interface JobRequirement {
+    id: string;
+    text: string;
+}
+
+// Phrases that hint at seniority when the model is unavailable, strongest first
+const SENIORITY_PATTERNS: { level: ExperienceLevel; pattern: RegExp }[] = [
+    { level: "lead", pattern: /\b(lead|staff|principal|head of|manager)\b/i },
+    { level: "senior", pattern: /\b(senior|sr\.?|[6-9]\+? years|1\d\+? years)\b/i },
+    {
+        level: "entry-level",
+        pattern: /\b(junior|jr\.?|entry[- ]level|graduate|intern|0-2 years)\b/i,
+    },
+    { level: "mid-level", pattern: /\b([3-5]\+? years|mid[- ]level)\b/i },
+];
+
+const SKILL_KEYWORDS = [
+    "JavaScript",
+    "TypeScript",
+    "Python",
+    "Java",
+    "Go",
+    "Rust",
+    "C#",
+    "C++",
+    "Ruby",
+    "Kotlin",
+    "Swift",
+    "React",
+    "Angular",
+    "Vue",
+    "Node.js",
+    "Express",
+    "Django",
+    "Spring",
+    "GraphQL",
+    "REST",
+    "SQL",
+    "PostgreSQL",
+    "MySQL",
+    "MongoDB",
+    "Redis",
+    "Kafka",
+    "AWS",
+    "GCP",
+    "Azure",
+    "Docker",
+    "Kubernetes",
+    "Terraform",
+    "CI/CD",
+    "Microservices",
+    "Machine Learning",
+    "System Design",
+];
+
+// Well-known skills mentioned in free text, matched on word boundaries
+export const findSkillKeywords = (text: string): string[] =>
+    SKILL_KEYWORDS.filter((skill) => {
+        const escaped = skill.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`, "i").test(text);
+    });
+
+export class JobDescriptionService {
+    /**
+     * Pull skills, responsibilities and seniority signals out of a raw job posting.
+     * Falls back to keyword heuristics when the model output can't be used.
+     */
+    static async extractRequirements(
+        jobDescription: string
+    ): Promise<{ extraction: JobExtraction; source: OutputSource }> {
+        const prompt = `Extract the structured requirements from this job posting.
+
+Job posting:
+"""
+${jobDescription}
+"""
+
+Return a JSON object with:
+- title: the job title (string)
+- company: the hiring company if stated (string, optional)
+- seniority: one of 'entry-level', 'mid-level', 'senior', 'lead'
+- senioritySignals: short phrases from the posting that indicate seniority (array of strings)
+- skills: required technical and soft skills, one per item, most important first (array of strings)
+- responsibilities: the main duties of the role, one per item (array of strings)
+
+Return ONLY the JSON object.`;
+
+        try {
+            const { data, source } = await generateStructured(
+                getLLMProvider(),
+                { task: "jobExtraction", prompt, hints: { jobDescription } },
+                jobExtractionSchema
+            );
+            return { extraction: data, source };
+        } catch (error) {
+            logger.error("Job description extraction failed, using heuristics", {
+                error: error instanceof Error ? error.message : error,
+            });
+            return { extraction: this.extractHeuristically(jobDescription), source: "fallback" };
+        }
+    }
+
+    static async createTargetJob(userId: number, jobDescription: string) {
+        const { extraction, source } = await this.extractRequirements(jobDescription);
+
+        const [targetJob] = await db
+            .insert(targetJobs)
+            .values({
+                userId,
+                title: extraction.title,
+                company: extraction.company,
+                seniority: extraction.seniority,
+                senioritySignals: extraction.senioritySignals,
+                skills: extraction.skills.map((text, i) => ({ id: `skill-${i + 1}`, text })),
+                responsibilities: extraction.responsibilities.map((text, i) => ({
+                    id: `resp-${i + 1}`,
+                    text,
+                })),
+                rawText: jobDescription,
+            })
+            .returning();
+
+        logger.info("Target job created", { userId, targetJobId: targetJob.id, source });
+        return { targetJob, source };
+    }
+
+    static async getTargetJob(targetJobId: number): Promise<TargetJob | null> {
+        const [targetJob] = await db
+            .select()
+            .from(targetJobs)
+            .where(eq(targetJobs.id, targetJobId))
+            .limit(1);
+        return targetJob || null;
+    }
+
+    // Skills first, then responsibilities, so questions lean towards the hard requirements
+    static getRequirements(targetJob: TargetJob): JobRequirement[] {
+        return [
+            ...((targetJob.skills as JobRequirement[]) || []),
+            ...((targetJob.responsibilities as JobRequirement[]) || []),
+        ];
+    }
+
+    private static extractHeuristically(jobDescription: string): JobExtraction {
+        const lines = jobDescription
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean);
+        const bullets = lines
+            .filter((line) => /^[-*•]|^\d+[.)]/.test(line))
+            .map((line) => line.replace(/^([-*•]|\d+[.)])\s*/, ""));
+
+        const skills = findSkillKeywords(jobDescription);
+
+        const senioritySignals: string[] = [];
+        let seniority: ExperienceLevel = "mid-level";
+        for (const { level, pattern } of SENIORITY_PATTERNS) {
+            const match = jobDescription.match(pattern);
+            if (match) {
+                senioritySignals.push(match[0]);
+                seniority = level;
+                break;
+            }
+        }
+
+        return {
+            title: lines[0]?.slice(0, 100) || "Software Engineer",
+            seniority,
+            senioritySignals,
+            skills: skills.length > 0 ? skills : bullets.slice(0, 5),
+            responsibilities: bullets.slice(0, 10),
+        };
+    }
+}
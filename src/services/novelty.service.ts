@@ -0,0 +1,71 @@
+import { db } from "../lib/db";
+import { interviews } from "../db/schema";
+import { eq, desc } from "drizzle-orm";
+import { tokenize, textSimilarity } from "../utils/textSimilarity";
+import type { Question } from "../schemas/ai.schema";
+import logger from "../utils/logger";
+
+// Questions at or above this similarity to a practiced one count as repeats
+export const REPEAT_SIMILARITY_THRESHOLD = parseFloat(
+    process.env.REPEAT_SIMILARITY_THRESHOLD || "0.6"
+);
+
+// How many past interviews to compare against
+const HISTORY_INTERVIEW_LIMIT = 50;
+
+export class NoveltyService {
+    /**
+     * Question texts from the user's recent interviews. Returns an empty history when the
+     * database is unavailable so generation still works.
+     */
+    static async getPracticedQuestions(userId: number): Promise<string[]> {
+        try {
+            const rows = await db
+                .select({ questions: interviews.questions })
+                .from(interviews)
+                .where(eq(interviews.userId, userId))
+                .orderBy(desc(interviews.createdAt))
+                .limit(HISTORY_INTERVIEW_LIMIT);
+
+            return rows.flatMap((row) =>
+                Array.isArray(row.questions)
+                    ? (row.questions as Question[])
+                          .map((q) => (typeof q?.question === "string" ? q.question : ""))
+                          .filter(Boolean)
+                    : []
+            );
+        } catch (error) {
+            logger.warn("Could not load question history for novelty filtering", {
+                userId,
+                error: error instanceof Error ? error.message : error,
+            });
+            return [];
+        }
+    }
+
+    /**
+     * Split candidates into novel questions and repeats. A candidate is a repeat when it is
+     * near-identical to a practiced question or to a candidate already accepted.
+     */
+    static filterRepeats(
+        candidates: Question[],
+        practiced: string[],
+        threshold: number = REPEAT_SIMILARITY_THRESHOLD
+    ): { novel: Question[]; repeats: Question[] } {
+        const seen = practiced.map(tokenize);
+        const novel: Question[] = [];
+        const repeats: Question[] = [];
+
+        for (const candidate of candidates) {
+            const tokens = tokenize(candidate.question);
+            if (seen.some((previous) => textSimilarity(tokens, previous) >= threshold)) {
+                repeats.push(candidate);
+            } else {
+                novel.push(candidate);
+                seen.push(tokens);
+            }
+        }
+
+        return { novel, repeats };
+    }
+}
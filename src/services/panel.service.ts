@@ -0,0 +1,476 @@
+import { db } from "../lib/db";
+import {
+    interviews,
+    panelists,
+    panelScores,
+    type Answer,
+    type Interview,
+    type Panelist,
+    type PanelScore,
+} from "../db/schema";
+import { and, asc, eq, inArray, isNull, ne, or } from "drizzle-orm";
+import {
+    PANEL_FOCUSES,
+    type PanelFocus,
+    type PanelFocusKey,
+    type ScoreDimension,
+} from "../data/panelFocuses";
+import { BUILT_IN_PERSONAS, type InterviewerPersona } from "../data/personas";
+import { feedbackService, type FeedbackResult } from "./feedback.service";
+import type { Question, QuestionType } from "../schemas/ai.schema";
+import type { Locale } from "../utils/locale";
+import logger from "../utils/logger";
+
+export const MIN_PANELISTS = 2;
+export const MAX_PANELISTS = 4;
+
+// Average focus score a panelist needs for each vote; below NO_HIRE_SCORE is a strong no hire
+const STRONG_HIRE_SCORE = 8;
+const HIRE_SCORE = 6;
+const NO_HIRE_SCORE = 4;
+
+export type PanelVote = "strong_hire" | "hire" | "no_hire" | "strong_no_hire";
+
+const VOTE_LABELS: Record<PanelVote, string> = {
+    strong_hire: "strong hire",
+    hire: "hire",
+    no_hire: "no hire",
+    strong_no_hire: "strong no hire",
+};
+
+const DIMENSIONS: { key: ScoreDimension; field: keyof PanelScore; label: string }[] = [
+    { key: "relevance", field: "relevanceScore", label: "relevance" },
+    { key: "clarity", field: "clarityScore", label: "clarity" },
+    { key: "depth", field: "depthScore", label: "depth" },
+    { key: "communication", field: "communicationScore", label: "communication" },
+];
+
+// One seat on the panel, as requested when the session starts
+export interface PanelSeat {
+    focus: PanelFocus;
+    persona: InterviewerPersona;
+}
+
+export class PanelError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number
+    ) {
+        super(message);
+        this.name = "PanelError";
+    }
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Panel interviews: two to four interviewers, each with a focus and a persona, take turns
+ * asking questions. Every panelist grades every answer on their own, and the debrief turns each
+ * panelist's scores into a vote and the votes into a hire/no-hire recommendation.
+ *
+ * Panel answers graded while the AI was unavailable are regraded for every panelist by the
+ * regrade worker; until then the debrief says its recommendation rests on estimates.
+ */
+export class PanelService {
+    static getFocus(key: string): PanelFocus | null {
+        return PANEL_FOCUSES.find((focus) => focus.key === key) || null;
+    }
+
+    /**
+     * Built-in persona that fills a seat when the request doesn't name one
+     */
+    static defaultPersona(focus: PanelFocus): InterviewerPersona {
+        return BUILT_IN_PERSONAS.find((persona) => persona.key === focus.defaultPersona)!;
+    }
+
+    /**
+     * The persona a panelist asks and grades as: their own, with their seat's focus added to
+     * the question style and feedback tone
+     */
+    static panelistPersona(panelist: Pick<Panelist, "focus" | "persona">): InterviewerPersona {
+        const persona = panelist.persona as InterviewerPersona;
+        const focus = this.getFocus(panelist.focus);
+        if (!focus) return persona;
+
+        return {
+            ...persona,
+            questionStyle: `${persona.questionStyle} ${focus.questionFocus}`,
+            feedbackTone: `${persona.feedbackTone} ${focus.feedbackFocus}`,
+        };
+    }
+
+    /**
+     * Put each seat's questions in turn order (every panelist asks their first question, then
+     * their second, ...) with IDs that say whose they are
+     */
+    static interleave(perSeat: Question[][]): { questions: Question[]; questionIds: string[][] } {
+        const questionIds = perSeat.map((questions, seat) =>
+            questions.map((_, i) => `panel-${seat + 1}-${i + 1}`)
+        );
+        const rounds = Math.max(0, ...perSeat.map((questions) => questions.length));
+
+        const questions: Question[] = [];
+        for (let round = 0; round < rounds; round++) {
+            perSeat.forEach((seatQuestions, seat) => {
+                if (seatQuestions[round]) {
+                    questions.push({ ...seatQuestions[round], id: questionIds[seat][round] });
+                }
+            });
+        }
+        return { questions, questionIds };
+    }
+
+    static async createPanel(
+        interviewId: number,
+        seats: PanelSeat[],
+        questionIds: string[][]
+    ): Promise<Panelist[]> {
+        const rows = await db
+            .insert(panelists)
+            .values(
+                seats.map((seat, i) => ({
+                    interviewId,
+                    seat: i,
+                    focus: seat.focus.key,
+                    persona: seat.persona,
+                    questionIds: questionIds[i] || [],
+                }))
+            )
+            .returning();
+        return rows.sort((a, b) => a.seat - b.seat);
+    }
+
+    static async getPanel(interviewId: number): Promise<Panelist[]> {
+        return await db
+            .select()
+            .from(panelists)
+            .where(eq(panelists.interviewId, interviewId))
+            .orderBy(asc(panelists.seat));
+    }
+
+    static askedBy(panel: Panelist[], questionId: string): Panelist | null {
+        return (
+            panel.find((panelist) => (panelist.questionIds as string[]).includes(questionId)) ||
+            null
+        );
+    }
+
+    /**
+     * The interview's questions in turn order, each with the panelist who asks it
+     */
+    static turns(interview: Interview, panel: Panelist[]) {
+        return ((interview.questions as Question[]) || []).map((question) => ({
+            question,
+            panelistId: this.askedBy(panel, question.id)?.id ?? null,
+        }));
+    }
+
+    /**
+     * The first turn whose question hasn't been answered, or null when the panel is done
+     */
+    static nextTurn(interview: Interview, panel: Panelist[], answers: Answer[]) {
+        const answered = new Set(answers.filter((a) => !a.followUpId).map((a) => a.questionId));
+        return this.turns(interview, panel).find((turn) => !answered.has(turn.question.id)) || null;
+    }
+
+    /**
+     * Panel as shown to the candidate: who sits where, with what focus and persona
+     */
+    static describe(panel: Panelist[]) {
+        return panel.map((panelist) => ({
+            id: panelist.id,
+            seat: panelist.seat,
+            focus: panelist.focus as PanelFocusKey,
+            persona: panelist.persona as InterviewerPersona,
+            questionIds: panelist.questionIds as string[],
+        }));
+    }
+
+    /**
+     * Scores weighted by what the panelist's focus cares about most
+     */
+    static focusScore(focusKey: string, scores: Record<ScoreDimension, number>): number {
+        const focus = this.getFocus(focusKey);
+        if (!focus) return round(average(Object.values(scores)));
+        return round(
+            DIMENSIONS.reduce((sum, { key }) => sum + scores[key] * focus.weights[key], 0)
+        );
+    }
+
+    /**
+     * Store each panelist's grading of an answer. Feedback that couldn't be scored at all is
+     * kept with null scores, so it's visible but never counted.
+     */
+    static async recordScores(
+        answerId: number,
+        gradings: { panelist: Panelist; feedback: FeedbackResult }[]
+    ): Promise<PanelScore[]> {
+        const rows = gradings.map(({ panelist, feedback }) => ({
+            answerId,
+            panelistId: panelist.id,
+            ...this.scoreColumns(panelist, feedback),
+        }));
+        if (rows.length === 0) return [];
+
+        return await db.insert(panelScores).values(rows).returning();
+    }
+
+    /**
+     * Grade again, for each panelist, the scores of an answer that weren't graded by the AI.
+     * Throws while AI grading is still unavailable so the regrade job retries.
+     */
+    static async regradeScores(
+        answer: Answer,
+        questionType: QuestionType,
+        locale: Locale
+    ): Promise<number> {
+        const pending = await db
+            .select()
+            .from(panelScores)
+            .where(
+                and(
+                    eq(panelScores.answerId, answer.id),
+                    or(isNull(panelScores.scoredBy), ne(panelScores.scoredBy, "ai"))
+                )
+            );
+        if (pending.length === 0) return 0;
+
+        const panel = await db
+            .select()
+            .from(panelists)
+            .where(
+                inArray(
+                    panelists.id,
+                    pending.map((score) => score.panelistId)
+                )
+            );
+        for (const score of pending) {
+            const panelist = panel.find((p) => p.id === score.panelistId);
+            if (!panelist) continue;
+
+            const feedback = await feedbackService.generateFeedback(
+                answer.question,
+                answer.answer,
+                questionType,
+                { userId: answer.userId, locale, persona: this.panelistPersona(panelist) }
+            );
+            if (feedback.source === "fallback") {
+                throw new Error("AI grading is still unavailable");
+            }
+            await db
+                .update(panelScores)
+                .set(this.scoreColumns(panelist, feedback))
+                .where(eq(panelScores.id, score.id));
+        }
+        return pending.length;
+    }
+
+    static async getScores(answerIds: number[]): Promise<PanelScore[]> {
+        if (answerIds.length === 0) return [];
+        return await db.select().from(panelScores).where(inArray(panelScores.answerId, answerIds));
+    }
+
+    // Score columns of one panelist's grading; feedback with no scores at all is stored as null
+    private static scoreColumns(panelist: Panelist, feedback: FeedbackResult) {
+        const unscored = feedback.source === "fallback" && feedback.scoredBy !== "heuristic";
+        return {
+            relevanceScore: unscored ? null : feedback.relevanceScore,
+            clarityScore: unscored ? null : feedback.clarityScore,
+            depthScore: unscored ? null : feedback.depthScore,
+            communicationScore: unscored ? null : feedback.communicationScore,
+            overallScore: unscored ? null : feedback.overallScore,
+            focusScore: unscored
+                ? null
+                : this.focusScore(panelist.focus, {
+                      relevance: feedback.relevanceScore,
+                      clarity: feedback.clarityScore,
+                      depth: feedback.depthScore,
+                      communication: feedback.communicationScore,
+                  }),
+            strengths: feedback.strengths,
+            improvements: feedback.improvements,
+            overallFeedback: feedback.overallFeedback || null,
+            scoredBy: feedback.scoredBy,
+        };
+    }
+
+    /**
+     * Each panelist's vote on the latest answer to every question, and the panel's
+     * recommendation: hire when more panelists vote hire than no hire and nobody votes strong
+     * no hire. A split panel doesn't hire. Panelists with no scored answer don't vote; the
+     * recommendation comes from those who do.
+     */
+    static buildDebrief(
+        interview: Interview,
+        panel: Panelist[],
+        answers: Answer[],
+        scores: PanelScore[]
+    ) {
+        const questions = (interview.questions as Question[]) || [];
+        const latest = questions.flatMap((question) => {
+            const answer = answers
+                .filter((a) => a.questionId === question.id && !a.followUpId)
+                .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+            return answer ? [answer] : [];
+        });
+        if (latest.length === 0) {
+            throw new PanelError("Answer at least one question before the debrief", 400);
+        }
+        const latestIds = new Set(latest.map((answer) => answer.id));
+
+        const votes = panel.map((panelist) => {
+            const persona = panelist.persona as InterviewerPersona;
+            const focus = this.getFocus(panelist.focus);
+            const scored = scores.filter(
+                (score) =>
+                    score.panelistId === panelist.id &&
+                    latestIds.has(score.answerId) &&
+                    score.focusScore !== null
+            );
+            const base = {
+                panelistId: panelist.id,
+                seat: panelist.seat,
+                name: persona.name,
+                focus: panelist.focus as PanelFocusKey,
+                answersScored: scored.length,
+            };
+            if (scored.length === 0) {
+                return {
+                    ...base,
+                    vote: null,
+                    focusScore: null,
+                    scores: null,
+                    estimated: false,
+                    reasons: ["No answer could be scored, so this panelist has no vote"],
+                };
+            }
+
+            const means = Object.fromEntries(
+                DIMENSIONS.map(({ key, field }) => [
+                    key,
+                    round(average(scored.map((score) => score[field] as number))),
+                ])
+            ) as Record<ScoreDimension, number>;
+            const focusScore = round(average(scored.map((score) => score.focusScore as number)));
+            const vote: PanelVote =
+                focusScore >= STRONG_HIRE_SCORE
+                    ? "strong_hire"
+                    : focusScore >= HIRE_SCORE
+                      ? "hire"
+                      : focusScore >= NO_HIRE_SCORE
+                        ? "no_hire"
+                        : "strong_no_hire";
+
+            const ranked = [...DIMENSIONS].sort((a, b) => means[b.key] - means[a.key]);
+            const strongest = ranked[0];
+            const weakest = ranked[ranked.length - 1];
+            // A hire vote is explained by the best answer's strength, a no-hire by the weakest
+            // answer's top improvement
+            const hires = vote === "strong_hire" || vote === "hire";
+            const telling = [...scored].sort((a, b) =>
+                hires
+                    ? (b.focusScore as number) - (a.focusScore as number)
+                    : (a.focusScore as number) - (b.focusScore as number)
+            )[0];
+            const detail = ((hires ? telling.strengths : telling.improvements) as string[])?.[0];
+
+            return {
+                ...base,
+                vote,
+                focusScore,
+                scores: means,
+                estimated: scored.some((score) => score.scoredBy === "heuristic"),
+                reasons: [
+                    `Averaged ${focusScore}/10 weighted for the ${(focus?.label || panelist.focus).toLowerCase()} seat over ${scored.length} answer${scored.length === 1 ? "" : "s"}`,
+                    `Strongest on ${strongest.label} (${means[strongest.key]}/10), weakest on ${weakest.label} (${means[weakest.key]}/10)`,
+                    ...(detail ? [detail] : []),
+                ],
+            };
+        });
+
+        const voted = votes.filter((v) => v.vote !== null);
+        if (voted.length === 0) {
+            throw new PanelError(
+                "No panelist could score an answer yet. Unscored answers are regraded automatically once AI grading is back; ask for the debrief again after that",
+                409
+            );
+        }
+
+        const hireVotes = voted.filter((v) => v.vote === "strong_hire" || v.vote === "hire");
+        const vetoes = voted.filter((v) => v.vote === "strong_no_hire");
+        const recommendation: "hire" | "no_hire" =
+            vetoes.length === 0 && hireVotes.length > voted.length - hireVotes.length
+                ? "hire"
+                : "no_hire";
+
+        const reasons = [
+            `${hireVotes.length} of ${voted.length} panelists voted to hire${
+                hireVotes.length * 2 === voted.length ? "; a split panel doesn't hire" : ""
+            }`,
+            ...votes
+                .filter((v) => v.vote === null)
+                .map((v) => `${v.name} couldn't score any answer yet, so has no vote`),
+            ...vetoes.map((v) => `${v.name} voted strong no hire, which blocks a hire on its own`),
+            // The panelists who carried the decision, with their main reason
+            ...voted
+                .filter((v) =>
+                    recommendation === "hire"
+                        ? v.vote === "strong_hire" || v.vote === "hire"
+                        : v.vote === "no_hire" || v.vote === "strong_no_hire"
+                )
+                .map(
+                    (v) => `${v.name} (${VOTE_LABELS[v.vote!]}): ${v.reasons[v.reasons.length - 1]}`
+                ),
+        ];
+        if (latest.length < questions.length) {
+            reasons.push(
+                `${questions.length - latest.length} of ${questions.length} questions were not answered; the votes cover the answered ones only`
+            );
+        }
+        const provisional = voted.some((v) => v.estimated);
+        if (provisional) {
+            reasons.push(
+                "Some scores are rule-based estimates made while AI grading was unavailable, so the recommendation is provisional"
+            );
+        }
+
+        return {
+            interviewId: interview.id,
+            recommendation,
+            votes,
+            reasons,
+            completion: { answered: latest.length, total: questions.length },
+            provisional,
+        };
+    }
+
+    /**
+     * Record the debrief: each panelist's vote on their row, the whole debrief as the
+     * interview's feedback, and the interview as completed
+     */
+    static async saveDebrief(
+        interview: Interview,
+        debrief: ReturnType<typeof PanelService.buildDebrief>
+    ): Promise<void> {
+        await Promise.all(
+            debrief.votes.map((vote) =>
+                db
+                    .update(panelists)
+                    .set({ vote: vote.vote, voteReasons: vote.reasons })
+                    .where(eq(panelists.id, vote.panelistId))
+            )
+        );
+        await db
+            .update(interviews)
+            .set({ status: "completed", feedback: debrief, updatedAt: new Date() })
+            .where(eq(interviews.id, interview.id));
+
+        logger.info("Panel debrief recorded", {
+            interviewId: interview.id,
+            recommendation: debrief.recommendation,
+            votes: debrief.votes.map((v) => v.vote),
+        });
+    }
+}
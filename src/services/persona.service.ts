@@ -0,0 +1,195 @@
+import { db } from "../lib/db";
+import { customPersonas, type CustomPersona, type Interview } from "../db/schema";
+import { and, asc, count, eq } from "drizzle-orm";
+import {
+    BUILT_IN_PERSONAS,
+    FOLLOW_UP_INTENSITIES,
+    type FollowUpIntensity,
+    type InterviewerPersona,
+} from "../data/personas";
+import { detectInjection } from "../utils/promptInjection";
+import logger from "../utils/logger";
+
+// Most custom personas one user may keep
+export const MAX_CUSTOM_PERSONAS = parseInt(process.env.MAX_CUSTOM_PERSONAS || "20", 10);
+
+// Custom persona keys are "custom-<id>"
+const CUSTOM_KEY = /^custom-(\d+)$/;
+
+export interface PersonaInput {
+    name: string;
+    description?: string | null;
+    questionStyle: string;
+    followUpStyle: string;
+    followUpIntensity?: FollowUpIntensity;
+    feedbackTone: string;
+}
+
+export class PersonaError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number
+    ) {
+        super(message);
+        this.name = "PersonaError";
+    }
+}
+
+export class PersonaService {
+    /**
+     * Built-in personas followed by the user's own
+     */
+    static async listPersonas(userId: number) {
+        const custom = await db
+            .select()
+            .from(customPersonas)
+            .where(eq(customPersonas.userId, userId))
+            .orderBy(asc(customPersonas.createdAt));
+
+        return {
+            builtIn: BUILT_IN_PERSONAS,
+            custom: custom.map((row) => this.toPersona(row)),
+        };
+    }
+
+    /**
+     * The persona a request asked for. No key means the neutral interviewer; an unknown key,
+     * or another user's persona, is an error rather than silently neutral.
+     */
+    static async resolve(key: unknown, userId: number): Promise<InterviewerPersona | null> {
+        if (key === undefined || key === null || key === "") return null;
+
+        const builtIn = BUILT_IN_PERSONAS.find((persona) => persona.key === key);
+        if (builtIn) return builtIn;
+
+        const match = typeof key === "string" ? CUSTOM_KEY.exec(key) : null;
+        if (!match) {
+            throw new PersonaError(`Unknown persona: ${String(key)}`, 400);
+        }
+
+        const [row] = await db
+            .select()
+            .from(customPersonas)
+            .where(and(eq(customPersonas.id, Number(match[1])), eq(customPersonas.userId, userId)));
+        if (!row) {
+            throw new PersonaError("Persona not found", 404);
+        }
+        return this.toPersona(row);
+    }
+
+    /**
+     * The persona an interview is held with; null for a neutral interview
+     */
+    static forInterview(interview: Pick<Interview, "persona"> | null | undefined) {
+        return (interview?.persona as InterviewerPersona | null | undefined) ?? null;
+    }
+
+    static async createPersona(userId: number, input: PersonaInput): Promise<InterviewerPersona> {
+        this.checkInput(input);
+
+        const [{ total }] = await db
+            .select({ total: count() })
+            .from(customPersonas)
+            .where(eq(customPersonas.userId, userId));
+        if (total >= MAX_CUSTOM_PERSONAS) {
+            throw new PersonaError(
+                `Persona limit reached (maximum ${MAX_CUSTOM_PERSONAS}); delete one first`,
+                409
+            );
+        }
+
+        const [row] = await db
+            .insert(customPersonas)
+            .values({ userId, ...this.toColumns(input) })
+            .returning();
+
+        logger.info("Custom persona created", { userId, personaId: row.id });
+        return this.toPersona(row);
+    }
+
+    static async updatePersona(
+        userId: number,
+        personaId: number,
+        input: PersonaInput
+    ): Promise<InterviewerPersona> {
+        this.checkInput(input);
+
+        const [row] = await db
+            .update(customPersonas)
+            .set({ ...this.toColumns(input), updatedAt: new Date() })
+            .where(and(eq(customPersonas.id, personaId), eq(customPersonas.userId, userId)))
+            .returning();
+        if (!row) {
+            throw new PersonaError("Persona not found", 404);
+        }
+        return this.toPersona(row);
+    }
+
+    /**
+     * Interviews already held with the persona keep their copy of it
+     */
+    static async deletePersona(userId: number, personaId: number): Promise<void> {
+        const deleted = await db
+            .delete(customPersonas)
+            .where(and(eq(customPersonas.id, personaId), eq(customPersonas.userId, userId)))
+            .returning({ id: customPersonas.id });
+        if (deleted.length === 0) {
+            throw new PersonaError("Persona not found", 404);
+        }
+        logger.info("Custom persona deleted", { userId, personaId });
+    }
+
+    /**
+     * Persona text goes into grading prompts, so it gets the same injection check as answers
+     */
+    private static checkInput(input: PersonaInput) {
+        const fields = [
+            input.name,
+            input.description,
+            input.questionStyle,
+            input.followUpStyle,
+            input.feedbackTone,
+        ];
+        const signals = fields.flatMap((field) => (field ? detectInjection(field).signals : []));
+        if (signals.length > 0) {
+            logger.warn("Rejected custom persona with instruction-like text", { signals });
+            throw new PersonaError(
+                "Persona text must describe an interviewing style, not give instructions about scoring or output",
+                400
+            );
+        }
+        if (input.followUpIntensity && !FOLLOW_UP_INTENSITIES.includes(input.followUpIntensity)) {
+            throw new PersonaError(
+                `Follow-up intensity must be one of: ${FOLLOW_UP_INTENSITIES.join(", ")}`,
+                400
+            );
+        }
+    }
+
+    private static toColumns(input: PersonaInput) {
+        return {
+            name: input.name,
+            description: input.description || null,
+            questionStyle: input.questionStyle,
+            followUpStyle: input.followUpStyle,
+            followUpIntensity: input.followUpIntensity || "probing",
+            feedbackTone: input.feedbackTone,
+        };
+    }
+
+    private static toPersona(row: CustomPersona): InterviewerPersona {
+        return {
+            key: `custom-${row.id}`,
+            name: row.name,
+            description: row.description || "",
+            questionStyle: row.questionStyle,
+            followUpStyle: row.followUpStyle,
+            followUpIntensity: FOLLOW_UP_INTENSITIES.includes(
+                row.followUpIntensity as FollowUpIntensity
+            )
+                ? (row.followUpIntensity as FollowUpIntensity)
+                : "probing",
+            feedbackTone: row.feedbackTone,
+        };
+    }
+}
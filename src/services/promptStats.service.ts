@@ -0,0 +1,80 @@
+import { db } from "../lib/db";
+import { answers, interviews } from "../db/schema";
+import { and, avg, count, isNotNull } from "drizzle-orm";
+import {
+    DEFAULT_PROMPT_VERSIONS,
+    PROMPT_EXPERIMENTS,
+    listPrompts,
+    type PromptRef,
+} from "../prompts";
+
+// Outcomes recorded for one prompt version
+export interface PromptVersionStats extends PromptRef {
+    isDefault: boolean;
+    // Experiment arm weight, when the version is in a running experiment
+    experimentWeight: number | null;
+    interviews: number;
+    answers: number;
+    averageScore: number | null;
+    ratings: number;
+    averageRating: number | null;
+}
+
+const round = (value: string | null) =>
+    value === null ? null : Math.round(parseFloat(value) * 100) / 100;
+
+export class PromptStatsService {
+    /**
+     * Every registered prompt version with the interviews it generated and the answers it
+     * graded: average overall score and average user rating of the feedback
+     */
+    static async getStats(): Promise<PromptVersionStats[]> {
+        const answerRows = await db
+            .select({
+                promptId: answers.promptId,
+                promptVersion: answers.promptVersion,
+                answers: count(),
+                averageScore: avg(answers.overallScore),
+                ratings: count(answers.userRating),
+                averageRating: avg(answers.userRating),
+            })
+            .from(answers)
+            .where(and(isNotNull(answers.promptId), isNotNull(answers.promptVersion)))
+            .groupBy(answers.promptId, answers.promptVersion);
+
+        const interviewRows = await db
+            .select({
+                promptId: interviews.promptId,
+                promptVersion: interviews.promptVersion,
+                interviews: count(),
+            })
+            .from(interviews)
+            .where(and(isNotNull(interviews.promptId), isNotNull(interviews.promptVersion)))
+            .groupBy(interviews.promptId, interviews.promptVersion);
+
+        return listPrompts().map(({ id, version }) => {
+            const answered = answerRows.find(
+                (row) => row.promptId === id && row.promptVersion === version
+            );
+            const generated = interviewRows.find(
+                (row) => row.promptId === id && row.promptVersion === version
+            );
+            const experiment = PROMPT_EXPERIMENTS[id];
+            const arm = experiment?.enabled
+                ? experiment.arms.find((a) => a.version === version)
+                : undefined;
+
+            return {
+                id,
+                version,
+                isDefault: DEFAULT_PROMPT_VERSIONS[id] === version,
+                experimentWeight: arm?.weight ?? null,
+                interviews: generated?.interviews ?? 0,
+                answers: answered?.answers ?? 0,
+                averageScore: round(answered?.averageScore ?? null),
+                ratings: answered?.ratings ?? 0,
+                averageRating: round(answered?.averageRating ?? null),
+            };
+        });
+    }
+}
@@ -0,0 +1,282 @@
+import { db } from "../lib/db";
+import { questionBank, type QuestionBankEntry, type NewQuestionBankEntry } from "../db/schema";
+import { eq, and, asc, type SQL } from "drizzle-orm";
+import { QUESTION_BANK_SEED } from "../data/questionBank.seed";
+import type { Question } from "../schemas/ai.schema";
+import { DEFAULT_LOCALE, localize, type Locale } from "../utils/locale";
+import logger from "../utils/logger";
+
+export class QuestionBankError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number
+    ) {
+        super(message);
+        this.name = "QuestionBankError";
+    }
+}
+
+// Postgres unique_violation; drizzle wraps driver errors, keeping the original as the cause
+const isUniqueViolation = (error: unknown) => {
+    const code = (value: unknown) =>
+        value && typeof value === "object" && "code" in value ? value.code : undefined;
+    return (
+        code(error) === "23505" ||
+        (error instanceof Error && code((error as Error & { cause?: unknown }).cause) === "23505")
+    );
+};
+
+export interface QuestionBankFilters {
+    type?: string;
+    difficulty?: string;
+    category?: string;
+    isActive?: boolean;
+}
+
+export interface QuestionBankSampleOptions {
+    difficulty: string;
+    questionType?: string;
+    jobRole?: string;
+    company?: string;
+    count: number;
+    // Language of the returned questions; entries without a translation stay in English
+    locale?: Locale;
+}
+
+type BankEntry = Pick<
+    NewQuestionBankEntry,
+    | "slug"
+    | "question"
+    | "type"
+    | "difficulty"
+    | "category"
+    | "roles"
+    | "companies"
+    | "translations"
+>;
+
+// Whether `value` matches one of the entry's targets; an empty target list matches anything
+const matchesAny = (targets: unknown, value?: string) => {
+    if (!Array.isArray(targets) || targets.length === 0) return true;
+    if (!value) return false;
+    const lowered = value.toLowerCase();
+    return targets.some((target) => lowered.includes(String(target).toLowerCase()));
+};
+
+const isTargeted = (targets: unknown) => Array.isArray(targets) && targets.length > 0;
+
+const shuffle = <T>(items: T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+// Entries that fit the request's role and company, in random order with the most targeted first
+const rankApplicable = <T extends BankEntry>(
+    entries: T[],
+    options: QuestionBankSampleOptions
+): T[] => {
+    const applicable = entries.filter(
+        (entry) =>
+            matchesAny(entry.roles, options.jobRole) && matchesAny(entry.companies, options.company)
+    );
+
+    // Sort is stable, so shuffled order is kept within each specificity tier
+    return shuffle(applicable).sort(
+        (a, b) =>
+            Number(isTargeted(b.roles)) +
+            Number(isTargeted(b.companies)) -
+            (Number(isTargeted(a.roles)) + Number(isTargeted(a.companies)))
+    );
+};
+
+export class QuestionBankService {
+    /**
+     * Randomly pick questions for a request. Entries targeted at the requested role or
+     * company come first. When the database has too few matching entries (or is unavailable)
+     * the rest come from the built-in seed, skipping slugs the database already has.
+     */
+    static async sample(options: QuestionBankSampleOptions): Promise<Question[]> {
+        const type =
+            options.questionType && options.questionType !== "all"
+                ? options.questionType
+                : undefined;
+
+        let stored: QuestionBankEntry[];
+        try {
+            stored = await this.list({ difficulty: options.difficulty, type });
+        } catch (error) {
+            logger.warn("Question bank unavailable, sampling built-in questions", {
+                error: error instanceof Error ? error.message : error,
+            });
+            stored = [];
+        }
+
+        let picked: BankEntry[] = rankApplicable(
+            stored.filter((entry) => entry.isActive),
+            options
+        );
+        if (picked.length < options.count) {
+            // Deactivated entries count as present, so the seed can't bring them back
+            const present = new Set(stored.map((entry) => entry.slug));
+            const seed = QUESTION_BANK_SEED.filter(
+                (entry) =>
+                    !present.has(entry.slug) &&
+                    entry.difficulty === options.difficulty &&
+                    (!type || entry.type === type)
+            );
+            picked = [...picked, ...rankApplicable(seed, options)];
+        }
+
+        return picked
+            .slice(0, options.count)
+            .map((entry) =>
+                this.toQuestion(
+                    entry,
+                    { jobRole: options.jobRole, company: options.company },
+                    options.locale
+                )
+            );
+    }
+
+    // Fill {{variable}} placeholders; unknown variables get a neutral phrase in the locale
+    static render(
+        template: string,
+        variables: Record<string, string | undefined>,
+        locale: Locale = DEFAULT_LOCALE
+    ): string {
+        return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+            const value = variables[name];
+            if (value) return value;
+            return localize(locale, name === "company" ? "defaultCompany" : "defaultRole");
+        });
+    }
+
+    // Question text in the locale, or the English original when it has no translation
+    private static localizedText(entry: BankEntry, locale: Locale = DEFAULT_LOCALE): string {
+        const translations = (entry.translations || {}) as Partial<Record<Locale, string>>;
+        return translations[locale] || entry.question;
+    }
+
+    static async list(filters: QuestionBankFilters = {}): Promise<QuestionBankEntry[]> {
+        const conditions: SQL[] = [];
+        if (filters.type) conditions.push(eq(questionBank.type, filters.type));
+        if (filters.difficulty) conditions.push(eq(questionBank.difficulty, filters.difficulty));
+        if (filters.category) conditions.push(eq(questionBank.category, filters.category));
+        if (filters.isActive !== undefined) {
+            conditions.push(eq(questionBank.isActive, filters.isActive));
+        }
+
+        return await db
+            .select()
+            .from(questionBank)
+            .where(conditions.length > 0 ? and(...conditions) : undefined)
+            .orderBy(asc(questionBank.slug));
+    }
+
+    static async getById(id: number): Promise<QuestionBankEntry | null> {
+        const [entry] = await db.select().from(questionBank).where(eq(questionBank.id, id));
+        return entry || null;
+    }
+
+    static async create(entry: NewQuestionBankEntry): Promise<QuestionBankEntry> {
+        const [created] = await db
+            .insert(questionBank)
+            .values({ ...entry, variables: this.extractVariables(entry.question) })
+            .returning()
+            .catch((error) => this.rethrowDuplicateSlug(error, entry.slug));
+
+        logger.info("Question bank entry created", { id: created.id, slug: created.slug });
+        return created;
+    }
+
+    static async update(
+        id: number,
+        changes: Partial<NewQuestionBankEntry>
+    ): Promise<QuestionBankEntry | null> {
+        const [updated] = await db
+            .update(questionBank)
+            .set({
+                ...changes,
+                ...(changes.question && { variables: this.extractVariables(changes.question) }),
+                updatedAt: new Date(),
+            })
+            .where(eq(questionBank.id, id))
+            .returning()
+            .catch((error) => this.rethrowDuplicateSlug(error, changes.slug));
+
+        if (updated) {
+            logger.info("Question bank entry updated", { id, slug: updated.slug });
+        }
+        return updated || null;
+    }
+
+    private static rethrowDuplicateSlug(error: unknown, slug?: string): never {
+        if (isUniqueViolation(error)) {
+            throw new QuestionBankError(`A question with slug "${slug}" already exists`, 409);
+        }
+        throw error;
+    }
+
+    static async remove(id: number): Promise<boolean> {
+        const deleted = await db.delete(questionBank).where(eq(questionBank.id, id)).returning();
+        if (deleted.length > 0) {
+            logger.info("Question bank entry deleted", { id });
+        }
+        return deleted.length > 0;
+    }
+
+    /**
+     * Insert or update entries by slug. Used by the seed/import command.
+     */
+    static async importEntries(
+        entries: NewQuestionBankEntry[]
+    ): Promise<{ inserted: number; updated: number }> {
+        let inserted = 0;
+        let updated = 0;
+
+        for (const entry of entries) {
+            const values = { ...entry, variables: this.extractVariables(entry.question) };
+            const [existing] = await db
+                .select({ id: questionBank.id })
+                .from(questionBank)
+                .where(eq(questionBank.slug, entry.slug));
+
+            if (existing) {
+                await db
+                    .update(questionBank)
+                    .set({ ...values, updatedAt: new Date() })
+                    .where(eq(questionBank.id, existing.id));
+                updated++;
+            } else {
+                await db.insert(questionBank).values(values);
+                inserted++;
+            }
+        }
+
+        logger.info("Question bank imported", { inserted, updated });
+        return { inserted, updated };
+    }
+
+    private static extractVariables(template: string): string[] {
+        const names = [...template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map((match) => match[1]);
+        return [...new Set(names)];
+    }
+
+    private static toQuestion(
+        entry: BankEntry,
+        variables: Record<string, string | undefined>,
+        locale: Locale = DEFAULT_LOCALE
+    ): Question {
+        return {
+            id: entry.slug,
+            question: this.render(this.localizedText(entry, locale), variables, locale),
+            type: entry.type as Question["type"],
+            difficulty: entry.difficulty as Question["difficulty"],
+            category: entry.category,
+        };
+    }
+}
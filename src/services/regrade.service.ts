@@ -0,0 +1,280 @@
+import { db } from "../lib/db";
+import { answers, interviews, regradeJobs, users, type RegradeJob } from "../db/schema";
+import { and, asc, desc, eq, inArray, lt, lte } from "drizzle-orm";
+import { DatabaseService } from "./database.service";
+import { feedbackService, toAnswerScores } from "./feedback.service";
+import { RubricService } from "./rubric.service";
+import { CodingService } from "./coding.service";
+import { UsageService } from "./usage.service";
+import { PersonaService } from "./persona.service";
+import { PanelService } from "./panel.service";
+import { runWithUsage } from "../utils/usageContext";
+import type { QuestionType } from "../schemas/ai.schema";
+import type { SandboxResult } from "../utils/codeSandbox";
+import { normalizeLocale } from "../utils/locale";
+import logger from "../utils/logger";
+
+// Attempts before a job is marked failed
+export const MAX_REGRADE_ATTEMPTS = parseInt(process.env.MAX_REGRADE_ATTEMPTS || "8", 10);
+
+// First retry delay; doubles per attempt up to MAX_RETRY_DELAY_MS
+const BASE_RETRY_DELAY_MS = parseInt(process.env.REGRADE_RETRY_BASE_MS || "60000", 10);
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Jobs claimed per poll
+const BATCH_SIZE = 5;
+
+// A job still `running` after this long belonged to a worker that died; it is retried
+const STALE_RUNNING_MS = 10 * 60 * 1000;
+
+export type RegradeStatus = "pending" | "running" | "done" | "failed";
+
+let workerTimer: NodeJS.Timeout | null = null;
+let tickInProgress = false;
+
+export class RegradeService {
+    /**
+     * Claim up to `limit` due jobs. SKIP LOCKED lets several server processes poll the same
+     * queue without grading an answer twice.
+     */
+    static async claimDue(
+        limit: number = BATCH_SIZE,
+        now: Date = new Date()
+    ): Promise<RegradeJob[]> {
+        const due = db
+            .select({ id: regradeJobs.id })
+            .from(regradeJobs)
+            .where(and(eq(regradeJobs.status, "pending"), lte(regradeJobs.nextRunAt, now)))
+            .orderBy(asc(regradeJobs.nextRunAt))
+            .limit(limit)
+            .for("update", { skipLocked: true });
+
+        return await db
+            .update(regradeJobs)
+            .set({ status: "running", updatedAt: now })
+            .where(inArray(regradeJobs.id, due))
+            .returning();
+    }
+
+    /**
+     * Put jobs left `running` by a crashed worker back in the queue
+     */
+    static async recoverStale(now: Date = new Date()): Promise<number> {
+        const recovered = await db
+            .update(regradeJobs)
+            .set({ status: "pending", updatedAt: now })
+            .where(
+                and(
+                    eq(regradeJobs.status, "running"),
+                    lt(regradeJobs.updatedAt, new Date(now.getTime() - STALE_RUNNING_MS))
+                )
+            )
+            .returning({ id: regradeJobs.id });
+        return recovered.length;
+    }
+
+    /**
+     * Grade the job's answer. On success the answer row gets its scores and the user's
+     * progress is recomputed; otherwise the job is rescheduled with backoff, or marked failed
+     * after MAX_REGRADE_ATTEMPTS.
+     */
+    static async process(job: RegradeJob): Promise<RegradeStatus> {
+        const attempts = job.attempts + 1;
+        try {
+            const [answer] = await db.select().from(answers).where(eq(answers.id, job.answerId));
+            if (!answer || answer.gradingStatus !== "pending_regrade") {
+                // Deleted, or graded some other way in the meantime
+                return await this.finish(job, "done", attempts);
+            }
+
+            const [user] = await db
+                .select({ gradingSamples: users.gradingSamples })
+                .from(users)
+                .where(eq(users.id, answer.userId));
+            const [interview] = await db
+                .select({ persona: interviews.persona })
+                .from(interviews)
+                .where(eq(interviews.id, answer.interviewId));
+            const questionType =
+                (answer.rubric as QuestionType | null) ||
+                RubricService.resolveQuestionType(answer.question);
+
+            const feedback = await runWithUsage(
+                {
+                    userId: answer.userId,
+                    endpoint: "regrade-worker",
+                    record: (call) => {
+                        void UsageService.record({
+                            ...call,
+                            userId: answer.userId,
+                            endpoint: "regrade-worker",
+                        });
+                    },
+                },
+                async () => {
+                    const graded = await feedbackService.generateFeedback(
+                        answer.question,
+                        answer.answer,
+                        questionType,
+                        {
+                            samples: user?.gradingSamples || 1,
+                            userId: answer.userId,
+                            locale: normalizeLocale(answer.locale),
+                            persona: PersonaService.forInterview(interview),
+                        }
+                    );
+                    if (graded.source === "fallback") {
+                        throw new Error("AI grading is still unavailable");
+                    }
+                    // Panel answers also carry each panelist's own grading
+                    await PanelService.regradeScores(
+                        answer,
+                        questionType,
+                        normalizeLocale(answer.locale)
+                    );
+                    return graded;
+                }
+            );
+
+            // Coding answers keep the correctness their test run earned
+            const graded =
+                questionType === "coding" && answer.testResults
+                    ? CodingService.applyTestResults(feedback, answer.testResults as SandboxResult)
+                    : feedback;
+
+            await db.update(answers).set(toAnswerScores(graded)).where(eq(answers.id, answer.id));
+            await new DatabaseService().recomputeUserProgress(answer.userId);
+
+            logger.info("Answer regraded", { answerId: answer.id, attempts });
+            return await this.finish(job, "done", attempts);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (attempts >= MAX_REGRADE_ATTEMPTS) {
+                logger.error("Answer regrade failed permanently", {
+                    answerId: job.answerId,
+                    attempts,
+                    error: message,
+                });
+                return await this.finish(job, "failed", attempts, message);
+            }
+
+            const nextRunAt = new Date(Date.now() + this.retryDelay(attempts));
+            logger.warn("Answer regrade failed, retrying later", {
+                answerId: job.answerId,
+                attempts,
+                nextRunAt,
+                error: message,
+            });
+            await db
+                .update(regradeJobs)
+                .set({
+                    status: "pending",
+                    attempts,
+                    nextRunAt,
+                    lastError: message,
+                    updatedAt: new Date(),
+                })
+                .where(eq(regradeJobs.id, job.id));
+            return "pending";
+        }
+    }
+
+    /**
+     * Regrade jobs for a user's answers that haven't completed, newest first
+     */
+    static async getStatusForUser(userId: number) {
+        const jobs = await db
+            .select({
+                answerId: regradeJobs.answerId,
+                interviewId: answers.interviewId,
+                question: answers.question,
+                status: regradeJobs.status,
+                attempts: regradeJobs.attempts,
+                nextRunAt: regradeJobs.nextRunAt,
+                lastError: regradeJobs.lastError,
+                createdAt: regradeJobs.createdAt,
+            })
+            .from(regradeJobs)
+            .innerJoin(answers, eq(answers.id, regradeJobs.answerId))
+            .where(
+                and(
+                    eq(regradeJobs.userId, userId),
+                    inArray(regradeJobs.status, ["pending", "running", "failed"])
+                )
+            )
+            .orderBy(desc(regradeJobs.createdAt));
+
+        return {
+            pending: jobs.filter((job) => job.status !== "failed").length,
+            failed: jobs.filter((job) => job.status === "failed").length,
+            maxAttempts: MAX_REGRADE_ATTEMPTS,
+            jobs,
+        };
+    }
+
+    /**
+     * Poll the queue every `intervalMs` in this process. Jobs are graded one at a time so a
+     * backlog doesn't flood the AI provider once it recovers.
+     */
+    static startWorker(
+        intervalMs: number = parseInt(process.env.REGRADE_POLL_MS || "30000", 10)
+    ): void {
+        if (workerTimer) return;
+
+        workerTimer = setInterval(() => {
+            void this.tick();
+        }, intervalMs);
+        // Don't keep the process alive just for the worker
+        workerTimer.unref();
+
+        logger.info(`Regrade worker started: polling every ${intervalMs}ms`);
+    }
+
+    static stopWorker(): void {
+        if (workerTimer) {
+            clearInterval(workerTimer);
+            workerTimer = null;
+        }
+    }
+
+    // One poll: recover abandoned jobs, then grade a batch of due ones
+    static async tick(): Promise<void> {
+        if (tickInProgress) return;
+        tickInProgress = true;
+        try {
+            const recovered = await this.recoverStale();
+            if (recovered > 0) {
+                logger.warn("Requeued stale regrade jobs", { count: recovered });
+            }
+
+            for (const job of await this.claimDue()) {
+                await this.process(job);
+            }
+        } catch (error) {
+            logger.error("Regrade worker poll failed", {
+                error: error instanceof Error ? error.message : error,
+            });
+        } finally {
+            tickInProgress = false;
+        }
+    }
+
+    // Exponential backoff with jitter: 1, 2, 4, ... minutes (by default), +/- 20%
+    private static retryDelay(attempts: number): number {
+        const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempts - 1));
+        return Math.round(delay * (0.8 + Math.random() * 0.4));
+    }
+
+    private static async finish(
+        job: RegradeJob,
+        status: "done" | "failed",
+        attempts: number,
+        lastError: string | null = null
+    ): Promise<RegradeStatus> {
+        await db
+            .update(regradeJobs)
+            .set({ status, attempts, lastError, updatedAt: new Date() })
+            .where(eq(regradeJobs.id, job.id));
+        return status;
+    }
+}
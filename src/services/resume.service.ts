@@ -0,0 +1,234 @@
+import { PDFParse } from "pdf-parse";
+import { db } from "../lib/db";
+import { resumes, interviews, answers, followUps, type Resume } from "../db/schema";
+import { eq, inArray } from "drizzle-orm";
+import { getLLMProvider } from "../providers";
+import { generateStructured } from "../utils/structuredOutput";
+import {
+    resumeProfileSchema,
+    type Question,
+    type ResumeProfile,
+    type OutputSource,
+} from "../schemas/ai.schema";
+import { CacheService } from "./cache.service";
+import { findSkillKeywords } from "./jobDescription.service";
+import logger from "../utils/logger";
+
+export type ResumeFormat = "text" | "markdown" | "pdf";
+
+// Stands in for question text that was written from a deleted resume
+export const REDACTED_QUESTION = "[Question removed with the resume it was based on]";
+
+export interface ResumeDeletion {
+    // Resume-personalized interviews whose question text was redacted
+    interviews: number;
+    answers: number;
+    followUps: number;
+}
+
+export class ResumeService {
+    /**
+     * Detect the upload format and return its plain text
+     */
+    static async extractText(
+        buffer: Buffer,
+        fileName: string = "",
+        mimeType: string = ""
+    ): Promise<{ text: string; format: ResumeFormat }> {
+        if (mimeType === "application/pdf" || /\.pdf$/i.test(fileName)) {
+            const parser = new PDFParse({ data: buffer });
+            try {
+                const result = await parser.getText({ pageJoiner: "" });
+                return { text: result.text.trim(), format: "pdf" };
+            } finally {
+                await parser.destroy();
+            }
+        }
+
+        const text = buffer.toString("utf8");
+        if (mimeType === "text/markdown" || /\.(md|markdown)$/i.test(fileName)) {
+            return { text: this.stripMarkdown(text), format: "markdown" };
+        }
+        return { text: text.trim(), format: "text" };
+    }
+
+    /**
+     * Parse roles, projects, skills and dates out of resume text
+     */
+    static async parseProfile(
+        resumeText: string
+    ): Promise<{ profile: ResumeProfile; source: OutputSource }> {
+        const prompt = `Parse this resume into a structured candidate profile.
+
+Resume:
+"""
+${resumeText}
+"""
+
+Return a JSON object with:
+- name: candidate name (string, optional)
+- summary: one-sentence professional summary (string, optional)
+- roles: array of { title, company, startDate, endDate, highlights } ordered most recent first. Dates as written (e.g. "2021-03" or "Mar 2021"); endDate is "present" for the current role. highlights are concrete achievements (array of strings).
+- projects: array of { name, description, technologies }
+- skills: array of skill names
+
+Return ONLY the JSON object.`;
+
+        try {
+            const { data, source } = await generateStructured(
+                getLLMProvider(),
+                { task: "resumeParsing", prompt, hints: { resumeText } },
+                resumeProfileSchema
+            );
+            return { profile: data, source };
+        } catch (error) {
+            logger.error("Resume parsing failed, using keyword extraction", {
+                error: error instanceof Error ? error.message : error,
+            });
+            return {
+                profile: { roles: [], projects: [], skills: findSkillKeywords(resumeText) },
+                source: "fallback",
+            };
+        }
+    }
+
+    // Store (or replace) the user's resume with its parsed profile
+    static async saveResume(
+        userId: number,
+        upload: { text: string; format: ResumeFormat; fileName?: string }
+    ) {
+        const { profile, source } = await this.parseProfile(upload.text);
+        const now = new Date();
+
+        const [resume] = await db
+            .insert(resumes)
+            .values({
+                userId,
+                fileName: upload.fileName,
+                format: upload.format,
+                rawText: upload.text,
+                profile,
+            })
+            .onConflictDoUpdate({
+                target: resumes.userId,
+                set: {
+                    fileName: upload.fileName,
+                    format: upload.format,
+                    rawText: upload.text,
+                    profile,
+                    updatedAt: now,
+                },
+            })
+            .returning();
+
+        // Questions personalized with the previous version are stale
+        CacheService.deleteMatching(`:resume-${resume.id}`);
+
+        logger.info("Resume saved", { userId, resumeId: resume.id, source });
+        return { resume, source };
+    }
+
+    static async getResume(userId: number): Promise<Resume | null> {
+        const [resume] = await db.select().from(resumes).where(eq(resumes.userId, userId)).limit(1);
+        return resume || null;
+    }
+
+    /**
+     * Delete the resume and its parsed profile, drop cached questions generated from it and
+     * redact the question text of resume-personalized interviews: the questions, the copies
+     * stored with their answers and the follow-ups asked in those interviews. The user's own
+     * answers, scores and feedback are kept. Follow-ups that used the resume in an interview
+     * that wasn't personalized aren't linked to it and can't be found
+     */
+    static async deleteResume(userId: number): Promise<ResumeDeletion | null> {
+        const resume = await this.getResume(userId);
+        if (!resume) {
+            return null;
+        }
+
+        // One transaction, and the resume link cleared last: a failed step leaves every
+        // interview still linked, so a retry finds and redacts it
+        const deletion = await db.transaction(async (tx): Promise<ResumeDeletion> => {
+            const personalized = await tx
+                .select({ id: interviews.id, questions: interviews.questions })
+                .from(interviews)
+                .where(eq(interviews.resumeId, resume.id))
+                .for("update");
+            const interviewIds = personalized.map((interview) => interview.id);
+            if (interviewIds.length === 0) {
+                await tx.delete(resumes).where(eq(resumes.id, resume.id));
+                return { interviews: 0, answers: 0, followUps: 0 };
+            }
+
+            const redactedAnswers = await tx
+                .update(answers)
+                .set({ question: REDACTED_QUESTION })
+                .where(inArray(answers.interviewId, interviewIds))
+                .returning({ id: answers.id });
+            const redactedFollowUps = await tx
+                .update(followUps)
+                .set({ question: REDACTED_QUESTION })
+                .where(inArray(followUps.interviewId, interviewIds))
+                .returning({ id: followUps.id });
+            for (const interview of personalized) {
+                const questions = ((interview.questions as Question[]) || []).map((question) => ({
+                    ...question,
+                    question: REDACTED_QUESTION,
+                }));
+                await tx
+                    .update(interviews)
+                    .set({ questions })
+                    .where(eq(interviews.id, interview.id));
+            }
+
+            await tx
+                .update(interviews)
+                .set({ resumeId: null })
+                .where(inArray(interviews.id, interviewIds));
+            await tx.delete(resumes).where(eq(resumes.id, resume.id));
+
+            return {
+                interviews: interviewIds.length,
+                answers: redactedAnswers.length,
+                followUps: redactedFollowUps.length,
+            };
+        });
+
+        CacheService.deleteMatching(`:resume-${resume.id}`);
+
+        logger.info("Resume deleted", { userId, resumeId: resume.id, redacted: deletion });
+        return deletion;
+    }
+
+    // Compact candidate background for generation prompts
+    static formatForPrompt(profile: ResumeProfile): string {
+        const roles = profile.roles.map((role) => {
+            const dates = [role.startDate, role.endDate].filter(Boolean).join(" - ");
+            const highlights = role.highlights.map((h) => `\n    * ${h}`).join("");
+            return `  - ${role.title} at ${role.company}${dates ? ` (${dates})` : ""}${highlights}`;
+        });
+        const projects = profile.projects.map(
+            (project) =>
+                `  - ${project.name}: ${project.description}${
+                    project.technologies.length ? ` [${project.technologies.join(", ")}]` : ""
+                }`
+        );
+
+        return [
+            profile.summary ? `Summary: ${profile.summary}` : "",
+            roles.length ? `Roles:\n${roles.join("\n")}` : "",
+            projects.length ? `Projects:\n${projects.join("\n")}` : "",
+            profile.skills.length ? `Skills: ${profile.skills.join(", ")}` : "",
+        ]
+            .filter(Boolean)
+            .join("\n");
+    }
+
+    private static stripMarkdown(markdown: string): string {
+        return markdown
+            .replace(/^#{1,6}\s*/gm, "")
+            .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+            .replace(/(\*\*|__|\*|`)/g, "")
+            .trim();
+    }
+}
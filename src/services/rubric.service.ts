@@ -0,0 +1,245 @@
+import type { CriterionScore, Feedback, Question, QuestionType } from "../schemas/ai.schema";
+
+// Scores every rubric shares; they also fill the answers table's own score columns
+type SharedCriterion = "relevance" | "clarity" | "depth";
+
+export interface RubricCriterion {
+    key: string;
+    label: string;
+    description: string;
+    weight: number;
+}
+
+export interface Rubric {
+    type: QuestionType;
+    name: string;
+    // Weights of the shared scores; together with the criteria weights they sum to 1
+    shared: Record<SharedCriterion, number>;
+    criteria: RubricCriterion[];
+}
+
+// Stored in answers.star_method_score for behavioral answers
+export interface StarBreakdown {
+    situation: CriterionScore;
+    task: CriterionScore;
+    action: CriterionScore;
+    result: CriterionScore;
+    overall: number;
+}
+
+export const RUBRICS: Record<QuestionType, Rubric> = {
+    behavioral: {
+        type: "behavioral",
+        name: "STAR",
+        shared: { relevance: 0.15, clarity: 0.1, depth: 0.15 },
+        criteria: [
+            {
+                key: "situation",
+                label: "Situation",
+                description: "Sets up a specific, real context rather than a generality",
+                weight: 0.1,
+            },
+            {
+                key: "task",
+                label: "Task",
+                description: "Makes clear what the candidate was responsible for",
+                weight: 0.1,
+            },
+            {
+                key: "action",
+                label: "Action",
+                description: "Describes the concrete steps the candidate personally took",
+                weight: 0.25,
+            },
+            {
+                key: "result",
+                label: "Result",
+                description: "States the outcome, ideally measurable, and what was learned",
+                weight: 0.15,
+            },
+        ],
+    },
+    technical: {
+        type: "technical",
+        name: "Technical",
+        shared: { relevance: 0.15, clarity: 0.1, depth: 0.2 },
+        criteria: [
+            {
+                key: "correctness",
+                label: "Correctness",
+                description: "Technical statements and the proposed approach are accurate",
+                weight: 0.35,
+            },
+            {
+                key: "tradeoffs",
+                label: "Trade-offs",
+                description: "Weighs alternatives and explains why one fits better",
+                weight: 0.2,
+            },
+        ],
+    },
+    situational: {
+        type: "situational",
+        name: "Situational judgment",
+        shared: { relevance: 0.15, clarity: 0.1, depth: 0.15 },
+        criteria: [
+            {
+                key: "judgment",
+                label: "Judgment",
+                description: "Chooses a sensible course of action and considers who is affected",
+                weight: 0.35,
+            },
+            {
+                key: "prioritization",
+                label: "Prioritization",
+                description: "Orders the competing concerns and explains what comes first and why",
+                weight: 0.25,
+            },
+        ],
+    },
+    coding: {
+        type: "coding",
+        name: "Code review",
+        shared: { relevance: 0.05, clarity: 0.1, depth: 0.05 },
+        criteria: [
+            {
+                key: "correctness",
+                label: "Correctness",
+                description:
+                    "Solves the stated problem including its edge cases; replaced by the hidden test pass rate once the code has run",
+                weight: 0.5,
+            },
+            {
+                key: "complexity",
+                label: "Complexity",
+                description: "Time and space complexity suit the problem, with no needless work",
+                weight: 0.15,
+            },
+            {
+                key: "style",
+                label: "Style",
+                description: "Readable names, clear structure and idiomatic JavaScript/TypeScript",
+                weight: 0.15,
+            },
+        ],
+    },
+    "system-design": {
+        type: "system-design",
+        name: "System design section",
+        shared: { relevance: 0.15, clarity: 0.1, depth: 0.15 },
+        criteria: [
+            {
+                key: "coverage",
+                label: "Coverage",
+                description:
+                    "Covers what this section of a design needs, as listed with the section",
+                weight: 0.25,
+            },
+            {
+                key: "justification",
+                label: "Justification",
+                description: "Explains why each choice fits the requirements and what it costs",
+                weight: 0.2,
+            },
+            {
+                key: "specificity",
+                label: "Specificity",
+                description:
+                    "Gives concrete numbers, endpoints, schemas or components rather than generalities",
+                weight: 0.15,
+            },
+        ],
+    },
+};
+
+// Phrasings that give away a question's type when it isn't stored with the interview
+const BEHAVIORAL_PATTERN =
+    /\b(tell me about a time|describe a (time|situation)|give an example|have you ever|walk me through a time)\b/i;
+const SITUATIONAL_PATTERN =
+    /\b(what would you do|how would you (handle|respond|deal|approach)|imagine|suppose|if you (were|had))\b/i;
+
+export class RubricService {
+    static criteriaKeys(type: QuestionType): string[] {
+        return RUBRICS[type].criteria.map((criterion) => criterion.key);
+    }
+
+    /**
+     * Question type for an answer: the type stored with the interview question when there is one,
+     * otherwise a guess from the wording
+     */
+    static resolveQuestionType(
+        question: string,
+        questionId?: string,
+        interviewQuestions?: unknown
+    ): QuestionType {
+        if (questionId && Array.isArray(interviewQuestions)) {
+            const match = (interviewQuestions as Question[]).find(
+                (q) => String(q.id) === String(questionId)
+            );
+            if (match?.type && match.type in RUBRICS) {
+                return match.type;
+            }
+        }
+
+        if (BEHAVIORAL_PATTERN.test(question)) return "behavioral";
+        if (SITUATIONAL_PATTERN.test(question)) return "situational";
+        return "technical";
+    }
+
+    /**
+     * Weighted overall score (0-10, one decimal) under the rubric for the question type
+     */
+    static overallScore(type: QuestionType, feedback: Feedback): number {
+        const rubric = RUBRICS[type];
+        let total =
+            feedback.relevanceScore * rubric.shared.relevance +
+            feedback.clarityScore * rubric.shared.clarity +
+            feedback.depthScore * rubric.shared.depth;
+        let weight = rubric.shared.relevance + rubric.shared.clarity + rubric.shared.depth;
+
+        for (const criterion of rubric.criteria) {
+            const score = feedback.criteria[criterion.key]?.score;
+            if (typeof score !== "number") continue;
+            total += score * criterion.weight;
+            weight += criterion.weight;
+        }
+
+        return Math.round((total / weight) * 10) / 10;
+    }
+
+    /**
+     * STAR breakdown in the shape stored in answers.star_method_score. Null for rubrics
+     * other than STAR.
+     */
+    static starBreakdown(
+        type: QuestionType,
+        criteria: Record<string, CriterionScore>
+    ): StarBreakdown | null {
+        if (type !== "behavioral") return null;
+
+        const missing: CriterionScore = { score: 0, evidence: "" };
+        const breakdown = {
+            situation: criteria.situation || missing,
+            task: criteria.task || missing,
+            action: criteria.action || missing,
+            result: criteria.result || missing,
+        };
+        const scores = Object.values(breakdown).map((part) => part.score);
+        return {
+            ...breakdown,
+            overall: Math.round((scores.reduce((sum, s) => sum + s, 0) / scores.length) * 10) / 10,
+        };
+    }
+
+    /**
+     * Rubric description for the grading prompt
+     */
+    static describeForPrompt(type: QuestionType): string {
+        const rubric = RUBRICS[type];
+        const criteria = rubric.criteria
+            .map((criterion) => `- ${criterion.key}: ${criterion.description}`)
+            .join("\n      ");
+        return `This is a ${type} question, graded with the ${rubric.name} rubric. In addition to relevance, clarity and depth, score each of these criteria from 0 to 10 and quote the part of the answer that supports the score as "evidence" (empty string if the answer has nothing for it):
+      ${criteria}`;
+    }
+}
@@ -0,0 +1,108 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { dirname, extname, join, resolve } from "path";
+import { v4 as uuidv4 } from "uuid";
+import { getTranscriptionProvider, type TranscriptionResult } from "../providers";
+import type { Locale } from "../utils/locale";
+import logger from "../utils/logger";
+
+// Recording formats accepted for spoken answers, with the content type each is served as
+export const AUDIO_FORMATS: Record<string, string> = {
+    ".wav": "audio/wav",
+    ".mp3": "audio/mpeg",
+    ".m4a": "audio/mp4",
+    ".webm": "audio/webm",
+    ".ogg": "audio/ogg",
+    ".flac": "audio/flac",
+};
+
+// Largest recording accepted, in megabytes
+export const MAX_AUDIO_MB = parseInt(process.env.MAX_AUDIO_MB || "25", 10);
+
+// Where recordings are stored; answers keep a path relative to it
+const storageDir = () => resolve(process.env.AUDIO_STORAGE_DIR || "uploads/audio");
+
+// Audio references are "<userId>/<uuid>.<ext>"; anything else is refused before touching disk
+const AUDIO_REF = /^\d+\/[0-9a-f-]{36}\.[a-z0-9]+$/;
+
+export class TranscriptionError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number
+    ) {
+        super(message);
+        this.name = "TranscriptionError";
+    }
+}
+
+export class SpeechService {
+    static isSupportedFile(fileName: string): boolean {
+        return extname(fileName).toLowerCase() in AUDIO_FORMATS;
+    }
+
+    static contentType(audioRef: string): string {
+        return AUDIO_FORMATS[extname(audioRef).toLowerCase()] || "application/octet-stream";
+    }
+
+    /**
+     * Store a recording and return its reference
+     */
+    static async saveRecording(userId: number, audio: Buffer, fileName: string): Promise<string> {
+        const audioRef = `${userId}/${uuidv4()}${extname(fileName).toLowerCase()}`;
+        const path = this.pathFor(audioRef);
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, audio);
+
+        logger.info("Recording stored", { audioRef, bytes: audio.length });
+        return audioRef;
+    }
+
+    static async readRecording(audioRef: string): Promise<Buffer> {
+        return readFile(this.pathFor(audioRef));
+    }
+
+    static async deleteRecording(audioRef: string): Promise<void> {
+        await rm(this.pathFor(audioRef), { force: true });
+    }
+
+    /**
+     * Transcribe a recording in the interview's language. Recordings with no recognizable
+     * speech are rejected rather than graded as an empty answer.
+     */
+    static async transcribe(
+        audio: Buffer,
+        fileName: string,
+        mimeType?: string,
+        locale?: Locale
+    ): Promise<TranscriptionResult & { provider: string }> {
+        const provider = getTranscriptionProvider();
+
+        let result: TranscriptionResult;
+        try {
+            result = await provider.transcribe({ audio, fileName, mimeType, language: locale });
+        } catch (error) {
+            logger.error("Transcription failed", {
+                provider: provider.name,
+                error: error instanceof Error ? error.message : error,
+            });
+            throw new TranscriptionError("Could not transcribe the recording", 502);
+        }
+
+        if (!result.text.trim()) {
+            throw new TranscriptionError("No speech was detected in the recording", 422);
+        }
+
+        logger.info("Recording transcribed", {
+            provider: provider.name,
+            words: result.words.length,
+            durationSeconds: result.durationSeconds,
+        });
+        return { ...result, provider: provider.name };
+    }
+
+    private static pathFor(audioRef: string): string {
+        if (!AUDIO_REF.test(audioRef)) {
+            throw new Error(`Invalid audio reference: ${audioRef}`);
+        }
+        return join(storageDir(), audioRef);
+    }
+}
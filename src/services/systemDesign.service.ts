@@ -0,0 +1,264 @@
+import { getLLMProvider } from "../providers";
+import { renderPrompt } from "../prompts";
+import { SYSTEM_DESIGN_PROBLEMS, type SystemDesignProblem } from "../data/systemDesignProblems";
+import type { InterviewerPersona } from "../data/personas";
+import { RUBRICS } from "./rubric.service";
+import type { Answer, FollowUp, Interview } from "../db/schema";
+import type { CriterionScore, Difficulty, Question } from "../schemas/ai.schema";
+import { extractMermaidDiagrams } from "../utils/mermaid";
+import { DEFAULT_LOCALE, localize, type Locale } from "../utils/locale";
+import logger from "../utils/logger";
+
+// Sections of a design answer, in the order an interviewer walks through them
+export const DESIGN_SECTIONS = [
+    {
+        key: "requirements",
+        label: "Requirements",
+        guidance:
+            "functional and non-functional requirements, scale estimates (users, requests per second, storage) and what is out of scope",
+    },
+    {
+        key: "api",
+        label: "API",
+        guidance: "the main endpoints or RPCs with their inputs, outputs and error cases",
+    },
+    {
+        key: "data-model",
+        label: "Data model",
+        guidance:
+            "entities, keys and relationships, the access patterns and the storage chosen for each",
+    },
+    {
+        key: "high-level-design",
+        label: "High-level design",
+        guidance: "the components and how a request flows through them, ideally with a diagram",
+    },
+    {
+        key: "scaling",
+        label: "Scaling",
+        guidance:
+            "the bottlenecks at the estimated load and how caching, partitioning, replication or queues remove them",
+    },
+    {
+        key: "tradeoffs",
+        label: "Trade-offs",
+        guidance:
+            "the alternatives considered, the consistency, availability and cost choices made, and what changes at ten times the load",
+    },
+] as const;
+
+export type DesignSection = (typeof DESIGN_SECTIONS)[number];
+
+// Section score below which the report lists the section as a gap
+const GAP_SCORE = 6;
+
+// Criterion score below which it counts as a weak point of the section
+const WEAK_CRITERION_SCORE = 6;
+
+export class SystemDesignError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number
+    ) {
+        super(message);
+        this.name = "SystemDesignError";
+    }
+}
+
+export class SystemDesignService {
+    static listProblems(difficulty?: Difficulty): SystemDesignProblem[] {
+        return SYSTEM_DESIGN_PROBLEMS.filter((p) => !difficulty || p.difficulty === difficulty);
+    }
+
+    static getProblem(slug: string): SystemDesignProblem | null {
+        return SYSTEM_DESIGN_PROBLEMS.find((problem) => problem.slug === slug) || null;
+    }
+
+    static getSection(key: string): DesignSection | null {
+        return DESIGN_SECTIONS.find((section) => section.key === key) || null;
+    }
+
+    /**
+     * The session's single question: a catalog problem, or the candidate's own prompt
+     */
+    static toQuestion(
+        problem: SystemDesignProblem | { prompt: string; difficulty: Difficulty }
+    ): Question {
+        return {
+            id: "slug" in problem ? `design-${problem.slug}` : "design-custom",
+            question: problem.prompt,
+            type: "system-design",
+            difficulty: problem.difficulty,
+            category: "system-design",
+        };
+    }
+
+    /**
+     * What one section is graded against: the problem, the section and what it should cover.
+     * Stored as the section answer's question, so regrades grade the same section.
+     */
+    static sectionQuestion(problem: string, section: DesignSection): string {
+        return `System design problem: ${problem}
+This answer is only the ${section.label} section of the design; the other sections are answered separately, so judge it on what this section should cover: ${section.guidance}. Mermaid diagrams in fenced code blocks are part of the answer.`;
+    }
+
+    /**
+     * Weak points of a graded section, weakest first: low rubric criteria, then the grader's
+     * top improvements
+     */
+    static gaps(criteria: Record<string, CriterionScore> | null, improvements: unknown): string[] {
+        const labels = new Map(
+            RUBRICS["system-design"].criteria.map((criterion) => [criterion.key, criterion.label])
+        );
+        const weak = Object.entries(criteria || {})
+            .filter(([, value]) => value.score < WEAK_CRITERION_SCORE)
+            .sort(([, a], [, b]) => a.score - b.score)
+            .map(([key, value]) => `${labels.get(key) || key} scored ${value.score}/10`);
+        const suggestions = Array.isArray(improvements) ? improvements.slice(0, 2).map(String) : [];
+        return [...weak, ...suggestions];
+    }
+
+    /**
+     * The interviewer's follow-up on a section, aimed at its weakest point
+     */
+    static async generateFollowUp(
+        problem: string,
+        section: DesignSection,
+        answer: string,
+        gaps: string[],
+        userId?: number,
+        locale: Locale = DEFAULT_LOCALE,
+        persona: InterviewerPersona | null = null
+    ): Promise<string> {
+        try {
+            const { prompt } = renderPrompt(
+                "design-follow-up",
+                {
+                    problem,
+                    section: section.label,
+                    sectionGuidance: section.guidance,
+                    answer,
+                    gaps,
+                    locale,
+                    persona,
+                },
+                userId
+            );
+            const followUp = await getLLMProvider().generate({
+                task: "followUp",
+                prompt,
+                hints: { originalQuestion: problem, answer, section: section.key, depth: 1 },
+            });
+            return followUp.trim();
+        } catch (error) {
+            logger.error("Design follow-up generation failed, using generic follow-up", {
+                error: error instanceof Error ? error.message : error,
+            });
+            return locale === DEFAULT_LOCALE
+                ? `What in your ${section.label.toLowerCase()} would have to change at ten times the load?`
+                : localize(locale, "designFollowUpFallback");
+        }
+    }
+
+    /**
+     * Session report: the latest answer to each section with its score, follow-up and weak
+     * points, plus a summary of the gaps across the design
+     */
+    static buildReport(interview: Interview, answers: Answer[], followUps: FollowUp[]) {
+        const question = ((interview.questions as Question[]) || [])[0];
+
+        const sections = DESIGN_SECTIONS.map((section) => {
+            const answer = answers
+                .filter((a) => a.section === section.key && !a.followUpId)
+                .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+            if (!answer) {
+                return { section: section.key, label: section.label, answered: false as const };
+            }
+
+            const followUp = followUps.find((f) => f.parentAnswerId === answer.id);
+            const followUpAnswer = followUp && answers.find((a) => a.followUpId === followUp.id);
+            return {
+                section: section.key,
+                label: section.label,
+                answered: true as const,
+                answerId: answer.id,
+                overallScore: answer.overallScore,
+                criteria: answer.rubricScores as Record<string, CriterionScore> | null,
+                gradingStatus: answer.gradingStatus,
+                diagrams: extractMermaidDiagrams(answer.answer).length,
+                gaps: this.gaps(
+                    answer.rubricScores as Record<string, CriterionScore> | null,
+                    answer.improvements
+                ),
+                followUp: followUp
+                    ? {
+                          id: followUp.id,
+                          question: followUp.question,
+                          answered: Boolean(followUpAnswer),
+                          score: followUpAnswer?.overallScore ?? null,
+                      }
+                    : null,
+            };
+        });
+
+        const scored = sections.filter(
+            (s): s is Extract<(typeof sections)[number], { answered: true }> =>
+                s.answered && typeof s.overallScore === "number"
+        );
+        const overallScore = scored.length
+            ? Math.round(
+                  (scored.reduce((sum, s) => sum + (s.overallScore as number), 0) / scored.length) *
+                      10
+              ) / 10
+            : null;
+
+        const gaps = sections.flatMap((s) => {
+            if (!s.answered)
+                return [{ section: s.section, label: s.label, reason: "not answered" }];
+            if (s.gradingStatus === "pending_regrade") {
+                return [{ section: s.section, label: s.label, reason: "waiting to be graded" }];
+            }
+            if (typeof s.overallScore === "number" && s.overallScore < GAP_SCORE) {
+                return [
+                    {
+                        section: s.section,
+                        label: s.label,
+                        reason: `scored ${s.overallScore}/10${s.gaps[0] ? `; ${s.gaps[0]}` : ""}`,
+                    },
+                ];
+            }
+            return [];
+        });
+
+        return {
+            interviewId: interview.id,
+            problem: question?.question ?? null,
+            sections,
+            completion: {
+                answered: sections.filter((s) => s.answered).length,
+                total: DESIGN_SECTIONS.length,
+            },
+            overallScore,
+            gaps,
+            summary: this.summarize(scored, overallScore, gaps),
+        };
+    }
+
+    private static summarize(
+        scored: { label: string; overallScore: number | null }[],
+        overallScore: number | null,
+        gaps: { label: string; reason: string }[]
+    ): string {
+        if (scored.length === 0) {
+            return "No section has been graded yet.";
+        }
+
+        const strongest = scored.reduce((best, s) =>
+            (s.overallScore as number) > (best.overallScore as number) ? s : best
+        );
+        const gapText = gaps.length
+            ? `Gaps: ${gaps.map((gap) => `${gap.label} (${gap.reason})`).join(", ")}.`
+            : `No section scored below ${GAP_SCORE}/10.`;
+        return `${scored.length} of ${DESIGN_SECTIONS.length} sections graded, averaging ${overallScore}/10. Strongest: ${strongest.label} (${strongest.overallScore}/10). ${gapText}`;
+    }
+}
@@ -0,0 +1,208 @@
+import { db } from "../lib/db";
+import { llmUsage, users, type NewLLMUsage } from "../db/schema";
+import { and, avg, count, desc, eq, gte, sql, sum, type SQL } from "drizzle-orm";
+import logger from "../utils/logger";
+
+export type QuotaPeriod = "daily" | "monthly";
+
+// LLM calls allowed per period; 0 means unlimited
+export interface TierQuota {
+    daily: number;
+    monthly: number;
+}
+
+// Tier limits come from LLM_QUOTA_<TIER>_<PERIOD>, e.g. LLM_QUOTA_FREE_DAILY
+const quota = (tier: string, period: QuotaPeriod, fallback: number) => {
+    const value = parseInt(
+        process.env[`LLM_QUOTA_${tier.toUpperCase()}_${period.toUpperCase()}`] || "",
+        10
+    );
+    return Number.isNaN(value) ? fallback : value;
+};
+
+export const USAGE_TIERS: Record<string, TierQuota> = {
+    free: { daily: quota("free", "daily", 50), monthly: quota("free", "monthly", 500) },
+    pro: { daily: quota("pro", "daily", 500), monthly: quota("pro", "monthly", 10000) },
+};
+
+export const DEFAULT_TIER = "free";
+
+// Requests with no user share one quota per IP address
+export const ANONYMOUS_TIER = "anonymous";
+const ANONYMOUS_QUOTA: TierQuota = {
+    daily: quota(ANONYMOUS_TIER, "daily", 10),
+    monthly: quota(ANONYMOUS_TIER, "monthly", 100),
+};
+
+export interface PeriodUsage {
+    used: number;
+    // null when the tier has no limit for the period
+    limit: number | null;
+    resetAt: Date;
+}
+
+export interface QuotaStatus {
+    tier: string;
+    daily: PeriodUsage;
+    monthly: PeriodUsage;
+}
+
+// The first period over its limit, if any
+export interface QuotaExceeded {
+    tier: string;
+    period: QuotaPeriod;
+    used: number;
+    limit: number;
+    resetAt: Date;
+}
+
+// Periods are calendar days and months in UTC
+const periodStart = (period: QuotaPeriod, now: Date) =>
+    period === "daily"
+        ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+        : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+const periodEnd = (period: QuotaPeriod, now: Date) =>
+    period === "daily"
+        ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+        : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+export class UsageService {
+    static tierQuota(tier: string | null | undefined): TierQuota {
+        return USAGE_TIERS[tier || DEFAULT_TIER] || USAGE_TIERS[DEFAULT_TIER];
+    }
+
+    /**
+     * Store one LLM call. Metering never fails the request that made the call.
+     */
+    static async record(entry: NewLLMUsage): Promise<void> {
+        try {
+            await db.insert(llmUsage).values(entry);
+        } catch (error) {
+            logger.warn("Could not record LLM usage", {
+                endpoint: entry.endpoint,
+                userId: entry.userId,
+                error: error instanceof Error ? error.message : error,
+            });
+        }
+    }
+
+    /**
+     * Calls used this day and month against the user's tier limits. Only successful calls
+     * count: a request that retries or falls back through the provider chain during an outage
+     * records a failed call per attempt, and those shouldn't use up the user's quota.
+     */
+    static async getQuotaStatus(userId: number, now: Date = new Date()): Promise<QuotaStatus> {
+        const [user] = await db
+            .select({ tier: users.tier })
+            .from(users)
+            .where(eq(users.id, userId));
+        const tier = user?.tier && USAGE_TIERS[user.tier] ? user.tier : DEFAULT_TIER;
+        const limits = this.tierQuota(tier);
+
+        return this.usageAgainst(eq(llmUsage.userId, userId), tier, limits, now);
+    }
+
+    /**
+     * Calls used this day and month by requests with no user from one IP address
+     */
+    static async getAnonymousQuotaStatus(
+        clientIp: string,
+        now: Date = new Date()
+    ): Promise<QuotaStatus> {
+        return this.usageAgainst(
+            eq(llmUsage.clientIp, clientIp),
+            ANONYMOUS_TIER,
+            ANONYMOUS_QUOTA,
+            now
+        );
+    }
+
+    /**
+     * The period whose quota the user has used up, or null when they may make more calls.
+     * The daily quota is reported first since it resets sooner.
+     */
+    static async checkQuota(userId: number, now: Date = new Date()): Promise<QuotaExceeded | null> {
+        return this.firstExceeded(await this.getQuotaStatus(userId, now));
+    }
+
+    // Same as checkQuota, for requests with no user
+    static async checkAnonymousQuota(
+        clientIp: string,
+        now: Date = new Date()
+    ): Promise<QuotaExceeded | null> {
+        return this.firstExceeded(await this.getAnonymousQuotaStatus(clientIp, now));
+    }
+
+    /**
+     * This month's calls per endpoint: volume, size, latency and failures
+     */
+    static async getMonthlyBreakdown(userId: number, now: Date = new Date()) {
+        const rows = await db
+            .select({
+                endpoint: llmUsage.endpoint,
+                calls: count(),
+                inputChars: sum(llmUsage.inputChars),
+                outputChars: sum(llmUsage.outputChars),
+                averageLatencyMs: avg(llmUsage.latencyMs),
+                errors: sql<number>`count(*) filter (where ${llmUsage.outcome} = 'error')`,
+            })
+            .from(llmUsage)
+            .where(
+                and(
+                    eq(llmUsage.userId, userId),
+                    gte(llmUsage.createdAt, periodStart("monthly", now))
+                )
+            )
+            .groupBy(llmUsage.endpoint)
+            .orderBy(desc(count()));
+
+        return rows.map((row) => ({
+            endpoint: row.endpoint,
+            calls: row.calls,
+            inputChars: Number(row.inputChars || 0),
+            outputChars: Number(row.outputChars || 0),
+            averageLatencyMs: Math.round(Number(row.averageLatencyMs || 0)),
+            errors: Number(row.errors || 0),
+        }));
+    }
+
+    // Successful calls matching `owner` this day and month, against `limits`
+    private static async usageAgainst(
+        owner: SQL,
+        tier: string,
+        limits: TierQuota,
+        now: Date
+    ): Promise<QuotaStatus> {
+        const [row] = await db
+            .select({
+                daily: sql<number>`count(*) filter (where ${llmUsage.createdAt} >= ${periodStart("daily", now)})`,
+                monthly: count(),
+            })
+            .from(llmUsage)
+            .where(
+                and(
+                    owner,
+                    eq(llmUsage.outcome, "success"),
+                    gte(llmUsage.createdAt, periodStart("monthly", now))
+                )
+            );
+
+        const period = (name: QuotaPeriod): PeriodUsage => ({
+            used: Number(row?.[name] || 0),
+            limit: limits[name] || null,
+            resetAt: periodEnd(name, now),
+        });
+        return { tier, daily: period("daily"), monthly: period("monthly") };
+    }
+
+    private static firstExceeded(status: QuotaStatus): QuotaExceeded | null {
+        for (const period of ["daily", "monthly"] as const) {
+            const { used, limit, resetAt } = status[period];
+            if (limit !== null && used >= limit) {
+                return { tier: status.tier, period, used, limit, resetAt };
+            }
+        }
+        return null;
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * Length of a PCM WAV recording in seconds, or null for anything else
+ */
+export function wavDurationSeconds(audio: Buffer): number | null {
+    if (
+        audio.length < 44 ||
+        audio.toString("ascii", 0, 4) !== "RIFF" ||
+        audio.toString("ascii", 8, 12) !== "WAVE"
+    ) {
+        return null;
+    }
+
+    let byteRate = 0;
+    let offset = 12;
+    while (offset + 8 <= audio.length) {
+        const chunkId = audio.toString("ascii", offset, offset + 4);
+        const chunkSize = audio.readUInt32LE(offset + 4);
+        if (chunkId === "fmt " && offset + 20 <= audio.length) {
+            byteRate = audio.readUInt32LE(offset + 16);
+        } else if (chunkId === "data") {
+            // Streamed recordings may leave the size unset; use what was actually written
+            const size = Math.min(chunkSize, audio.length - offset - 8);
+            return byteRate > 0 ? size / byteRate : null;
+        }
+        offset += 8 + chunkSize + (chunkSize % 2);
+    }
+    return null;
+}
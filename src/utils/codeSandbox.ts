@@ -0,0 +1,307 @@
+import { spawn } from "child_process";
+
+export interface SandboxTest {
+    name: string;
+    args: unknown[];
+    expected: unknown;
+    // Hidden tests report only pass/fail, never their input or expected output
+    hidden: boolean;
+}
+
+export interface SandboxLimits {
+    // CPU time one test call may take
+    testTimeoutMs: number;
+    // Heap available to the candidate's code
+    memoryMb: number;
+}
+
+export interface TestOutcome {
+    name: string;
+    hidden: boolean;
+    passed: boolean;
+    durationMs: number;
+    error?: string;
+    // Visible tests only
+    input?: unknown[];
+    expected?: unknown;
+    actual?: unknown;
+}
+
+export type SandboxStatus = "completed" | "compile_error" | "timeout" | "memory_limit" | "crashed";
+
+export interface SandboxResult {
+    status: SandboxStatus;
+    passed: number;
+    total: number;
+    tests: TestOutcome[];
+    // Compile error, or why the run stopped early
+    error?: string;
+    // console output from the candidate's code, truncated
+    logs: string[];
+    durationMs: number;
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+    testTimeoutMs: parseInt(process.env.CODE_SANDBOX_TEST_TIMEOUT_MS || "2000", 10),
+    memoryMb: parseInt(process.env.CODE_SANDBOX_MEMORY_MB || "64", 10),
+};
+
+// Process startup plus slack on top of the per-test timeouts before the run is killed
+const STARTUP_ALLOWANCE_MS = 3000;
+
+// Longest serialized value echoed back for a visible test
+const MAX_VALUE_LENGTH = 2000;
+
+// Node's permission model: with no --allow-* grants the process can't touch the file system,
+// spawn processes or start workers. Stable as --permission from Node 22.13, experimental before
+const PERMISSION_FLAGS = process.allowedNodeEnvironmentFlags.has("--permission")
+    ? ["--permission"]
+    : process.allowedNodeEnvironmentFlags.has("--experimental-permission")
+      ? ["--experimental-permission"]
+      : [];
+
+// Messages the sandbox process sends while it runs
+type SandboxMessage =
+    | { kind: "compile_error"; error: string }
+    | { kind: "test"; outcome: TestOutcome }
+    | { kind: "done"; logs: string[] };
+
+/**
+ * Runs in the sandbox process, so it must not reference anything outside its own body; it is
+ * serialized with toString(). The candidate's code runs in a fresh vm context that holds no
+ * objects from this realm (console and module are created inside it), has string code
+ * generation disabled and gets a CPU timeout per call. Dynamic import() is rejected with an
+ * error made inside the context: Node's own "no callback" error comes from this realm, and its
+ * constructor chain would hand the candidate our Function and, through it, `process`.
+ */
+function sandboxProcess(run: {
+    code: string;
+    functionName: string;
+    tests: SandboxTest[];
+    testTimeoutMs: number;
+    maxValueLength: number;
+}) {
+    const vm = require("vm");
+    const { isDeepStrictEqual } = require("util");
+    const { code, functionName, tests, testTimeoutMs, maxValueLength } = run;
+    const post = (message: unknown) => process.send!(message);
+
+    const context = vm.createContext(Object.create(null), {
+        codeGeneration: { strings: false, wasm: false },
+        microtaskMode: "afterEvaluate",
+    });
+    vm.runInContext(
+        `var __logs = [];
+        var __capture = true;
+        var console = {};
+        console.log = console.info = console.warn = console.error = function () {
+            if (__capture && __logs.length < 50) {
+                __logs.push(Array.prototype.map.call(arguments, String).join(" ").slice(0, 500));
+            }
+        };
+        var module = { exports: {} };
+        var exports = module.exports;`,
+        context
+    );
+    const rejectImport = () => {
+        throw vm.runInContext(`new Error("import() is not available")`, context);
+    };
+
+    const describe = (error: unknown) =>
+        error && typeof error === "object" && "message" in error
+            ? `${(error as Error).name || "Error"}: ${(error as Error).message}`
+            : String(error);
+    const truncate = (value: unknown) => {
+        const text = JSON.stringify(value);
+        return text !== undefined && text.length > maxValueLength
+            ? `${text.slice(0, maxValueLength)}...`
+            : value;
+    };
+
+    try {
+        // Function declarations, top-level consts and CommonJS exports all count
+        vm.runInContext(
+            `${code}
+;globalThis.__candidate =
+    typeof ${functionName} === "function" ? ${functionName}
+    : typeof module.exports.${functionName} === "function" ? module.exports.${functionName}
+    : typeof module.exports === "function" ? module.exports
+    : undefined;`,
+            context,
+            {
+                filename: "solution.js",
+                timeout: testTimeoutMs,
+                importModuleDynamically: rejectImport,
+            }
+        );
+        if (vm.runInContext("typeof __candidate", context) !== "function") {
+            throw new Error(`Define a function named ${functionName}`);
+        }
+    } catch (error) {
+        post({ kind: "compile_error", error: describe(error) });
+        return;
+    }
+
+    for (const test of tests) {
+        const started = Date.now();
+        let passed = false;
+        let actual: unknown;
+        let error: string | undefined;
+
+        try {
+            // Output printed during a hidden test could reveal its inputs
+            context.__capture = !test.hidden;
+            // Inputs cross into the context as a string so the code never holds one of our objects
+            context.__input = JSON.stringify(test.args);
+            const output = vm.runInContext(
+                `(function () {
+                    var result = __candidate.apply(undefined, JSON.parse(__input));
+                    return result instanceof Promise ? "promise" : JSON.stringify({ value: result });
+                })()`,
+                context,
+                { timeout: testTimeoutMs, importModuleDynamically: rejectImport }
+            );
+            if (output === "promise") {
+                error = "Return the result directly, not a Promise";
+            } else {
+                actual = JSON.parse(output).value;
+                passed = isDeepStrictEqual(actual, test.expected);
+            }
+        } catch (caught) {
+            // A hidden test's error message is written by the candidate's code and could carry
+            // its inputs
+            error = /timed out/i.test(describe(caught))
+                ? `Timed out after ${testTimeoutMs}ms`
+                : test.hidden
+                  ? "Failed"
+                  : describe(caught);
+        }
+
+        post({
+            kind: "test",
+            outcome: {
+                name: test.name,
+                hidden: test.hidden,
+                passed,
+                durationMs: Date.now() - started,
+                ...(error && { error }),
+                ...(!test.hidden && {
+                    input: truncate(test.args),
+                    expected: truncate(test.expected),
+                    actual: truncate(actual),
+                }),
+            },
+        });
+    }
+
+    post({
+        kind: "done",
+        logs: JSON.parse(vm.runInContext("JSON.stringify(__logs)", context)),
+    });
+}
+
+const SANDBOX_SOURCE = `process.once("message", ${sandboxProcess.toString()});`;
+
+/**
+ * Run JavaScript against a function's tests in a separate Node process with capped heap, a CPU
+ * timeout per test and a wall-clock limit for the whole run. Tests that never ran (because the
+ * code ran out of memory or the run was killed) are reported as failed with the reason.
+ *
+ * Hidden tests run after the visible ones, so code that stashes a hidden test's inputs has no
+ * later visible result or log to smuggle them out through.
+ *
+ * A vm context is not a security boundary on its own, so the process is locked down too: no
+ * environment variables, the permission model with no file system, child process or worker
+ * grants, and no code generation from strings in its own realm either.
+ */
+export function runInSandbox(
+    code: string,
+    functionName: string,
+    tests: SandboxTest[],
+    limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+): Promise<SandboxResult> {
+    const started = Date.now();
+    const ordered = [
+        ...tests.filter((test) => !test.hidden),
+        ...tests.filter((test) => test.hidden),
+    ];
+    const outcomes: TestOutcome[] = [];
+
+    return new Promise((resolve) => {
+        let settled = false;
+        const finish = (status: SandboxStatus, error?: string, logs: string[] = []) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            child.kill("SIGKILL");
+
+            // Anything after a crash or kill didn't run
+            const reported = [
+                ...outcomes,
+                ...ordered.slice(outcomes.length).map((test): TestOutcome => ({
+                    name: test.name,
+                    hidden: test.hidden,
+                    passed: false,
+                    durationMs: 0,
+                    error,
+                })),
+            ];
+            resolve({
+                status,
+                passed: reported.filter((test) => test.passed).length,
+                total: reported.length,
+                tests: reported,
+                ...(error && { error }),
+                logs,
+                durationMs: Date.now() - started,
+            });
+        };
+
+        const child = spawn(
+            process.execPath,
+            [
+                ...PERMISSION_FLAGS,
+                "--disallow-code-generation-from-strings",
+                `--max-old-space-size=${limits.memoryMb}`,
+                "--no-warnings",
+                "-e",
+                SANDBOX_SOURCE,
+            ],
+            { env: {}, stdio: ["ignore", "ignore", "pipe", "ipc"] }
+        );
+        let stderr = "";
+        child.stderr!.on("data", (chunk: Buffer) => {
+            stderr = (stderr + chunk.toString()).slice(-2000);
+        });
+        child.send({
+            code,
+            functionName,
+            tests: ordered,
+            testTimeoutMs: limits.testTimeoutMs,
+            maxValueLength: MAX_VALUE_LENGTH,
+        });
+
+        const timer = setTimeout(
+            () => finish("timeout", "Run exceeded its time limit"),
+            limits.testTimeoutMs * (tests.length + 1) + STARTUP_ALLOWANCE_MS
+        );
+
+        child.on("message", (message: SandboxMessage) => {
+            if (message.kind === "compile_error") {
+                finish("compile_error", message.error);
+            } else if (message.kind === "test") {
+                outcomes.push(message.outcome);
+            } else {
+                finish("completed", undefined, message.logs);
+            }
+        });
+        child.on("error", (error) => finish("crashed", error.message));
+        child.on("close", () => {
+            if (/heap out of memory|allocation failed/i.test(stderr)) {
+                finish("memory_limit", `Memory limit of ${limits.memoryMb}MB exceeded`);
+            } else {
+                finish("crashed", "Sandbox exited unexpectedly");
+            }
+        });
+    });
+}
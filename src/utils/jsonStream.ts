@@ -0,0 +1,91 @@
+export interface JsonStreamItem {
+    // Member name when the top-level value is an object; undefined for array elements
+    key?: string;
+    value: unknown;
+}
+
+/**
+ * Incremental parser for a single top-level JSON array or object arriving in chunks.
+ * Emits each array element or object member as soon as it is complete. Text before the
+ * first bracket (markdown fences, prose) is skipped.
+ */
+export class JsonStreamParser {
+    private buffer = "";
+    private position = 0;
+    private depth = 0;
+    private inString = false;
+    private escaped = false;
+    private container: "array" | "object" | null = null;
+    private segmentStart = -1;
+    private finished = false;
+
+    push(chunk: string): JsonStreamItem[] {
+        const items: JsonStreamItem[] = [];
+        this.buffer += chunk;
+
+        for (; this.position < this.buffer.length && !this.finished; this.position++) {
+            const char = this.buffer[this.position];
+
+            if (this.container === null) {
+                if (char === "[" || char === "{") {
+                    this.container = char === "[" ? "array" : "object";
+                    this.depth = 1;
+                    this.segmentStart = this.position + 1;
+                }
+                continue;
+            }
+
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === "\\") {
+                    this.escaped = true;
+                } else if (char === '"') {
+                    this.inString = false;
+                }
+                continue;
+            }
+
+            if (char === '"') {
+                this.inString = true;
+            } else if (char === "[" || char === "{") {
+                this.depth++;
+            } else if (char === "]" || char === "}") {
+                this.depth--;
+                if (this.depth === 0) {
+                    this.emitSegment(items, this.position);
+                    this.finished = true;
+                } else if (this.depth === 1) {
+                    // A nested value just closed; emit it without waiting for the next comma
+                    this.emitSegment(items, this.position + 1);
+                    this.segmentStart = this.position + 1;
+                }
+            } else if (char === "," && this.depth === 1) {
+                this.emitSegment(items, this.position);
+                this.segmentStart = this.position + 1;
+            }
+        }
+
+        return items;
+    }
+
+    get done(): boolean {
+        return this.finished;
+    }
+
+    private emitSegment(items: JsonStreamItem[], end: number) {
+        const segment = this.buffer.slice(this.segmentStart, end).trim();
+        if (!segment) return;
+
+        try {
+            if (this.container === "array") {
+                items.push({ value: JSON.parse(segment) });
+            } else {
+                const [[key, value]] = Object.entries(JSON.parse(`{${segment}}`));
+                items.push({ key, value });
+            }
+        } catch {
+            // Malformed segment; skip it and let the caller validate what remains
+        }
+    }
+}
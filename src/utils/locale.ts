@@ -0,0 +1,41 @@
+import { MESSAGES, type MessageKey } from "../data/localizedMessages";
+
+// Languages questions, feedback and fallback content are available in
+export const SUPPORTED_LOCALES = ["en", "es", "fr", "de"] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Language names as prompts refer to them
+export const LOCALE_NAMES: Record<Locale, string> = {
+    en: "English",
+    es: "Spanish",
+    fr: "French",
+    de: "German",
+};
+
+export const isSupportedLocale = (value: unknown): value is Locale =>
+    typeof value === "string" && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+
+/**
+ * Supported locale for a stored or requested value. Region tags fall back to their language
+ * ("es-MX" -> "es"); anything unsupported falls back to English.
+ */
+export function normalizeLocale(value: unknown): Locale {
+    if (typeof value !== "string") return DEFAULT_LOCALE;
+    const language = value.trim().toLowerCase().split(/[-_]/)[0];
+    return isSupportedLocale(language) ? language : DEFAULT_LOCALE;
+}
+
+/**
+ * Static text in the locale, with `{name}` placeholders filled from `vars`
+ */
+export function localize(
+    locale: Locale,
+    key: MessageKey,
+    vars: Record<string, string> = {}
+): string {
+    const template = MESSAGES[locale]?.[key] || MESSAGES[DEFAULT_LOCALE][key];
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => vars[name] ?? match);
+}
@@ -0,0 +1,47 @@
+// Diagram declarations Mermaid accepts on a diagram's first line
+const DIAGRAM_TYPES = [
+    "graph",
+    "flowchart",
+    "sequenceDiagram",
+    "classDiagram",
+    "stateDiagram",
+    "stateDiagram-v2",
+    "erDiagram",
+    "C4Context",
+    "C4Container",
+    "C4Component",
+    "C4Deployment",
+    "architecture-beta",
+    "block-beta",
+    "mindmap",
+];
+
+const FENCE_PATTERN = /```mermaid[^\n]*\n([\s\S]*?)```/g;
+
+export interface MermaidDiagram {
+    // Declared diagram type, e.g. "flowchart"; null when the first line isn't a known type
+    type: string | null;
+    source: string;
+    lines: number;
+}
+
+/**
+ * Mermaid diagrams in fenced ```mermaid blocks. Only the declaration is checked; the diagram
+ * body is passed to the grader as text.
+ */
+export function extractMermaidDiagrams(text: string): MermaidDiagram[] {
+    return Array.from(text.matchAll(FENCE_PATTERN), (match) => {
+        const source = match[1].trim();
+        const lines = source
+            .split("\n")
+            .map((line) => line.trim())
+            .filter((line) => line && !line.startsWith("%%"));
+        const declared = lines[0]?.split(/\s+/)[0] ?? "";
+
+        return {
+            type: DIAGRAM_TYPES.includes(declared) ? declared : null,
+            source,
+            lines: lines.length,
+        };
+    });
+}
@@ -0,0 +1,69 @@
+// Instruction-like content in a candidate's answer. Each pattern targets text addressed to the
+// grader rather than to the interviewer's question, so answers that merely discuss prompts or
+// AI don't match.
+const INJECTION_PATTERNS: { name: string; pattern: RegExp }[] = [
+    {
+        name: "override-instructions",
+        pattern:
+            /\b(ignore|disregard|forget|override)\b[^.!?\n]{0,30}\b(previous|prior|above|preceding|earlier|all|any|your|system|grading|scoring)\s+(\w+\s+)?(instructions?|prompts?|rubric|criteria|guidelines|rules)\b/i,
+    },
+    {
+        name: "score-demand",
+        pattern:
+            /\b(give|award|assign|rate|score|grade|mark)\b[^.!?\n]{0,40}\b(10\s*\/\s*10|10 out of 10|full marks|perfect score|maximum score|highest score|all 10s)\b/i,
+    },
+    {
+        name: "score-assertion",
+        pattern:
+            /\b(this|my) answer\b[^.!?\n]{0,30}\b(deserves|should (get|receive|be (given|scored|rated))|must (get|receive|be (given|scored|rated)))\b/i,
+    },
+    {
+        name: "role-reassignment",
+        pattern:
+            /\b(you are now (a|an|the|in)|from now on,? you (are|will|must)|pretend (to be|you are) (a|an|the)|developer mode|jailbreak)\b/i,
+    },
+    {
+        name: "grader-address",
+        pattern:
+            /\b(dear|attention|note to( the)?|hey|hi)\s+(grader|evaluator|assistant|ai|model|llm|reviewer|chatgpt|gemini|claude)\b/i,
+    },
+    {
+        name: "output-forging",
+        pattern: /"(relevanceScore|clarityScore|depthScore|communicationScore|criteria)"\s*:/i,
+    },
+    {
+        name: "delimiter-escape",
+        pattern:
+            /<\/?\s*(candidate_answer|interview_question|earlier_answer|interviewer_persona|system|instructions?)\s*>/i,
+    },
+    {
+        name: "chat-markup",
+        pattern:
+            /(^|\n)\s*(system|assistant)\s*:|<\|(im_start|im_end|system|endoftext)\|>|\[\/?INST\]/i,
+    },
+];
+
+export interface InjectionCheck {
+    suspected: boolean;
+    // Names of the patterns that matched
+    signals: string[];
+}
+
+/**
+ * Look for instructions aimed at the grader inside untrusted text
+ */
+export function detectInjection(text: string): InjectionCheck {
+    const signals = INJECTION_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(
+        ({ name }) => name
+    );
+    return { suspected: signals.length > 0, signals };
+}
+
+/**
+ * Wrap untrusted text in `<tag>` delimiters for a prompt. Any copy of the tag inside the text is
+ * defanged so the text can't close the block early and continue as instructions.
+ */
+export function delimitUntrusted(tag: string, text: string): string {
+    const escaped = text.replace(new RegExp(`<(\\s*/?\\s*${tag})`, "gi"), "&lt;$1");
+    return `<${tag}>\n${escaped}\n</${tag}>`;
+}
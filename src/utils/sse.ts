@@ -0,0 +1,22 @@
+import { Response } from "express";
+
+// Prepare a response for Server-Sent Events. `no-transform` keeps compression() from buffering it.
+export const initSSE = (res: Response) => {
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+};
+
+export const sendEvent = (res: Response, event: string, data: unknown) => {
+    if (res.writableEnded) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+export const endSSE = (res: Response) => {
+    if (!res.writableEnded) {
+        res.end();
+    }
+};
@@ -0,0 +1,126 @@
+import type { z } from "zod";
+import type { LLMProvider, LLMRequest } from "../providers";
+import logger from "./logger";
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface StructuredResult<T> {
+    data: T;
+    source: "ai" | "repaired";
+    attempts: number;
+}
+
+export class StructuredOutputError extends Error {
+    constructor(
+        message: string,
+        public readonly attempts: number
+    ) {
+        super(message);
+        this.name = "StructuredOutputError";
+    }
+}
+
+const describeIssues = (error: z.ZodError) =>
+    error.issues
+        .slice(0, 5)
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; ");
+
+const tryParseJson = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Best-effort cleanup of model text: strips markdown fences and surrounding prose,
+ * and unwraps a single-key object like { "questions": [...] }.
+ */
+export function repairJson(text: string): unknown[] {
+    const candidates: unknown[] = [];
+    const unfenced = text.replace(/```(?:json)?/gi, "").trim();
+
+    const direct = tryParseJson(unfenced);
+    if (direct !== undefined) candidates.push(direct);
+
+    for (const [open, close] of [
+        ["[", "]"],
+        ["{", "}"],
+    ]) {
+        const start = unfenced.indexOf(open);
+        const end = unfenced.lastIndexOf(close);
+        if (start !== -1 && end > start) {
+            const sliced = tryParseJson(unfenced.slice(start, end + 1));
+            if (sliced !== undefined) candidates.push(sliced);
+        }
+    }
+
+    for (const candidate of [...candidates]) {
+        if (candidate && typeof candidate === "object" && !Array.isArray(candidate)) {
+            const values = Object.values(candidate);
+            if (values.length === 1 && typeof values[0] === "object") {
+                candidates.push(values[0]);
+            }
+        }
+    }
+
+    return candidates;
+}
+
+/**
+ * Ask the provider for JSON matching `schema`. Output that fails validation is repaired
+ * locally first, then re-prompted with the validation errors up to `maxRepairs` times.
+ * Throws StructuredOutputError when every attempt fails.
+ */
+export async function generateStructured<S extends z.ZodType>(
+    provider: LLMProvider,
+    request: LLMRequest,
+    schema: S,
+    maxRepairs: number = MAX_REPAIR_ATTEMPTS
+): Promise<StructuredResult<z.output<S>>> {
+    let prompt = request.prompt;
+    let lastError = "no response";
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+        const text = await provider.generate({ ...request, prompt });
+
+        const direct = schema.safeParse(tryParseJson(text.trim()));
+        if (direct.success) {
+            return {
+                data: direct.data,
+                source: attempt === 0 ? "ai" : "repaired",
+                attempts: attempt + 1,
+            };
+        }
+        lastError = describeIssues(direct.error);
+
+        for (const candidate of repairJson(text)) {
+            const repaired = schema.safeParse(candidate);
+            if (repaired.success) {
+                return { data: repaired.data, source: "repaired", attempts: attempt + 1 };
+            }
+            lastError = describeIssues(repaired.error);
+        }
+
+        logger.warn("Structured output failed validation", {
+            task: request.task,
+            attempt: attempt + 1,
+            error: lastError,
+        });
+
+        prompt = `${request.prompt}
+
+Your previous response could not be used (${lastError}).
+Previous response:
+${text.slice(0, 2000)}
+
+Respond again with ONLY valid JSON in the requested structure. No markdown fences, no commentary.`;
+    }
+
+    throw new StructuredOutputError(
+        `Invalid ${request.task} output after ${maxRepairs + 1} attempts: ${lastError}`,
+        maxRepairs + 1
+    );
+}
@@ -0,0 +1,38 @@
+// Words that carry no meaning for question comparison
+const STOPWORDS = new Set(
+    (
+        "a an and are as at be by can could describe did do does explain for from has have how i " +
+        "if in is it me of on or our tell that the their them this to us walk was we were what " +
+        "when where which while who why will with would you your yourself time"
+    ).split(" ")
+);
+
+// Crude suffix stripping so "designed"/"designing"/"designs" compare equal
+const stem = (word: string) => word.replace(/(ing|ed|es|s)$/, "") || word;
+
+export const tokenize = (text: string): Set<string> =>
+    new Set(
+        text
+            .toLowerCase()
+            .replace(/[^a-z0-9\s]/g, " ")
+            .split(/\s+/)
+            .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+            .map(stem)
+    );
+
+/**
+ * Jaccard similarity of the content words in two texts, from 0 (disjoint) to 1 (same words)
+ */
+export function textSimilarity(a: string | Set<string>, b: string | Set<string>): number {
+    const tokensA = typeof a === "string" ? tokenize(a) : a;
+    const tokensB = typeof b === "string" ? tokenize(b) : b;
+    if (tokensA.size === 0 || tokensB.size === 0) {
+        return 0;
+    }
+
+    let shared = 0;
+    for (const token of tokensA) {
+        if (tokensB.has(token)) shared++;
+    }
+    return shared / (tokensA.size + tokensB.size - shared);
+}
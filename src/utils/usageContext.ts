@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// One completed (or failed) LLM call, as seen by the metered provider
+export interface LLMCall {
+    task: string;
+    provider: string;
+    model: string;
+    inputChars: number;
+    outputChars: number;
+    latencyMs: number;
+    outcome: "success" | "error";
+    error?: string;
+}
+
+// Who LLM calls made while handling a request are billed to
+export interface UsageContext {
+    userId: number | null;
+    endpoint: string;
+    record(call: LLMCall): void;
+}
+
+const storage = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * Run `fn` with a usage context; every LLM call made inside it, however deep, is reported to
+ * `context.record`
+ */
+export const runWithUsage = <T>(context: UsageContext, fn: () => T): T => storage.run(context, fn);
+
+/**
+ * Report an LLM call to the current usage context. Calls outside a request (scripts, health
+ * checks) aren't metered.
+ */
+export const reportLLMCall = (call: LLMCall): void => {
+    storage.getStore()?.record(call);
+};